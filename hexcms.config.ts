@@ -0,0 +1,48 @@
+/**
+ * heXcms Configuration
+ *
+ * Declares custom content types, synced from content/<directory>/*.md into
+ * the `entries` table (see src/lib/content-types.ts). Query them with
+ * getEntries() and getEntryBySlug() from src/lib/db.ts.
+ */
+
+import { z } from 'zod';
+import type { HexcmsConfig } from './src/lib/content-types';
+
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export default {
+  contentTypes: {
+    'case-study': {
+      directory: 'case-studies',
+      schema: z.looseObject({
+        title: z.string().min(1).max(500),
+        client: z.string(),
+        summary: z.string().optional(),
+        publishedAt: date.optional(),
+        authors: z.array(z.string()).default([]),
+        tags: z.array(z.string()).default([]),
+      }),
+      relations: { authors: 'author', tags: 'tag' },
+    },
+    job: {
+      directory: 'jobs',
+      schema: z.looseObject({
+        title: z.string().min(1).max(500),
+        location: z.string(),
+        employmentType: z.enum(['full-time', 'part-time', 'contract']).default('full-time'),
+        closesAt: date.optional(),
+      }),
+    },
+    changelog: {
+      directory: 'changelog',
+      schema: z.looseObject({
+        title: z.string().min(1).max(500),
+        version: z.string(),
+        releasedAt: date,
+      }),
+      // content/changelog/2024-01-15-v1.2.0.md -> v1-2-0
+      slug: ({ data }) => data.version.replace(/^v?/, 'v').replace(/\./g, '-'),
+    },
+  },
+} satisfies HexcmsConfig;
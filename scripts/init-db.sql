@@ -4,6 +4,9 @@
 -- This script creates all necessary tables, indexes, and constraints
 -- for the heXcms content management system.
 --
+-- It only sets up a fresh database. Every schema change made here also
+-- needs an idempotent migration in scripts/migrations/ (npm run db:migrate).
+--
 -- Based on: docs/reference/database.md
 
 -- ===========================================================================
@@ -29,6 +32,9 @@ CREATE TABLE IF NOT EXISTS authors (
   avatar_url TEXT,
   website VARCHAR(500),
   social JSONB DEFAULT '{}'::jsonb, -- Twitter, GitHub, LinkedIn, etc.
+  source_path TEXT, -- Content file the row was synced from
+  content_hash VARCHAR(64), -- Git blob SHA of the synced file
+  auto_created BOOLEAN DEFAULT false, -- Placeholder created by the sync (garbage-collected when unused)
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -46,12 +52,51 @@ CREATE TABLE IF NOT EXISTS tags (
   slug VARCHAR(255) UNIQUE NOT NULL,
   name VARCHAR(255) NOT NULL,
   description TEXT,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  color VARCHAR(7), -- Hex color, e.g. #3178c6
+  parent_id UUID REFERENCES tags(id) ON DELETE SET NULL,
+  source_path TEXT, -- Definition file (content/tags/*.md), NULL for tags only used by posts
+  content_hash VARCHAR(64), -- Git blob SHA of the synced file
+  auto_created BOOLEAN DEFAULT false, -- Placeholder created by the sync (garbage-collected when unused)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Indexes for tags
 CREATE INDEX IF NOT EXISTS idx_tags_slug ON tags(slug);
 CREATE INDEX IF NOT EXISTS idx_tags_name ON tags(name);
+CREATE INDEX IF NOT EXISTS idx_tags_parent_id ON tags(parent_id);
+
+-- ===========================================================================
+-- Categories Table (Primary post category, hierarchical)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS categories (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  slug VARCHAR(255) UNIQUE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  parent_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  source_path TEXT, -- Definition file (content/categories/*.md), NULL for categories only used by posts
+  content_hash VARCHAR(64), -- Git blob SHA of the synced file
+  auto_created BOOLEAN DEFAULT false, -- Placeholder created by the sync (garbage-collected when unused)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for categories
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+
+-- ===========================================================================
+-- Series Table (Multi-part posts, created from the series frontmatter field)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS series (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  slug VARCHAR(255) UNIQUE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
 
 -- ===========================================================================
 -- Posts Table
@@ -65,12 +110,22 @@ CREATE TABLE IF NOT EXISTS posts (
   content TEXT NOT NULL,
   content_html TEXT, -- Rendered markdown
   author_id UUID REFERENCES authors(id) ON DELETE SET NULL,
-  status VARCHAR(50) DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  status VARCHAR(50) DEFAULT 'draft' CHECK (status IN ('draft', 'scheduled', 'published', 'archived')), -- scheduled: published with a future published_at
   featured_image VARCHAR(500),
   featured BOOLEAN DEFAULT false,
   reading_time INTEGER, -- in minutes
   views INTEGER DEFAULT 0,
   published_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE, -- Hidden from then on, archived by the scheduler
+  content_updated_at TIMESTAMP WITH TIME ZONE, -- Frontmatter updatedAt
+  meta_description TEXT,
+  meta_keywords TEXT[],
+  frontmatter JSONB DEFAULT '{}'::jsonb, -- Full validated frontmatter, including custom fields
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  series_id UUID REFERENCES series(id) ON DELETE SET NULL,
+  series_order INTEGER, -- Part number within the series
+  source_path TEXT, -- Content file the row was synced from
+  content_hash VARCHAR(64), -- Git blob SHA of the synced file
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
 
@@ -88,6 +143,10 @@ CREATE INDEX IF NOT EXISTS idx_posts_status ON posts(status);
 CREATE INDEX IF NOT EXISTS idx_posts_published_at ON posts(published_at DESC);
 CREATE INDEX IF NOT EXISTS idx_posts_author_id ON posts(author_id);
 CREATE INDEX IF NOT EXISTS idx_posts_featured ON posts(featured) WHERE featured = true;
+CREATE INDEX IF NOT EXISTS idx_posts_scheduled ON posts(published_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_posts_expires_at ON posts(expires_at) WHERE expires_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_posts_category_id ON posts(category_id);
+CREATE INDEX IF NOT EXISTS idx_posts_series ON posts(series_id, series_order) WHERE series_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_posts_search_vector ON posts USING GIN(search_vector);
 
 -- ===========================================================================
@@ -105,20 +164,48 @@ CREATE TABLE IF NOT EXISTS post_tags (
 CREATE INDEX IF NOT EXISTS idx_post_tags_post_id ON post_tags(post_id);
 CREATE INDEX IF NOT EXISTS idx_post_tags_tag_id ON post_tags(tag_id);
 
+-- ===========================================================================
+-- Post-Author Junction Table (Co-authors, in credit order)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS post_authors (
+  post_id UUID REFERENCES posts(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES authors(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0, -- 0 is the lead author (posts.author_id)
+  role VARCHAR(100), -- e.g. 'editor', 'illustrator'
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (post_id, author_id)
+);
+
+-- Indexes for post_authors
+CREATE INDEX IF NOT EXISTS idx_post_authors_author_id ON post_authors(author_id);
+
+-- Credit lead authors of posts synced before co-authors existed
+INSERT INTO post_authors (post_id, author_id)
+SELECT id, author_id FROM posts WHERE author_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
 -- ===========================================================================
 -- Pages Table (Static pages like About, Contact, etc.)
 -- ===========================================================================
 
 CREATE TABLE IF NOT EXISTS pages (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  slug VARCHAR(255) UNIQUE NOT NULL,
+  slug VARCHAR(255) UNIQUE NOT NULL, -- Path under content/pages, e.g. docs/install
+  parent_id UUID REFERENCES pages(id) ON DELETE SET NULL, -- Nearest ancestor page by path
+  sort_order INTEGER, -- Position among sibling pages
   title VARCHAR(500) NOT NULL,
   content TEXT NOT NULL,
   content_html TEXT, -- Rendered markdown
-  status VARCHAR(50) DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  status VARCHAR(50) DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
   template VARCHAR(100), -- Optional custom template
   meta_description TEXT,
   published_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE, -- Hidden from then on, archived by the scheduler
+  content_updated_at TIMESTAMP WITH TIME ZONE, -- Frontmatter updatedAt
+  frontmatter JSONB DEFAULT '{}'::jsonb, -- Full validated frontmatter, including custom fields
+  source_path TEXT, -- Content file the row was synced from
+  content_hash VARCHAR(64), -- Git blob SHA of the synced file
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -126,6 +213,86 @@ CREATE TABLE IF NOT EXISTS pages (
 -- Indexes for pages
 CREATE INDEX IF NOT EXISTS idx_pages_slug ON pages(slug);
 CREATE INDEX IF NOT EXISTS idx_pages_status ON pages(status);
+CREATE INDEX IF NOT EXISTS idx_pages_parent_id ON pages(parent_id);
+CREATE INDEX IF NOT EXISTS idx_pages_expires_at ON pages(expires_at) WHERE expires_at IS NOT NULL;
+
+-- ===========================================================================
+-- Entries Table (Custom content types declared in hexcms.config.ts)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  type VARCHAR(100) NOT NULL, -- Content type name
+  slug VARCHAR(255) NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb, -- Validated frontmatter
+  content TEXT NOT NULL,
+  content_html TEXT, -- Rendered markdown
+  source_path TEXT, -- Content file the row was synced from
+  content_hash VARCHAR(64), -- Git blob SHA of the synced file
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (type, slug)
+);
+
+-- Content referenced by an entry's relation fields, by slug
+CREATE TABLE IF NOT EXISTS entry_relations (
+  entry_id UUID NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+  relation VARCHAR(100) NOT NULL, -- Frontmatter field
+  target_type VARCHAR(100) NOT NULL, -- 'post', 'author', 'page', 'tag' or a content type name
+  target_slug VARCHAR(255) NOT NULL,
+  PRIMARY KEY (entry_id, relation, target_slug)
+);
+
+-- Indexes for entries
+CREATE INDEX IF NOT EXISTS idx_entries_source_path ON entries(type, source_path);
+CREATE INDEX IF NOT EXISTS idx_entries_data ON entries USING GIN (data);
+CREATE INDEX IF NOT EXISTS idx_entry_relations_target ON entry_relations(target_type, target_slug);
+
+-- ===========================================================================
+-- Revision Tables (Content as synced at each commit)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS post_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  commit_sha VARCHAR(40) NOT NULL,
+  title VARCHAR(500) NOT NULL,
+  content TEXT NOT NULL,
+  frontmatter JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (post_id, commit_sha)
+);
+
+CREATE TABLE IF NOT EXISTS page_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  page_id UUID NOT NULL REFERENCES pages(id) ON DELETE CASCADE,
+  commit_sha VARCHAR(40) NOT NULL,
+  title VARCHAR(500) NOT NULL,
+  content TEXT NOT NULL,
+  frontmatter JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (page_id, commit_sha)
+);
+
+-- Indexes for revisions
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post_id ON post_revisions(post_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_page_revisions_page_id ON page_revisions(page_id, created_at DESC);
+
+-- ===========================================================================
+-- Redirects Table (Retired slugs left behind by renamed content files)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS redirects (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  resource_type VARCHAR(50) NOT NULL, -- 'post', 'author', 'page', 'tag', 'category'
+  from_slug VARCHAR(255) NOT NULL,
+  to_slug VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (resource_type, from_slug)
+);
+
+-- Indexes for redirects
+CREATE INDEX IF NOT EXISTS idx_redirects_to_slug ON redirects(resource_type, to_slug);
 
 -- ===========================================================================
 -- Sync Log Table (Track content sync operations)
@@ -134,7 +301,7 @@ CREATE INDEX IF NOT EXISTS idx_pages_status ON pages(status);
 CREATE TABLE IF NOT EXISTS sync_logs (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   event_type VARCHAR(100) NOT NULL, -- 'sync', 'create', 'update', 'delete'
-  resource_type VARCHAR(50) NOT NULL, -- 'post', 'author', 'page', 'tag'
+  resource_type VARCHAR(50) NOT NULL, -- 'post', 'author', 'page', 'tag', 'category', 'entry', 'series'
   resource_id UUID,
   file_path TEXT,
   commit_sha VARCHAR(40),
@@ -149,6 +316,54 @@ CREATE INDEX IF NOT EXISTS idx_sync_logs_created_at ON sync_logs(created_at DESC
 CREATE INDEX IF NOT EXISTS idx_sync_logs_resource_type ON sync_logs(resource_type);
 CREATE INDEX IF NOT EXISTS idx_sync_logs_status ON sync_logs(status);
 
+-- ===========================================================================
+-- Sync Jobs Table (Durable queue for webhook syncs)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('push', 'file')),
+  status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'cancelled', 'dead')),
+  payload JSONB NOT NULL, -- Webhook payload (push) or file change (file)
+  commit_sha VARCHAR(40),
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 5,
+  run_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- Not claimed before this time
+  locked_at TIMESTAMP WITH TIME ZONE, -- Set while a worker is running the job
+  last_error TEXT,
+  parent_id UUID REFERENCES sync_jobs(id) ON DELETE CASCADE, -- Push job a file retry came from
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for sync_jobs
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_due ON sync_jobs(run_at) WHERE status IN ('pending', 'running');
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_status ON sync_jobs(status);
+
+-- ===========================================================================
+-- Webhook Deliveries Table (Idempotency and replay of webhook pushes)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id VARCHAR(255) PRIMARY KEY, -- x-github-delivery header
+  event VARCHAR(100) NOT NULL,
+  ref VARCHAR(255) NOT NULL,
+  before_sha VARCHAR(40), -- Commit the push started from
+  commit_sha VARCHAR(40) NOT NULL,
+  commit_timestamp TIMESTAMP WITH TIME ZONE,
+  payload JSONB NOT NULL,
+  status VARCHAR(50) DEFAULT 'received' CHECK (status IN ('received', 'queued', 'ignored', 'rejected', 'failed')),
+  response JSONB DEFAULT '{}'::jsonb, -- Returned again for duplicate deliveries
+  job_id UUID REFERENCES sync_jobs(id) ON DELETE SET NULL,
+  attempts INTEGER DEFAULT 1,
+  replayed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for webhook_deliveries
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_before ON webhook_deliveries(ref, before_sha);
+
 -- ===========================================================================
 -- Functions and Triggers
 -- ===========================================================================
@@ -172,6 +387,15 @@ CREATE TRIGGER update_posts_updated_at BEFORE UPDATE ON posts
 CREATE TRIGGER update_pages_updated_at BEFORE UPDATE ON pages
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_entries_updated_at BEFORE UPDATE ON entries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_categories_updated_at BEFORE UPDATE ON categories
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_series_updated_at BEFORE UPDATE ON series
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- ===========================================================================
 -- Sample Data (Optional - for development/testing)
 -- ===========================================================================
@@ -211,6 +435,6 @@ ON CONFLICT (slug) DO NOTHING;
 DO $$
 BEGIN
   RAISE NOTICE 'heXcms database initialization completed successfully!';
-  RAISE NOTICE 'Tables created: authors, tags, posts, post_tags, pages, sync_logs';
+  RAISE NOTICE 'Tables created: authors, tags, categories, series, posts, post_tags, post_authors, pages, entries, entry_relations, post_revisions, page_revisions, sync_logs';
   RAISE NOTICE 'Sample data inserted: 1 author, 5 tags';
 END $$;
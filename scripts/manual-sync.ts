@@ -2,7 +2,9 @@
 /**
  * Manual Sync Script
  *
- * Manually sync content from GitHub repository to database.
+ * Manually sync content from the configured content source to database.
+ * The source (GitHub, GitLab, Gitea/Forgejo or local) is selected with the
+ * CONTENT_SOURCE env var; see src/lib/sources/index.ts.
  * Useful for:
  * - Initial content loading
  * - Testing sync functionality
@@ -15,34 +17,81 @@
  * Options:
  *   --dry-run              Show what would be synced without making changes
  *   --all                  Sync all content files from repository
+ *   --reconcile            Sync all files and prune rows with no backing file
+ *   --prune <mode>         How --reconcile prunes orphans: delete (default) or archive
+ *   --gc                   Remove unused tags and categories, placeholder authors and
+ *                          empty series
+ *                          (alone or after a sync)
  *   --file <path>          Sync specific file (e.g., content/posts/hello-world.md)
- *   --type <type>          Sync specific content type (posts|authors|pages)
+ *   --type <type>          Sync specific content type (posts|authors|pages|tags|categories,
+ *                          or a content type from hexcms.config.ts)
+ *   --source <source>      Content source (github|gitlab|gitea|local), overrides CONTENT_SOURCE
+ *   --dir <path>           Local content directory (implies --source local)
+ *   --env <name>           Sync the environment's branch into its database (see SYNC_ENVIRONMENTS)
+ *   --watch                Re-sync local files whenever they change (local source only)
+ *   --force                Rewrite files even when their content hash is unchanged
+ *   --concurrency <n>      Files fetched and rendered at once (default: SYNC_CONCURRENCY or 4)
+ *   --no-bulk              Fetch files one by one instead of downloading the content tree at once
  *   --verbose              Show detailed output
  *
  * Examples:
  *   npx tsx scripts/manual-sync.ts --all
  *   npx tsx scripts/manual-sync.ts --dry-run --all
+ *   npx tsx scripts/manual-sync.ts --reconcile --prune archive --dry-run
+ *   npx tsx scripts/manual-sync.ts --gc --dry-run
  *   npx tsx scripts/manual-sync.ts --file content/posts/my-post.md
  *   npx tsx scripts/manual-sync.ts --type posts
+ *   npx tsx scripts/manual-sync.ts --all --env staging
+ *   npx tsx scripts/manual-sync.ts --all --concurrency 8
+ *   npx tsx scripts/manual-sync.ts --all --source local --dir ./content --watch
  */
 
-import { Octokit } from '@octokit/rest';
+import { watch as watchFs, existsSync } from 'fs';
+import path from 'path';
 import {
   processFile,
+  processDeletedFile,
   filterContentFiles,
+  planReconciliation,
+  pruneOrphans,
+  collectGarbage,
+  runInEnvironment,
+  compareDependencyOrder,
+  getChangeStages,
+  getSyncConcurrency,
+  mapWithConcurrency,
 } from '../src/lib/sync';
+import { getEnvironment, getSyncEnvironments } from '../src/lib/environments';
+import {
+  createContentSource,
+  getLocalContentDir,
+  isContentSourceType,
+  prefetchContent,
+  WORKING_TREE_REF,
+} from '../src/lib/sources';
+import { getContentType, getContentTypes } from '../src/lib/content-types';
+import { closeDatabase } from '../src/lib/db-adapter';
+import type { ContentSource, ContentSourceType, ReconciliationPlan } from '../src/types';
 
 // Configuration
-const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
-const GITHUB_REPO_OWNER = process.env.GITHUB_REPO_OWNER || 'alamb-hex';
-const GITHUB_REPO_NAME = process.env.GITHUB_REPO_NAME || 'hexcms-content';
 const CONTENT_DIR = 'content';
+const WATCH_DEBOUNCE_MS = 200;
 
 interface SyncOptions {
   dryRun: boolean;
   all: boolean;
+  reconcile: boolean;
+  prune: 'delete' | 'archive';
+  gc: boolean;
   file?: string;
-  type?: 'posts' | 'authors' | 'pages';
+  type?: string; // Directory under content/
+  source?: ContentSourceType;
+  dir?: string;
+  env?: string;
+  concurrency: number;
+  bulk: boolean;
+  watch: boolean;
+  force: boolean;
   verbose: boolean;
 }
 
@@ -54,6 +103,13 @@ function parseArgs(): SyncOptions {
   const options: SyncOptions = {
     dryRun: args.includes('--dry-run'),
     all: args.includes('--all'),
+    reconcile: args.includes('--reconcile'),
+    prune: 'delete',
+    gc: args.includes('--gc'),
+    concurrency: getSyncConcurrency(),
+    bulk: !args.includes('--no-bulk'),
+    watch: args.includes('--watch'),
+    force: args.includes('--force'),
     verbose: args.includes('--verbose'),
   };
 
@@ -65,131 +121,170 @@ function parseArgs(): SyncOptions {
   const typeIndex = args.indexOf('--type');
   if (typeIndex !== -1 && args[typeIndex + 1]) {
     const type = args[typeIndex + 1];
-    if (type === 'posts' || type === 'authors' || type === 'pages') {
+    // Custom content types can be named by type name or directory
+    const customType = getContentType(type) ||
+      getContentTypes().find(({ directory }) => directory === type);
+    if (['posts', 'authors', 'pages', 'tags', 'categories'].includes(type)) {
       options.type = type;
+    } else if (customType) {
+      options.type = customType.directory;
     } else {
-      console.error(`Invalid type: ${type}. Must be posts, authors, or pages.`);
+      console.error(
+        `Invalid type: ${type}. Must be posts, authors, pages, tags, categories, or a content type in hexcms.config.ts.`
+      );
       process.exit(1);
     }
   }
 
-  return options;
-}
+  const pruneIndex = args.indexOf('--prune');
+  if (pruneIndex !== -1 && args[pruneIndex + 1]) {
+    const prune = args[pruneIndex + 1];
+    if (prune === 'delete' || prune === 'archive') {
+      options.prune = prune;
+    } else {
+      console.error(`Invalid prune mode: ${prune}. Must be delete or archive.`);
+      process.exit(1);
+    }
+  }
 
-/**
- * Get all content files from GitHub repository
- */
-async function getAllContentFiles(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  path: string = CONTENT_DIR
-): Promise<string[]> {
-  const files: string[] = [];
+  const sourceIndex = args.indexOf('--source');
+  if (sourceIndex !== -1 && args[sourceIndex + 1]) {
+    const source = args[sourceIndex + 1];
+    if (isContentSourceType(source)) {
+      options.source = source;
+    } else {
+      console.error(`Invalid source: ${source}. Must be github, gitlab, gitea, or local.`);
+      process.exit(1);
+    }
+  }
 
-  try {
-    const { data } = await octokit.repos.getContent({
-      owner,
-      repo,
-      path,
-    });
+  const dirIndex = args.indexOf('--dir');
+  if (dirIndex !== -1 && args[dirIndex + 1]) {
+    options.dir = args[dirIndex + 1];
+    options.source = options.source || 'local';
+  }
 
-    if (!Array.isArray(data)) {
-      return files;
+  const envIndex = args.indexOf('--env');
+  if (envIndex !== -1 && args[envIndex + 1]) {
+    options.env = args[envIndex + 1];
+    if (!getEnvironment(options.env)) {
+      const names = getSyncEnvironments().map((env) => env.name).join(', ');
+      console.error(`Invalid environment: ${options.env}. Must be one of ${names}.`);
+      process.exit(1);
     }
+  }
 
-    for (const item of data) {
-      if (item.type === 'file' && item.path.endsWith('.md')) {
-        files.push(item.path);
-      } else if (item.type === 'dir') {
-        // Recursively get files from subdirectories
-        const subFiles = await getAllContentFiles(octokit, owner, repo, item.path);
-        files.push(...subFiles);
-      }
+  const concurrencyIndex = args.indexOf('--concurrency');
+  if (concurrencyIndex !== -1 && args[concurrencyIndex + 1]) {
+    const concurrency = Number(args[concurrencyIndex + 1]);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      console.error(`Invalid concurrency: ${args[concurrencyIndex + 1]}. Must be a positive integer.`);
+      process.exit(1);
     }
+    options.concurrency = concurrency;
+  }
 
-    return files;
-  } catch (error) {
-    if (error instanceof Error && 'status' in error && error.status === 404) {
-      console.warn(`⚠️  Path not found: ${path}`);
-      return [];
-    }
-    throw error;
+  const sourceType = options.source || process.env.CONTENT_SOURCE;
+  if (options.watch && sourceType !== 'local') {
+    console.error('--watch is only supported with the local source (--source local)');
+    process.exit(1);
   }
+  if (options.watch && options.env) {
+    console.error('--watch cannot be combined with --env');
+    process.exit(1);
+  }
+
+  return options;
 }
 
 /**
  * Main sync function
  */
-async function sync(options: SyncOptions) {
+async function sync(options: SyncOptions, source: ContentSource) {
   const startTime = Date.now();
 
   console.log('🚀 Manual Sync Started');
   console.log('='.repeat(60));
-  console.log(`Repository: ${GITHUB_REPO_OWNER}/${GITHUB_REPO_NAME}`);
+
+  console.log(`Source: ${source.description}`);
   console.log(`Dry Run: ${options.dryRun ? 'Yes' : 'No'}`);
+  console.log(`Concurrency: ${options.concurrency}`);
   console.log('='.repeat(60));
   console.log('');
 
-  // Validate environment
-  if (!GITHUB_TOKEN) {
-    console.error('❌ GITHUB_TOKEN environment variable is required');
-    process.exit(1);
-  }
-
-  // Initialize Octokit
-  const octokit = new Octokit({ auth: GITHUB_TOKEN });
-
   // Get latest commit SHA
-  let commitSha = 'manual-sync';
+  let commitSha = source.defaultRef;
   try {
-    const { data: refData } = await octokit.git.getRef({
-      owner: GITHUB_REPO_OWNER,
-      repo: GITHUB_REPO_NAME,
-      ref: 'heads/main',
-    });
-    commitSha = refData.object.sha;
+    commitSha = await source.resolveRef(source.defaultRef);
     if (options.verbose) {
       console.log(`📍 Latest commit: ${commitSha.substring(0, 7)}`);
       console.log('');
     }
   } catch (error) {
-    console.warn('⚠️  Could not fetch latest commit SHA, using "manual-sync"');
+    console.warn(`⚠️  Could not fetch latest commit SHA, using "${source.defaultRef}"`);
+  }
+
+  // Download the listed directory in one request where the source supports it
+  const bulkDir = options.reconcile || (!options.file && options.all)
+    ? CONTENT_DIR
+    : !options.file && options.type
+      ? `${CONTENT_DIR}/${options.type}`
+      : null;
+  if (options.bulk && bulkDir && source.fetchTree) {
+    console.log(`📦 Downloading ${bulkDir}/ in bulk...`);
+    source = await prefetchContent(source, commitSha, bulkDir);
   }
 
   // Determine which files to sync
   let filesToSync: string[] = [];
-
-  if (options.file) {
+  let plan: ReconciliationPlan | null = null;
+
+  if (options.reconcile) {
+    // Compare every content file against the database
+    console.log('🔍 Planning reconciliation...');
+    plan = await planReconciliation(source, commitSha);
+    filesToSync = [...plan.create, ...plan.update].map(({ path }) => path);
+    printPlan(plan, options);
+  } else if (options.file) {
     // Sync single file
     filesToSync = [options.file];
     console.log(`📄 Syncing single file: ${options.file}`);
   } else if (options.all) {
     // Sync all content files
     console.log('📚 Fetching all content files...');
-    const allFiles = await getAllContentFiles(octokit, GITHUB_REPO_OWNER, GITHUB_REPO_NAME);
+    const allFiles = await source.listFiles(commitSha, CONTENT_DIR);
     filesToSync = filterContentFiles(allFiles);
     console.log(`Found ${filesToSync.length} content files`);
   } else if (options.type) {
     // Sync specific type
     console.log(`📚 Fetching ${options.type}...`);
-    const allFiles = await getAllContentFiles(
-      octokit,
-      GITHUB_REPO_OWNER,
-      GITHUB_REPO_NAME,
-      `${CONTENT_DIR}/${options.type}`
-    );
+    const allFiles = await source.listFiles(commitSha, `${CONTENT_DIR}/${options.type}`);
     filesToSync = filterContentFiles(allFiles);
     console.log(`Found ${filesToSync.length} ${options.type} files`);
+  } else if (options.gc) {
+    // Garbage collection only
+  } else if (options.watch) {
+    // Watch only, no initial sync
+    return;
   } else {
-    console.error('❌ Must specify --all, --file, or --type');
+    console.error('❌ Must specify --all, --reconcile, --file, --type, --gc, or --watch');
     console.log('');
     console.log('Usage: npx tsx scripts/manual-sync.ts [options]');
     console.log('');
     console.log('Options:');
     console.log('  --all              Sync all content files');
+    console.log('  --reconcile        Sync all files and prune orphaned rows');
+    console.log('  --prune <mode>     Prune mode for --reconcile (delete|archive)');
+    console.log('  --gc               Remove unused tags, categories, placeholder authors and empty series');
     console.log('  --file <path>      Sync specific file');
-    console.log('  --type <type>      Sync specific type (posts|authors|pages)');
+    console.log('  --type <type>      Sync specific type (posts|authors|pages|tags|categories|<content type>)');
+    console.log('  --source <source>  Content source (github|gitlab|gitea|local)');
+    console.log('  --dir <path>       Local content directory (implies --source local)');
+    console.log('  --env <name>       Sync an environment (see SYNC_ENVIRONMENTS)');
+    console.log('  --watch            Re-sync local files on change');
+    console.log('  --force            Rewrite unchanged files');
+    console.log('  --concurrency <n>  Files processed at once');
+    console.log('  --no-bulk          Fetch files one by one');
     console.log('  --dry-run          Show what would be synced');
     console.log('  --verbose          Show detailed output');
     process.exit(1);
@@ -197,44 +292,91 @@ async function sync(options: SyncOptions) {
 
   console.log('');
 
-  if (filesToSync.length === 0) {
+  if (filesToSync.length === 0 && !plan?.prune.length && !options.gc) {
     console.log('ℹ️  No files to sync');
     return;
   }
 
+  // Authors first, so posts don't create placeholder authors
+  filesToSync.sort(compareDependencyOrder);
+
   // Process files
   const errors: Array<{ file: string; error: string }> = [];
   let processed = 0;
+  let skipped = 0;
 
   console.log(`Processing ${filesToSync.length} files...`);
   console.log('');
 
-  for (const file of filesToSync) {
-    try {
-      if (options.verbose) {
-        console.log(`  📄 Processing: ${file}`);
-      } else {
-        // Show progress
-        process.stdout.write(`\r  Progress: ${processed + 1}/${filesToSync.length}`);
-      }
-
-      if (!options.dryRun) {
-        await processFile(file, commitSha);
+  // Files in a stage are independent, so several are fetched and rendered at once
+  const stages = getChangeStages(filesToSync.map((file) => ({ type: 'upsert' as const, path: file })));
+
+  for (const stage of stages) {
+    await mapWithConcurrency(stage, options.concurrency, async ({ path: file }) => {
+      try {
+        if (options.verbose) {
+          console.log(`  📄 Processing: ${file}`);
+        }
+
+        if (!options.dryRun) {
+          const outcome = await processFile(file, commitSha, source, { force: options.force });
+          if (outcome === 'skipped') {
+            skipped++;
+          }
+        }
+
+        processed++;
+
+        if (!options.verbose) {
+          // Show progress
+          process.stdout.write(`\r  Progress: ${processed}/${filesToSync.length}`);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        errors.push({ file, error: errorMessage });
+
+        if (options.verbose) {
+          console.error(`    ❌ ${file}: ${errorMessage}`);
+        }
       }
+    });
+  }
 
-      processed++;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      errors.push({ file, error: errorMessage });
+  if (!options.verbose) {
+    console.log(''); // New line after progress
+  }
 
-      if (options.verbose) {
-        console.error(`    ❌ Error: ${errorMessage}`);
-      }
+  // Prune rows whose files are gone
+  let pruned = 0;
+  if (plan && plan.prune.length > 0) {
+    if (filesToSync.length === 0) {
+      // An empty listing more likely means a misconfigured source than an empty site
+      console.warn('⚠️  No content files found, refusing to prune');
+    } else if (!options.dryRun) {
+      console.log(`🧹 Pruning ${plan.prune.length} orphaned rows (${options.prune})...`);
+      const result = await pruneOrphans(plan.prune, commitSha, options.prune);
+      pruned = result.pruned;
+      errors.push(...result.errors);
     }
   }
 
-  if (!options.verbose) {
-    console.log(''); // New line after progress
+  // Remove tags, categories, placeholder authors and series nothing uses any more
+  let collected: {
+    tags: string[];
+    categories: string[];
+    authors: string[];
+    series: string[];
+  } | null = null;
+  if (options.gc) {
+    console.log(`🗑️  ${options.dryRun ? 'Finding' : 'Removing'} unused tags, categories, placeholder authors and series...`);
+    collected = await collectGarbage(commitSha, { dryRun: options.dryRun });
+
+    if (options.verbose || options.dryRun) {
+      collected.tags.forEach((slug) => console.log(`    - tag: ${slug}`));
+      collected.categories.forEach((slug) => console.log(`    - category: ${slug}`));
+      collected.authors.forEach((slug) => console.log(`    - author: ${slug}`));
+      collected.series.forEach((slug) => console.log(`    - series: ${slug}`));
+    }
   }
 
   const duration = Date.now() - startTime;
@@ -245,6 +387,17 @@ async function sync(options: SyncOptions) {
   console.log('✅ Sync Complete');
   console.log('='.repeat(60));
   console.log(`Files processed: ${processed}/${filesToSync.length}`);
+  console.log(`Unchanged (skipped): ${skipped}`);
+  if (plan) {
+    console.log(`Rows pruned: ${pruned}/${plan.prune.length}`);
+  }
+  if (collected) {
+    const verb = options.dryRun ? 'Unused' : 'Unused (removed)';
+    console.log(
+      `${verb}: ${collected.tags.length} tags, ${collected.categories.length} categories, ` +
+        `${collected.authors.length} authors, ${collected.series.length} series`
+    );
+  }
   console.log(`Duration: ${(duration / 1000).toFixed(2)}s`);
   console.log(`Errors: ${errors.length}`);
 
@@ -256,15 +409,111 @@ async function sync(options: SyncOptions) {
     });
   }
 
-  // Exit with appropriate code
-  if (errors.length > 0) {
+  // Exit with appropriate code (keep running when watching)
+  if (errors.length > 0 && !options.watch) {
     process.exit(1);
   }
 }
 
+/**
+ * Print a reconciliation plan
+ */
+function printPlan(plan: ReconciliationPlan, options: SyncOptions) {
+  console.log('');
+  console.log('📋 Reconciliation plan:');
+  console.log(`  Create: ${plan.create.length}`);
+  console.log(`  Update: ${plan.update.length}`);
+  console.log(`  ${options.prune === 'archive' ? 'Archive' : 'Delete'}: ${plan.prune.length}`);
+
+  if (options.verbose || options.dryRun) {
+    plan.create.forEach(({ path }) => console.log(`    + ${path}`));
+    plan.prune.forEach(({ resourceType, slug, entryType }) =>
+      console.log(`    - ${entryType || resourceType}: ${slug}`)
+    );
+  }
+}
+
+/**
+ * Watch a local content directory and re-sync changed files
+ *
+ * Changes are debounced so an editor's burst of write events syncs once.
+ * Files that no longer exist are deleted from the database.
+ */
+function watch(options: SyncOptions, source: ContentSource) {
+  const dir = path.resolve(getLocalContentDir(options.dir));
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = async () => {
+    timer = null;
+    const files = filterContentFiles([...pending]);
+    pending.clear();
+
+    for (const file of files) {
+      const exists = existsSync(path.join(dir, file.slice(CONTENT_DIR.length + 1)));
+
+      try {
+        if (!options.dryRun) {
+          if (exists) {
+            await processFile(file, WORKING_TREE_REF, source);
+          } else {
+            await processDeletedFile(file, WORKING_TREE_REF);
+          }
+        }
+        console.log(`  ${exists ? '📄 Synced' : '🗑️  Deleted'}: ${file}`);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`  ❌ ${file}: ${errorMessage}`);
+      }
+    }
+  };
+
+  const watcher = watchFs(dir, { recursive: true }, (_event, filename) => {
+    if (!filename) {
+      return;
+    }
+    pending.add(`${CONTENT_DIR}/${filename.toString().split(path.sep).join('/')}`);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(flush, WATCH_DEBOUNCE_MS);
+  });
+
+  console.log('');
+  console.log(`👀 Watching ${dir} for changes (Ctrl+C to stop)`);
+
+  process.on('SIGINT', async () => {
+    watcher.close();
+    await closeDatabase();
+    process.exit(0);
+  });
+}
+
 // Run sync
 const options = parseArgs();
-sync(options).catch((error) => {
+
+async function main() {
+  const environment = options.env ? getEnvironment(options.env) : null;
+  const source = createContentSource(options.source, {
+    dir: options.dir,
+    branch: environment?.branch,
+  });
+
+  if (environment) {
+    console.log(`🌐 Environment: ${environment.name} (branch ${environment.branch})`);
+    await runInEnvironment(environment, `refs/heads/${environment.branch}`, () =>
+      sync(options, source)
+    );
+  } else {
+    await sync(options, source);
+  }
+
+  if (options.watch) {
+    watch(options, source);
+  }
+}
+
+main().catch((error) => {
   console.error('');
   console.error('❌ Fatal error:', error);
   process.exit(1);
@@ -0,0 +1,76 @@
+/**
+ * Database Migration Script
+ *
+ * Brings a database created by an older init-db.sql up to date by running
+ * every file in scripts/migrations in order. Migrations are idempotent, so
+ * running them again (or on a fresh database) changes nothing.
+ *
+ * Usage:
+ *   npm run db:migrate
+ */
+
+import { Client } from 'pg';
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join } from 'path';
+
+// Load .env.local if it exists (Node 20.12+)
+const envPath = join(process.cwd(), '.env.local');
+if (existsSync(envPath)) {
+  try {
+    // @ts-ignore - loadEnvFile is available in Node 20.12+
+    process.loadEnvFile(envPath);
+    console.log('✓ Loaded environment variables from .env.local');
+  } catch (error) {
+    console.warn('⚠️  Could not load .env.local:', error);
+  }
+}
+
+async function migrateDatabase() {
+  const DATABASE_URL = process.env.DATABASE_URL;
+
+  if (!DATABASE_URL) {
+    console.error('❌ Error: DATABASE_URL environment variable is not set');
+    process.exit(1);
+  }
+
+  const migrationsDir = join(__dirname, 'migrations');
+  const files = readdirSync(migrationsDir)
+    .filter((file) => file.endsWith('.sql'))
+    .sort();
+
+  const client = new Client({
+    connectionString: DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    console.log('✓ Connected successfully\n');
+
+    for (const file of files) {
+      console.log(`🚀 Running ${file}...`);
+      // Each migration applies completely or not at all
+      await client.query('BEGIN');
+      try {
+        await client.query(readFileSync(join(migrationsDir, file), 'utf-8'));
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new Error(
+          `Migration ${file} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    console.log(`\n✅ Applied ${files.length} migrations`);
+
+    await client.end();
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Error migrating database:', error instanceof Error ? error.message : error);
+    await client.end();
+    process.exit(1);
+  }
+}
+
+// Run migrations
+migrateDatabase();
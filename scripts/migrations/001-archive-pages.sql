@@ -0,0 +1,8 @@
+-- Migration 001: Archived pages
+--
+-- Reconciliation can archive pages without a backing file, so pages accept
+-- the 'archived' status like posts.
+
+ALTER TABLE pages DROP CONSTRAINT IF EXISTS pages_status_check;
+ALTER TABLE pages ADD CONSTRAINT pages_status_check
+  CHECK (status IN ('draft', 'published', 'archived'));
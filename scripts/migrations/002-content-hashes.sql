@@ -0,0 +1,13 @@
+-- Migration 002: Content hashes
+--
+-- Synced rows remember the file they came from and its git blob SHA, so
+-- unchanged files can be skipped.
+
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS source_path TEXT;
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS source_path TEXT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS source_path TEXT;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
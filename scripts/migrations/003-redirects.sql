@@ -0,0 +1,14 @@
+-- Migration 003: Redirects
+--
+-- Renamed content files leave their old slug behind as a redirect.
+
+CREATE TABLE IF NOT EXISTS redirects (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  resource_type VARCHAR(50) NOT NULL,
+  from_slug VARCHAR(255) NOT NULL,
+  to_slug VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (resource_type, from_slug)
+);
+
+CREATE INDEX IF NOT EXISTS idx_redirects_to_slug ON redirects(resource_type, to_slug);
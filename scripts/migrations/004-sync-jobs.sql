@@ -0,0 +1,22 @@
+-- Migration 004: Sync jobs
+--
+-- Webhook syncs run from a durable job queue with per-file retries.
+
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('push', 'file')),
+  status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'cancelled', 'dead')),
+  payload JSONB NOT NULL,
+  commit_sha VARCHAR(40),
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 5,
+  run_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  parent_id UUID REFERENCES sync_jobs(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_due ON sync_jobs(run_at) WHERE status IN ('pending', 'running');
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_status ON sync_jobs(status);
@@ -0,0 +1,29 @@
+-- Migration 005: Webhook deliveries
+--
+-- Deliveries are stored for duplicate detection and replay. A push is
+-- stale when an accepted push on the same ref starts from its head commit,
+-- so deliveries are looked up by ref and before SHA.
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id VARCHAR(255) PRIMARY KEY,
+  event VARCHAR(100) NOT NULL,
+  ref VARCHAR(255) NOT NULL,
+  before_sha VARCHAR(40),
+  commit_sha VARCHAR(40) NOT NULL,
+  commit_timestamp TIMESTAMP WITH TIME ZONE,
+  payload JSONB NOT NULL,
+  status VARCHAR(50) DEFAULT 'received' CHECK (status IN ('received', 'queued', 'rejected', 'failed')),
+  response JSONB DEFAULT '{}'::jsonb,
+  job_id UUID REFERENCES sync_jobs(id) ON DELETE SET NULL,
+  attempts INTEGER DEFAULT 1,
+  replayed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tables created before deliveries were chained by SHA
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS before_sha VARCHAR(40);
+UPDATE webhook_deliveries SET before_sha = payload->>'before' WHERE before_sha IS NULL;
+
+DROP INDEX IF EXISTS idx_webhook_deliveries_ref;
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_before ON webhook_deliveries(ref, before_sha);
@@ -0,0 +1,8 @@
+-- Migration 006: Ignored deliveries
+--
+-- Pushes to branches that are not mapped to a sync environment are stored
+-- as 'ignored'.
+
+ALTER TABLE webhook_deliveries DROP CONSTRAINT IF EXISTS webhook_deliveries_status_check;
+ALTER TABLE webhook_deliveries ADD CONSTRAINT webhook_deliveries_status_check
+  CHECK (status IN ('received', 'queued', 'ignored', 'rejected', 'failed'));
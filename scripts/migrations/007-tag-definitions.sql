@@ -0,0 +1,11 @@
+-- Migration 007: Tag definitions
+--
+-- Tags can be defined in content/tags/*.md with a color and a parent tag.
+
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS color VARCHAR(7);
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES tags(id) ON DELETE SET NULL;
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS source_path TEXT;
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_tags_parent_id ON tags(parent_id);
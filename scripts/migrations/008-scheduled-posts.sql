@@ -0,0 +1,10 @@
+-- Migration 008: Scheduled posts
+--
+-- Posts with a future publish date are stored as 'scheduled' and published
+-- by the scheduler endpoint.
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_status_check;
+ALTER TABLE posts ADD CONSTRAINT posts_status_check
+  CHECK (status IN ('draft', 'scheduled', 'published', 'archived'));
+
+CREATE INDEX IF NOT EXISTS idx_posts_scheduled ON posts(published_at) WHERE status = 'scheduled';
@@ -0,0 +1,12 @@
+-- Migration 011: SEO fields and full frontmatter
+--
+-- Posts keep their SEO fields, and posts and pages their full validated
+-- frontmatter (including custom fields).
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS content_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS meta_description TEXT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS meta_keywords TEXT[];
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS frontmatter JSONB DEFAULT '{}'::jsonb;
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS content_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS frontmatter JSONB DEFAULT '{}'::jsonb;
@@ -0,0 +1,34 @@
+-- Migration 012: Entries
+--
+-- Custom content types declared in hexcms.config.ts are synced into a
+-- JSONB entries table, with their relation fields in entry_relations.
+
+CREATE TABLE IF NOT EXISTS entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  type VARCHAR(100) NOT NULL,
+  slug VARCHAR(255) NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  content TEXT NOT NULL,
+  content_html TEXT,
+  source_path TEXT,
+  content_hash VARCHAR(64),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (type, slug)
+);
+
+CREATE TABLE IF NOT EXISTS entry_relations (
+  entry_id UUID NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+  relation VARCHAR(100) NOT NULL,
+  target_type VARCHAR(100) NOT NULL,
+  target_slug VARCHAR(255) NOT NULL,
+  PRIMARY KEY (entry_id, relation, target_slug)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entries_source_path ON entries(type, source_path);
+CREATE INDEX IF NOT EXISTS idx_entries_data ON entries USING GIN (data);
+CREATE INDEX IF NOT EXISTS idx_entry_relations_target ON entry_relations(target_type, target_slug);
+
+DROP TRIGGER IF EXISTS update_entries_updated_at ON entries;
+CREATE TRIGGER update_entries_updated_at BEFORE UPDATE ON entries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,19 @@
+-- Migration 013: Co-authors
+--
+-- Posts credit several authors in order. Lead authors of existing posts
+-- are credited first.
+
+CREATE TABLE IF NOT EXISTS post_authors (
+  post_id UUID REFERENCES posts(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES authors(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  role VARCHAR(100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (post_id, author_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_authors_author_id ON post_authors(author_id);
+
+INSERT INTO post_authors (post_id, author_id)
+SELECT id, author_id FROM posts WHERE author_id IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,20 @@
+-- Migration 014: Series
+--
+-- Posts can be parts of a series, created from the series frontmatter field.
+
+CREATE TABLE IF NOT EXISTS series (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  slug VARCHAR(255) UNIQUE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES series(id) ON DELETE SET NULL;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS series_order INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_posts_series ON posts(series_id, series_order) WHERE series_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_series_updated_at ON series;
+CREATE TRIGGER update_series_updated_at BEFORE UPDATE ON series
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,17 @@
+-- Migration 016: Nested pages
+--
+-- Pages nest under the nearest ancestor page by path and are ordered among
+-- their siblings.
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES pages(id) ON DELETE SET NULL;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS sort_order INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_pages_parent_id ON pages(parent_id);
+
+-- Link pages that already have path slugs
+UPDATE pages child SET parent_id = (
+  SELECT ancestor.id FROM pages ancestor
+  WHERE starts_with(child.slug, ancestor.slug || '/')
+  ORDER BY length(ancestor.slug) DESC
+  LIMIT 1
+);
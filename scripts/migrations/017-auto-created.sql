@@ -0,0 +1,9 @@
+-- Migration 017: Auto-created rows
+--
+-- Garbage collection only removes tags, categories and authors the sync
+-- created as placeholders. Existing rows are not marked, so nothing that
+-- predates the flag is ever collected.
+
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS auto_created BOOLEAN DEFAULT false;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS auto_created BOOLEAN DEFAULT false;
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS auto_created BOOLEAN DEFAULT false;
@@ -0,0 +1,94 @@
+#!/usr/bin/env tsx
+/**
+ * Scheduled Publishing Script
+ *
+ * Publishes posts whose future publishedAt date has arrived and archives
+ * content whose expiresAt date has passed by calling the running site's
+ * scheduler endpoint (POST /api/scheduler), which also revalidates cached
+ * pages. Exits non-zero on failure, so it can run from
+ * cron, e.g. every 5 minutes:
+ *
+ *   *\/5 * * * * cd /srv/hexcms && npm run publish:scheduled
+ *
+ * Requires ADMIN_API_SECRET.
+ *
+ * Usage:
+ *   npx tsx scripts/publish-scheduled.ts [options]
+ *
+ * Options:
+ *   --list          List scheduled posts instead of publishing
+ *   --url <url>     Site URL (default: NEXT_PUBLIC_SITE_URL)
+ *
+ * Examples:
+ *   npx tsx scripts/publish-scheduled.ts
+ *   npx tsx scripts/publish-scheduled.ts --list
+ *   npx tsx scripts/publish-scheduled.ts --url https://example.com
+ */
+
+interface PublishOptions {
+  list: boolean;
+  url: string;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(): PublishOptions {
+  const args = process.argv.slice(2);
+  const options: PublishOptions = {
+    list: args.includes('--list'),
+    url: process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
+  };
+
+  const urlIndex = args.indexOf('--url');
+  if (urlIndex !== -1 && args[urlIndex + 1]) {
+    options.url = args[urlIndex + 1];
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs();
+  const secret = process.env.ADMIN_API_SECRET;
+
+  if (!secret) {
+    console.error('❌ ADMIN_API_SECRET is not set');
+    process.exit(1);
+  }
+
+  const response = await fetch(`${options.url.replace(/\/$/, '')}/api/scheduler`, {
+    method: options.list ? 'GET' : 'POST',
+    headers: { authorization: `Bearer ${secret}` },
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    console.error(`❌ Scheduler returned ${response.status}: ${body.error || response.statusText}`);
+    process.exit(1);
+  }
+
+  if (options.list) {
+    console.log(`⏰ ${body.total} scheduled post(s)`);
+    for (const post of body.scheduled) {
+      console.log(`   ${post.publishedAt}  ${post.slug}`);
+    }
+    return;
+  }
+
+  for (const result of body.environments) {
+    for (const slug of result.published) {
+      console.log(`✅ [${result.environment}] published ${slug}`);
+    }
+    for (const slug of [...result.archived.posts, ...result.archived.pages]) {
+      console.log(`📦 [${result.environment}] archived ${slug} (expired)`);
+    }
+  }
+  console.log(`⏰ ${body.published} scheduled post(s) published, ${body.archived} expired item(s) archived`);
+}
+
+main().catch((error) => {
+  console.error('');
+  console.error('❌ Fatal error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,109 @@
+#!/usr/bin/env tsx
+/**
+ * Sync Worker Script
+ *
+ * Processes queued sync jobs (see src/lib/sync-queue.ts). The webhook
+ * endpoint runs due jobs right after responding; this worker picks up
+ * retries whose backoff has elapsed and jobs cut short by a serverless
+ * timeout. Run it continuously, or with --once from cron.
+ *
+ * Usage:
+ *   npx tsx scripts/sync-worker.ts [options]
+ *
+ * Options:
+ *   --once                 Process due jobs once and exit
+ *   --interval <seconds>   Polling interval (default: 10)
+ *
+ * Examples:
+ *   npx tsx scripts/sync-worker.ts
+ *   npx tsx scripts/sync-worker.ts --once
+ */
+
+import { runDueJobs } from '../src/lib/sync-queue';
+import { closeDatabase } from '../src/lib/db-adapter';
+
+// Configuration
+const DEFAULT_INTERVAL_SECONDS = 10;
+
+interface WorkerOptions {
+  once: boolean;
+  interval: number;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(): WorkerOptions {
+  const args = process.argv.slice(2);
+  const options: WorkerOptions = {
+    once: args.includes('--once'),
+    interval: DEFAULT_INTERVAL_SECONDS,
+  };
+
+  const intervalIndex = args.indexOf('--interval');
+  if (intervalIndex !== -1 && args[intervalIndex + 1]) {
+    const interval = Number(args[intervalIndex + 1]);
+    if (!(interval > 0)) {
+      console.error(`Invalid interval: ${args[intervalIndex + 1]}. Must be a positive number of seconds.`);
+      process.exit(1);
+    }
+    options.interval = interval;
+  }
+
+  return options;
+}
+
+/**
+ * Run due jobs until the queue has nothing due
+ */
+async function drain(): Promise<void> {
+  while (true) {
+    const summary = await runDueJobs();
+    const total = summary.completed + summary.retried + summary.cancelled + summary.dead;
+    if (total === 0) {
+      return;
+    }
+
+    console.log(
+      `✅ ${summary.completed} completed, 🔁 ${summary.retried} rescheduled, ` +
+        `⏭️  ${summary.cancelled} cancelled, 💀 ${summary.dead} dead-lettered`
+    );
+  }
+}
+
+// Run worker
+const options = parseArgs();
+let stopping = false;
+
+async function main() {
+  const shutdown = async () => {
+    stopping = true;
+    await closeDatabase();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  if (options.once) {
+    await drain();
+    await closeDatabase();
+    return;
+  }
+
+  console.log(`👷 Sync worker polling every ${options.interval}s (Ctrl+C to stop)`);
+
+  while (!stopping) {
+    try {
+      await drain();
+    } catch (error) {
+      console.error('❌ Worker error:', error instanceof Error ? error.message : error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, options.interval * 1000));
+  }
+}
+
+main().catch((error) => {
+  console.error('');
+  console.error('❌ Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+/**
+ * Post Revision Diff Endpoint
+ *
+ * Compares two revisions of a post: changed frontmatter fields and a
+ * unified diff of the content.
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_SECRET>`.
+ */
+
+import { NextResponse } from 'next/server';
+import { verifyAdminToken } from '@/lib/admin-auth';
+import { getPostRevision, getPostRevisions, getPreviousRevision } from '@/lib/db';
+import { diffRevisions } from '@/lib/diff';
+
+/**
+ * GET /api/posts/:slug/revisions/diff
+ *
+ * Query parameters (revision IDs or commit SHAs):
+ * - to: Newer revision (default: latest)
+ * - from: Older revision (default: the one before `to`)
+ * - format: `json` (default) or `text` for the plain unified diff
+ *
+ * @returns JSON response with the diff, or the diff as text/plain
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  if (!verifyAdminToken(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { slug } = await params;
+  const searchParams = new URL(request.url).searchParams;
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+
+  try {
+    const to = toParam
+      ? await getPostRevision(slug, toParam)
+      : (await getPostRevisions(slug, 1))[0] ?? null;
+    if (!to) {
+      return NextResponse.json(
+        { error: `Revision not found for post ${slug}: ${toParam ?? 'latest'}` },
+        { status: 404 }
+      );
+    }
+
+    const from = fromParam
+      ? await getPostRevision(slug, fromParam)
+      : await getPreviousRevision(to);
+    if (!from) {
+      return NextResponse.json(
+        { error: `Revision not found for post ${slug}: ${fromParam ?? `before ${to.commitSha}`}` },
+        { status: 404 }
+      );
+    }
+
+    const result = diffRevisions(from, to);
+
+    if (searchParams.get('format') === 'text') {
+      return new NextResponse(result.diff, {
+        headers: { 'content-type': 'text/plain; charset=utf-8' },
+      });
+    }
+
+    return NextResponse.json({ success: true, slug, ...result });
+  } catch (error) {
+    console.error('Post revision diff error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
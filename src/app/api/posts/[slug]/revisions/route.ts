@@ -0,0 +1,66 @@
+/**
+ * Post Revisions Endpoint
+ *
+ * Lists the revisions recorded each time a post's file was synced.
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_SECRET>`.
+ */
+
+import { NextResponse } from 'next/server';
+import { verifyAdminToken } from '@/lib/admin-auth';
+import { getPostRevisions } from '@/lib/db';
+
+/**
+ * GET /api/posts/:slug/revisions
+ *
+ * Query parameters:
+ * - limit: Maximum number of revisions (default: 50, max: 100)
+ *
+ * @returns JSON response with the revisions, newest first (without content)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  if (!verifyAdminToken(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { slug } = await params;
+  const limit = Math.min(
+    parseInt(new URL(request.url).searchParams.get('limit') || '', 10) || 50,
+    100
+  );
+
+  try {
+    const revisions = await getPostRevisions(slug, limit);
+
+    if (revisions.length === 0) {
+      return NextResponse.json(
+        { error: `No revisions found for post: ${slug}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      slug,
+      revisions: revisions.map((revision) => ({
+        id: revision.id,
+        commitSha: revision.commitSha,
+        title: revision.title,
+        createdAt: revision.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Post revisions error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
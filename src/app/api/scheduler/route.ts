@@ -0,0 +1,105 @@
+/**
+ * Scheduled Publishing Endpoint
+ *
+ * Publishes posts whose future publishedAt date has arrived, archives posts
+ * and pages whose expiresAt date has passed, and revalidates cached pages
+ * so the changes show. Call it on a schedule (see
+ * scripts/publish-scheduled.ts).
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_SECRET>`.
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { verifyAdminToken } from '@/lib/admin-auth';
+import { getPosts } from '@/lib/db';
+import { runScheduler } from '@/lib/scheduler';
+
+/**
+ * GET /api/scheduler
+ *
+ * Lists posts waiting to be published, soonest first.
+ *
+ * @returns JSON response with the scheduled posts
+ */
+export async function GET(request: Request) {
+  if (!verifyAdminToken(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { data, pagination } = await getPosts({
+      status: 'scheduled',
+      orderBy: 'publishedAt',
+      orderDirection: 'asc',
+      limit: 100,
+    });
+
+    return NextResponse.json({
+      success: true,
+      scheduled: data.map((post) => ({
+        slug: post.slug,
+        title: post.title,
+        publishedAt: post.publishedAt,
+      })),
+      total: pagination.total,
+    });
+  } catch (error) {
+    console.error('Scheduled posts listing error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/scheduler
+ *
+ * Publishes due scheduled posts and archives expired content in every sync
+ * environment.
+ *
+ * @returns JSON response with the published and archived slugs per environment
+ */
+export async function POST(request: Request) {
+  if (!verifyAdminToken(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await runScheduler();
+    const published = results.reduce((count, result) => count + result.published.length, 0);
+    const archived = results.reduce(
+      (count, result) => count + result.archived.posts.length + result.archived.pages.length,
+      0
+    );
+
+    if (published + archived > 0) {
+      // Listings, feeds, tag and author pages all change, not just the
+      // content's own pages
+      revalidatePath('/', 'layout');
+      console.log(`⏰ Published ${published} scheduled post(s), archived ${archived} expired item(s)`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      published,
+      archived,
+      environments: results,
+    });
+  } catch (error) {
+    console.error('Scheduler error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
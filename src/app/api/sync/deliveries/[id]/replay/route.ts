@@ -0,0 +1,68 @@
+/**
+ * Webhook Replay Endpoint
+ *
+ * Re-queues a stored webhook delivery, e.g. after fixing content or
+ * configuration that made its sync fail.
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_SECRET>`.
+ */
+
+import { NextResponse, after } from 'next/server';
+import { verifyAdminToken } from '@/lib/admin-auth';
+import { replayDelivery } from '@/lib/deliveries';
+import { runDueJobs } from '@/lib/sync-queue';
+
+/**
+ * POST /api/sync/deliveries/:id/replay
+ *
+ * @returns JSON response with the queued job
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!verifyAdminToken(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const job = await replayDelivery(id, {
+      atomic: process.env.SYNC_ATOMIC === 'true',
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: `Delivery not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    after(async () => {
+      try {
+        await runDueJobs();
+      } catch (error) {
+        console.error('Sync worker error:', error);
+      }
+    });
+
+    console.log(`🔁 Delivery ${id} replayed as sync job ${job.id}`);
+    return NextResponse.json({
+      success: true,
+      message: 'Delivery replay queued',
+      deliveryId: id,
+      jobId: job.id,
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Webhook replay error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,26 @@
 /**
  * GitHub Webhook Sync Endpoint
  *
- * Receives push events from GitHub and syncs content to database.
+ * Receives push events from GitHub and queues them for syncing to database.
  *
  * Features:
  * - HMAC SHA-256 signature verification
  * - Push event processing
- * - Error isolation (individual file failures don't stop the sync)
+ * - Durable job queue (responds with 202 well within GitHub's 10s timeout)
+ * - Per-file retries with backoff, dead-lettering files that keep failing
+ * - Delivery idempotency (x-github-delivery) and stale-commit rejection
+ * - Branch filtering (only branches mapped in SYNC_ENVIRONMENTS are synced)
  * - Comprehensive error handling and logging
  * - Proper status codes
  */
 
-import { NextResponse } from 'next/server';
+import { NextResponse, after } from 'next/server';
 import { headers } from 'next/headers';
 import type { GitHubWebhookPayload } from '@/types';
-import { verifyWebhookSignature, processWebhook } from '@/lib/sync';
+import { verifyWebhookSignature } from '@/lib/sync';
+import { enqueueSyncJob, runDueJobs } from '@/lib/sync-queue';
+import { recordDelivery, finishDelivery, findNewerDelivery } from '@/lib/deliveries';
+import { getEnvironmentForRef } from '@/lib/environments';
 
 /**
  * POST /api/sync
@@ -24,11 +30,20 @@ import { verifyWebhookSignature, processWebhook } from '@/lib/sync';
  * Headers required:
  * - x-hub-signature-256: HMAC SHA-256 signature
  * - x-github-event: Event type (must be 'push')
+ * - x-github-delivery: Delivery ID (used to detect duplicates)
  *
- * @returns JSON response with sync results
+ * The push is stored as a sync job and processed after the response is
+ * sent; jobs left over (retries, or a cut-short run) are picked up by the
+ * next webhook or by `npm run sync:worker`.
+ *
+ * Deliveries already handled get their stored response back, and pushes
+ * older than the last accepted push to the same ref are rejected with 409.
+ *
+ * @returns JSON response with the queued job
  */
 export async function POST(request: Request) {
   const startTime = Date.now();
+  let deliveryId: string | null = null;
 
   try {
     // Get headers
@@ -96,38 +111,96 @@ export async function POST(request: Request) {
       commit: payload.head_commit.id,
       author: payload.head_commit.author?.name,
       message: payload.head_commit.message,
-      added: payload.head_commit.added?.length || 0,
-      modified: payload.head_commit.modified?.length || 0,
-      removed: payload.head_commit.removed?.length || 0,
+      commits: payload.commits?.length || 1,
     });
 
-    // Process webhook and sync content
-    const result = await processWebhook(payload);
+    // Short-circuit deliveries that were already handled
+    deliveryId = headersList.get('x-github-delivery');
+    if (deliveryId) {
+      const { delivery, duplicate } = await recordDelivery(deliveryId, event, payload);
+      if (duplicate) {
+        console.log(`↩️  Duplicate delivery ${deliveryId}, returning stored result`);
+        return NextResponse.json(
+          { ...delivery.response, duplicate: true, deliveryId },
+          { status: 200 }
+        );
+      }
+    }
 
-    // Return appropriate response
-    if (result.success) {
-      console.log(`✅ Sync completed successfully: ${result.processed} files processed in ${result.duration}ms`);
-      return NextResponse.json({
+    // Ignore branches that are not mapped to a sync environment
+    const environment = getEnvironmentForRef(payload.ref);
+    if (!environment) {
+      const response = {
         success: true,
-        message: 'Content synchronized successfully',
-        processed: result.processed,
-        duration: result.duration,
-      });
+        message: `${payload.ref} is not mapped to a sync environment, skipping sync`,
+      };
+      if (deliveryId) {
+        await finishDelivery(deliveryId, 'ignored', response);
+      }
+      console.log(`⏭️  Push to unmapped ref ${payload.ref} ignored`);
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    if (deliveryId) {
+      // Reject pushes that would overwrite newer content
+      const newerCommit = await findNewerDelivery(deliveryId, payload);
+      if (newerCommit) {
+        const response = {
+          success: false,
+          error: `Commit ${payload.head_commit.id} is older than ${newerCommit}, already accepted for ${payload.ref}`,
+        };
+        await finishDelivery(deliveryId, 'rejected', response);
+        console.warn(`⚠️  Stale delivery ${deliveryId} rejected`, response.error);
+        return NextResponse.json(response, { status: 409 });
+      }
     } else {
-      console.warn(`⚠️  Sync completed with errors: ${result.errors.length} files failed`, result.errors);
-      return NextResponse.json({
-        success: false,
-        message: 'Sync completed with errors',
-        processed: result.processed,
-        duration: result.duration,
-        errors: result.errors,
-      }, { status: 207 }); // 207 Multi-Status (partial success)
+      console.warn('Webhook has no x-github-delivery header, duplicate detection skipped');
     }
 
+    // Queue the push and process it once the response is sent
+    const job = await enqueueSyncJob(payload, {
+      atomic: process.env.SYNC_ATOMIC === 'true',
+    });
+
+    after(async () => {
+      try {
+        const summary = await runDueJobs();
+        console.log('Sync jobs processed:', summary);
+      } catch (error) {
+        console.error('Sync worker error:', error);
+      }
+    });
+
+    const response = {
+      success: true,
+      message: 'Sync job queued',
+      jobId: job.id,
+      environment: environment.name,
+    };
+    if (deliveryId) {
+      await finishDelivery(deliveryId, 'queued', response, job.id);
+    }
+
+    console.log(`📥 Sync job queued: ${job.id}`);
+    return NextResponse.json({
+      ...response,
+      duration: Date.now() - startTime,
+    }, { status: 202 });
+
   } catch (error) {
     const duration = Date.now() - startTime;
     console.error('Webhook processing error:', error);
 
+    // Let GitHub's redelivery of this ID be processed again
+    if (deliveryId) {
+      await finishDelivery(deliveryId, 'failed', {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }).catch((finishError) => {
+        console.error('Failed to record delivery outcome:', finishError);
+      });
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -151,7 +224,7 @@ export async function GET() {
     endpoint: '/api/sync',
     status: 'operational',
     message: 'GitHub webhook sync endpoint is ready',
-    requiredHeaders: ['x-hub-signature-256', 'x-github-event'],
+    requiredHeaders: ['x-hub-signature-256', 'x-github-event', 'x-github-delivery'],
     supportedEvents: ['push'],
   });
 }
@@ -0,0 +1,33 @@
+/**
+ * Admin API Authentication
+ *
+ * Admin endpoints (such as webhook replay) require an
+ * `Authorization: Bearer <ADMIN_API_SECRET>` header.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Verify an admin request's Authorization header
+ *
+ * Performs timing-safe comparison. Always fails when ADMIN_API_SECRET is
+ * not set, so admin endpoints are disabled by default.
+ *
+ * @param authorization - Authorization header value
+ * @returns true if the bearer token matches ADMIN_API_SECRET
+ */
+export function verifyAdminToken(authorization: string | null): boolean {
+  const secret = process.env.ADMIN_API_SECRET;
+  if (!secret || !authorization?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const token = authorization.slice('Bearer '.length);
+
+  try {
+    return crypto.timingSafeEqual(Buffer.from(token), Buffer.from(secret));
+  } catch {
+    // If lengths don't match, timingSafeEqual throws - return false
+    return false;
+  }
+}
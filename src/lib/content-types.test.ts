@@ -0,0 +1,126 @@
+/**
+ * Tests for Custom Content Types
+ *
+ * This test suite validates content type lookup, slug rules and relation
+ * parsing for types declared in hexcms.config.ts.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+
+// Mock configuration
+const { mockConfig } = vi.hoisted(() => ({
+  mockConfig: { contentTypes: {} as Record<string, any> },
+}));
+
+vi.mock('../../hexcms.config', () => ({ default: mockConfig }));
+
+import {
+  getContentTypes,
+  getContentType,
+  getContentTypeForPath,
+  getEntrySlug,
+  getEntryRelations,
+} from './content-types';
+
+beforeEach(() => {
+  mockConfig.contentTypes = {
+    'case-study': {
+      directory: 'case-studies',
+      schema: z.object({ title: z.string() }),
+      relations: { tags: 'tag', author: 'author' },
+    },
+    changelog: {
+      directory: '/changelog/',
+      schema: z.object({ version: z.string() }),
+      slug: ({ data }: { data: { version: string } }) => `v${data.version}`,
+    },
+  };
+});
+
+describe('getContentTypes', () => {
+  it('should list declared types in order with their names', () => {
+    expect(getContentTypes().map((type) => type.name)).toEqual(['case-study', 'changelog']);
+  });
+
+  it('should reject built-in directories', () => {
+    mockConfig.contentTypes.news = { directory: 'posts', schema: z.object({}) };
+
+    expect(() => getContentTypes()).toThrow('Content type news cannot use the built-in posts directory');
+  });
+
+  it('should reject types sharing a directory', () => {
+    mockConfig.contentTypes.release = { directory: 'changelog', schema: z.object({}) };
+
+    expect(() => getContentTypes()).toThrow(
+      'Content types changelog and release share the directory changelog'
+    );
+  });
+});
+
+describe('getContentType', () => {
+  it('should find types by name', () => {
+    expect(getContentType('changelog')?.directory).toBe('/changelog/');
+    expect(getContentType('missing')).toBeNull();
+  });
+});
+
+describe('getContentTypeForPath', () => {
+  it('should match files in a type directory', () => {
+    expect(getContentTypeForPath('content/case-studies/acme.md')?.name).toBe('case-study');
+    expect(getContentTypeForPath('content/changelog/2024/v1.md')?.name).toBe('changelog');
+  });
+
+  it('should return null for other files', () => {
+    expect(getContentTypeForPath('content/posts/2024-01-15-hello.md')).toBeNull();
+    expect(getContentTypeForPath('content/case-studies-old/acme.md')).toBeNull();
+  });
+});
+
+describe('getEntrySlug', () => {
+  it('should default to the filename', () => {
+    const type = getContentType('case-study')!;
+
+    expect(getEntrySlug(type, 'content/case-studies/acme.md', {})).toBe('acme');
+  });
+
+  it('should apply the slug rule', () => {
+    const type = getContentType('changelog')!;
+
+    expect(getEntrySlug(type, 'content/changelog/release.md', { version: '1.2' })).toBe('v1.2');
+  });
+
+  it('should throw when the slug rule returns an empty slug', () => {
+    mockConfig.contentTypes.changelog.slug = () => '';
+    const type = getContentType('changelog')!;
+
+    expect(() => getEntrySlug(type, 'content/changelog/release.md', {})).toThrow(
+      'returned an empty slug for content/changelog/release.md'
+    );
+  });
+});
+
+describe('getEntryRelations', () => {
+  it('should read single slugs and lists, without duplicates', () => {
+    const type = getContentType('case-study')!;
+
+    expect(getEntryRelations(type, { tags: ['nextjs', 'nextjs', 'react'], author: 'jane' })).toEqual({
+      tags: { target: 'tag', slugs: ['nextjs', 'react'] },
+      author: { target: 'author', slugs: ['jane'] },
+    });
+  });
+
+  it('should treat missing fields as no relations', () => {
+    const type = getContentType('case-study')!;
+
+    expect(getEntryRelations(type, {}).tags.slugs).toEqual([]);
+  });
+
+  it('should reject values that are not slugs', () => {
+    const type = getContentType('case-study')!;
+
+    expect(() => getEntryRelations(type, { tags: [{ slug: 'x' }] })).toThrow(
+      'Relation tags of content type case-study must be a slug or a list of slugs'
+    );
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Custom Content Types
+ *
+ * Besides posts, authors, pages, tags and categories, content types declared in
+ * hexcms.config.ts (case studies, job listings, ...) are synced as generic
+ * entries: their frontmatter is validated with the type's schema and stored
+ * as JSONB in the `entries` table, and the content types they reference by
+ * slug are recorded in `entry_relations`.
+ *
+ * @example
+ * // hexcms.config.ts
+ * export default {
+ *   contentTypes: {
+ *     'case-study': {
+ *       directory: 'case-studies', // content/case-studies/*.md
+ *       schema: z.object({ title: z.string(), client: z.string(), tags: z.array(z.string()) }),
+ *       relations: { tags: 'tag' },
+ *     },
+ *   },
+ * } satisfies HexcmsConfig;
+ */
+
+import type { z } from 'zod';
+import config from '../../hexcms.config';
+
+const CONTENT_DIR = 'content';
+
+// Directories of the built-in content types
+const RESERVED_DIRECTORIES = ['posts', 'authors', 'pages', 'tags', 'categories'];
+
+/**
+ * Content an entry can reference by slug: a built-in type or the name of
+ * another custom content type
+ */
+export type RelationTarget = 'post' | 'author' | 'page' | 'tag' | (string & {});
+
+/**
+ * Declaration of a custom content type
+ */
+export interface ContentTypeDefinition<TSchema extends z.ZodType = z.ZodType> {
+  /** Directory under content/ holding the type's markdown files */
+  directory: string;
+  /** Frontmatter schema; the validated result is stored as the entry's data */
+  schema: TSchema;
+  /** Slug of an entry (default: the filename without `.md`) */
+  slug?: (file: { path: string; filename: string; data: z.output<TSchema> }) => string;
+  /** Frontmatter fields holding slugs (a string or a list) of referenced content */
+  relations?: Record<string, RelationTarget>;
+}
+
+/**
+ * Shape of hexcms.config.ts
+ */
+export interface HexcmsConfig {
+  contentTypes: Record<string, ContentTypeDefinition<any>>;
+}
+
+/**
+ * Content type names declared in hexcms.config.ts
+ */
+export type ContentTypeName = keyof (typeof config)['contentTypes'] & string;
+
+/**
+ * Validated frontmatter of an entry of the given content type
+ */
+export type EntryData<K extends ContentTypeName> = z.output<(typeof config)['contentTypes'][K]['schema']>;
+
+/**
+ * A declared content type with its name
+ */
+export interface ContentType extends ContentTypeDefinition {
+  name: string;
+}
+
+// ===========================================================================
+// Lookup
+// ===========================================================================
+
+/**
+ * Get the content types declared in hexcms.config.ts
+ *
+ * @returns Content types in declaration order
+ * @throws {Error} If a type uses a built-in directory or shares a directory
+ */
+export function getContentTypes(): ContentType[] {
+  const types = Object.entries(config.contentTypes as HexcmsConfig['contentTypes']).map(
+    ([name, definition]) => ({ ...definition, name })
+  );
+
+  const seen = new Map<string, string>();
+  for (const type of types) {
+    const directory = type.directory.replace(/^\/+|\/+$/g, '');
+    if (RESERVED_DIRECTORIES.includes(directory)) {
+      throw new Error(`Content type ${type.name} cannot use the built-in ${directory} directory`);
+    }
+    if (seen.has(directory)) {
+      throw new Error(
+        `Content types ${seen.get(directory)} and ${type.name} share the directory ${directory}`
+      );
+    }
+    seen.set(directory, type.name);
+  }
+
+  return types;
+}
+
+/**
+ * Get a content type by name
+ *
+ * @param name - Content type name
+ * @returns Content type or null if not declared
+ */
+export function getContentType(name: string): ContentType | null {
+  return getContentTypes().find((type) => type.name === name) ?? null;
+}
+
+/**
+ * Get the content type whose directory holds a file
+ *
+ * @param path - File path in repository (e.g. content/case-studies/acme.md)
+ * @returns Content type or null if the file is not in a declared directory
+ */
+export function getContentTypeForPath(path: string): ContentType | null {
+  return getContentTypes().find((type) => path.startsWith(`${getContentTypeDir(type)}/`)) ?? null;
+}
+
+/**
+ * Repository directory of a content type's files
+ *
+ * @param type - Content type
+ * @returns Directory path, e.g. content/case-studies
+ */
+export function getContentTypeDir(type: ContentType): string {
+  return `${CONTENT_DIR}/${type.directory.replace(/^\/+|\/+$/g, '')}`;
+}
+
+/**
+ * Resolve an entry's slug with its type's slug rule
+ *
+ * @param type - Content type
+ * @param path - File path in repository
+ * @param data - Validated frontmatter
+ * @returns Entry slug
+ * @throws {Error} If the slug rule returns an empty slug
+ */
+export function getEntrySlug(
+  type: ContentType,
+  path: string,
+  data: Record<string, unknown>
+): string {
+  const filename = (path.split('/').pop() || '').replace(/\.md$/, '');
+  const slug = type.slug ? type.slug({ path, filename, data }) : filename;
+
+  if (!slug) {
+    throw new Error(`Slug rule of content type ${type.name} returned an empty slug for ${path}`);
+  }
+  return slug;
+}
+
+/**
+ * Read the slugs an entry references, per relation
+ *
+ * @param type - Content type
+ * @param data - Validated frontmatter
+ * @returns Referenced slugs by relation name (empty list if the field is unset)
+ * @throws {Error} If a relation field is not a string or list of strings
+ */
+export function getEntryRelations(
+  type: ContentType,
+  data: Record<string, unknown>
+): Record<string, { target: RelationTarget; slugs: string[] }> {
+  const relations: Record<string, { target: RelationTarget; slugs: string[] }> = {};
+
+  for (const [field, target] of Object.entries(type.relations || {})) {
+    const value = data[field];
+    const slugs = value === undefined || value === null
+      ? []
+      : Array.isArray(value) ? value : [value];
+
+    if (!slugs.every((slug) => typeof slug === 'string')) {
+      throw new Error(`Relation ${field} of content type ${type.name} must be a slug or a list of slugs`);
+    }
+    relations[field] = { target, slugs: [...new Set(slugs as string[])] };
+  }
+
+  return relations;
+}
@@ -0,0 +1,165 @@
+/**
+ * Tests for Database Adapter
+ *
+ * This test suite validates transactions: commit, rollback, nesting, routing
+ * of `sql` to the transaction's connection, and the Neon WebSocket setup.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// The adapter loads its drivers with require(), which vi.mock does not
+// intercept, so fake drivers are placed in the require cache instead
+const { pools, neonConfig, ws } = vi.hoisted(() => {
+  const { createRequire } = require('module');
+  const nodeRequire = createRequire(__filename);
+
+  const pools: FakePool[] = [];
+  const neonConfig: { webSocketConstructor?: unknown } = {};
+  const ws = class FakeWebSocket {};
+
+  class FakeClient {
+    queries: string[] = [];
+    released = false;
+
+    async query(text: string) {
+      this.queries.push(text);
+      return { rows: [{ text }] };
+    }
+
+    release() {
+      this.released = true;
+    }
+  }
+
+  class FakePool {
+    queries: string[] = [];
+    clients: FakeClient[] = [];
+
+    constructor(public config: object) {
+      pools.push(this);
+    }
+
+    on() {}
+
+    async query(text: string) {
+      this.queries.push(text);
+      return { rows: [{ text }] };
+    }
+
+    async connect() {
+      const client = new FakeClient();
+      this.clients.push(client);
+      return client;
+    }
+
+    async end() {}
+  }
+
+  const stub = (id: string, exports: object) => {
+    nodeRequire.cache[nodeRequire.resolve(id)] = { exports } as any;
+  };
+  stub('pg', { Pool: FakePool });
+  stub('@neondatabase/serverless', { Pool: FakePool, neonConfig, neon: vi.fn() });
+  stub('ws', ws);
+
+  process.env.DATABASE_URL = 'postgres://localhost/hexcms_test';
+
+  return { pools, neonConfig, ws };
+});
+
+import { sql, transaction } from './db-adapter';
+
+// ===========================================================================
+// Transaction Tests
+// ===========================================================================
+
+describe('transaction', () => {
+  beforeEach(() => {
+    for (const pool of pools) {
+      pool.queries = [];
+      pool.clients = [];
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should commit when the callback resolves', async () => {
+    const result = await transaction(async () => {
+      await sql`UPDATE posts SET view_count = view_count + 1 WHERE id = ${'post-1'}`;
+      return 'done';
+    });
+
+    const [client] = pools[0].clients;
+    expect(result).toBe('done');
+    expect(client.queries).toEqual([
+      'BEGIN',
+      'UPDATE posts SET view_count = view_count + 1 WHERE id = $1',
+      'COMMIT',
+    ]);
+    expect(client.released).toBe(true);
+  });
+
+  it('should roll back and rethrow when the callback throws', async () => {
+    await expect(
+      transaction(async () => {
+        await sql`DELETE FROM post_tags WHERE post_id = ${'post-1'}`;
+        throw new Error('Tag insert failed');
+      })
+    ).rejects.toThrow('Tag insert failed');
+
+    const [client] = pools[0].clients;
+    expect(client.queries).toEqual([
+      'BEGIN',
+      'DELETE FROM post_tags WHERE post_id = $1',
+      'ROLLBACK',
+    ]);
+    expect(client.released).toBe(true);
+  });
+
+  it('should join the outer transaction when nested', async () => {
+    await transaction(async () => {
+      await sql`SELECT 1`;
+      await transaction(async () => {
+        await sql`SELECT 2`;
+      });
+    });
+
+    expect(pools[0].clients).toHaveLength(1);
+    expect(pools[0].clients[0].queries).toEqual(['BEGIN', 'SELECT 1', 'SELECT 2', 'COMMIT']);
+  });
+
+  it('should route sql to the connection of the transaction it runs in', async () => {
+    await Promise.all([
+      transaction(async () => {
+        await sql`SELECT ${'first'}`;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await sql`SELECT ${'first again'}`;
+      }),
+      transaction(async () => {
+        await sql`SELECT ${'second'}`;
+      }),
+    ]);
+    await (sql as any)('SELECT $1', ['outside']);
+
+    const [first, second] = pools[0].clients;
+    expect(first.queries).toEqual(['BEGIN', 'SELECT $1', 'SELECT $1', 'COMMIT']);
+    expect(second.queries).toEqual(['BEGIN', 'SELECT $1', 'COMMIT']);
+    expect(pools[0].queries).toEqual(['SELECT $1']);
+  });
+
+  it('should give the Neon pool a WebSocket implementation when there is no global one', async () => {
+    vi.stubEnv('DATABASE_DRIVER', 'neon');
+    vi.stubGlobal('WebSocket', undefined);
+    delete neonConfig.webSocketConstructor;
+
+    await transaction(async () => {
+      await sql`SELECT 1`;
+    });
+
+    expect(neonConfig.webSocketConstructor).toBe(ws);
+    expect(pools.at(-1)?.clients[0].queries).toEqual(['BEGIN', 'SELECT 1', 'COMMIT']);
+  });
+});
@@ -18,10 +18,22 @@
  *
  * // Dynamic queries (for building complex WHERE clauses)
  * const rows = await (sql as any)(queryString, params);
+ *
+ * // Transactions (queries made through `sql` inside the callback join it)
+ * await transaction(async () => {
+ *   await sql`DELETE FROM post_tags WHERE post_id = ${id}`;
+ *   await sql`INSERT INTO post_tags (post_id, tag_id) VALUES (${id}, ${tagId})`;
+ * });
+ *
+ * // Another database or schema (queries made through `sql` inside use it)
+ * await withDatabase({ schema: 'staging' }, async () => {
+ *   await sql`SELECT * FROM posts`;
+ * });
  * ```
  */
 
-import type { Pool, QueryResult, QueryResultRow } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
 
 // ===========================================================================
 // Types
@@ -40,6 +52,13 @@ interface SqlQueryFunction {
   (query: string, params?: any[]): Promise<any[]>;
 }
 
+/**
+ * Anything that can run a parameterized query (pool or checked-out client)
+ */
+interface Queryable {
+  query(text: string, params?: any[]): Promise<QueryResult>;
+}
+
 // ===========================================================================
 // Driver Detection
 // ===========================================================================
@@ -111,9 +130,15 @@ function getPgPool(): Pool {
 }
 
 function createPostgresAdapter(): SqlQueryFunction {
-  const pool = getPgPool();
+  return createQueryableAdapter(getPgPool());
+}
 
-  // Create adapter function that handles both template literals and dynamic queries
+/**
+ * Wrap a pg-compatible pool or client in the sql function interface
+ *
+ * Handles both template literals and dynamic queries.
+ */
+function createQueryableAdapter(queryable: Queryable): SqlQueryFunction {
   const adapter = async function(
     stringsOrQuery: TemplateStringsArray | string,
     ...values: any[]
@@ -134,7 +159,7 @@ function createPostgresAdapter(): SqlQueryFunction {
         }
       }
 
-      const result: QueryResult = await pool.query(query, params);
+      const result: QueryResult = await queryable.query(query, params);
       return result.rows;
     }
 
@@ -143,7 +168,7 @@ function createPostgresAdapter(): SqlQueryFunction {
       const query = stringsOrQuery;
       const params = values[0] || [];
 
-      const result: QueryResult = await pool.query(query, params);
+      const result: QueryResult = await queryable.query(query, params);
       return result.rows;
     }
 
@@ -153,6 +178,139 @@ function createPostgresAdapter(): SqlQueryFunction {
   return adapter as SqlQueryFunction;
 }
 
+// ===========================================================================
+// Transactions
+// ===========================================================================
+
+/**
+ * Transaction-scoped sql function for the current async context
+ *
+ * While a transaction callback runs, the exported `sql` routes every query
+ * through this client so callers don't need to thread it through.
+ */
+const transactionStorage = new AsyncLocalStorage<SqlQueryFunction>();
+
+let neonPool: Pool | null = null;
+
+/**
+ * Load Neon's WebSocket Pool (pg-compatible)
+ *
+ * The Pool needs a WebSocket implementation. Runtimes without a global
+ * WebSocket (Node before 22) use the `ws` package.
+ *
+ * @throws {Error} If no WebSocket implementation is available
+ */
+function requireNeonPool(): new (config: object) => Pool {
+  const { Pool, neonConfig } = require('@neondatabase/serverless');
+
+  if (!neonConfig.webSocketConstructor && typeof WebSocket === 'undefined') {
+    try {
+      neonConfig.webSocketConstructor = require('ws');
+    } catch (error) {
+      throw new Error(
+        'Neon transactions need a WebSocket implementation: install the ws package ' +
+        `or run on Node 22+ (${error instanceof Error ? error.message : 'Unknown error'})`
+      );
+    }
+  }
+
+  return Pool;
+}
+
+/**
+ * Get a pool that can check out a dedicated connection
+ *
+ * Neon's HTTP driver is stateless, so transactions use its WebSocket Pool.
+ */
+function getTransactionPool(): Pool {
+  if (detectDriver() === 'postgres') {
+    return getPgPool();
+  }
+
+  if (!neonPool) {
+    const NeonPool = requireNeonPool();
+    neonPool = new NeonPool({ connectionString: process.env.DATABASE_URL });
+  }
+
+  return neonPool;
+}
+
+/**
+ * Route queries through the active transaction or database target, if any
+ */
+function withTransactionContext(base: SqlQueryFunction): SqlQueryFunction {
+  const adapter = function(stringsOrQuery: any, ...values: any[]) {
+    const tx = transactionStorage.getStore();
+    const target = targetStorage.getStore();
+    return (tx || target?.sql || base)(stringsOrQuery, ...values);
+  };
+
+  return adapter as SqlQueryFunction;
+}
+
+// ===========================================================================
+// Database Targets
+// ===========================================================================
+
+/**
+ * Database a block of work runs against (see withDatabase)
+ */
+export interface DatabaseTarget {
+  url?: string; // Default: DATABASE_URL
+  schema?: string; // Schema searched before public
+}
+
+/**
+ * Pool and sql function for the database target of the current async context
+ */
+const targetStorage = new AsyncLocalStorage<{ pool: Pool; sql: SqlQueryFunction }>();
+
+const targetPools = new Map<string, Pool>();
+
+/**
+ * Get (or create) the pool for a database target
+ *
+ * Targets use a pg-compatible pool with either driver (Neon's WebSocket Pool
+ * for neon) so the schema can be set on each connection.
+ */
+function getTargetPool(target: DatabaseTarget): Pool {
+  const url = target.url || process.env.DATABASE_URL!;
+  const key = `${url}#${target.schema || ''}`;
+
+  const existing = targetPools.get(key);
+  if (existing) {
+    return existing;
+  }
+
+  if (target.schema && !/^[a-z_][a-z0-9_]*$/i.test(target.schema)) {
+    throw new Error(`Invalid database schema name: ${target.schema}`);
+  }
+
+  const TargetPool = detectDriver() === 'neon'
+    ? requireNeonPool()
+    : require('pg').Pool;
+
+  const pool: Pool = new TargetPool({
+    connectionString: url,
+    max: parseInt(process.env.DATABASE_POOL_MAX || '10'),
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 2000,
+  });
+
+  if (target.schema) {
+    pool.on('connect', (client: PoolClient) => {
+      client.query(`SET search_path TO "${target.schema}", public`);
+    });
+  }
+
+  pool.on('error', (err: Error) => {
+    console.error('Unexpected database pool error:', err);
+  });
+
+  targetPools.set(key, pool);
+  return pool;
+}
+
 // ===========================================================================
 // Adapter Factory
 // ===========================================================================
@@ -174,10 +332,10 @@ function createDatabaseAdapter(): SqlQueryFunction {
 
   if (driver === 'neon') {
     console.log('[db-adapter] Using Neon serverless driver');
-    return createNeonAdapter();
+    return withTransactionContext(createNeonAdapter());
   } else {
     console.log('[db-adapter] Using node-postgres (pg) driver with connection pooling');
-    return createPostgresAdapter();
+    return withTransactionContext(createPostgresAdapter());
   }
 }
 
@@ -199,6 +357,68 @@ function createDatabaseAdapter(): SqlQueryFunction {
  */
 export const sql = createDatabaseAdapter();
 
+/**
+ * Run a callback inside a database transaction
+ *
+ * Commits when the callback resolves and rolls back when it throws.
+ * Queries made through `sql` inside the callback (including from other
+ * modules) run on the transaction's connection. Nested calls join the
+ * outer transaction.
+ *
+ * @param callback - Work to perform atomically
+ * @returns The callback's result
+ * @throws Rethrows the callback's error after rolling back
+ */
+export async function transaction<T>(callback: () => Promise<T>): Promise<T> {
+  if (transactionStorage.getStore()) {
+    return callback();
+  }
+
+  const pool = targetStorage.getStore()?.pool || getTransactionPool();
+  const client: PoolClient = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await transactionStorage.run(
+      createQueryableAdapter(client),
+      callback
+    );
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch((rollbackError: unknown) => {
+      console.error('[db-adapter] Rollback failed:', rollbackError);
+    });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Run a callback against another database or schema
+ *
+ * Queries made through `sql` inside the callback (including from other
+ * modules, and transactions it starts) use the target. A target with
+ * neither `url` nor `schema` is the default database.
+ *
+ * @param target - Database URL and/or schema
+ * @param callback - Work to perform against the target
+ * @returns The callback's result
+ * @throws {Error} If the schema name is invalid
+ */
+export async function withDatabase<T>(
+  target: DatabaseTarget,
+  callback: () => Promise<T>
+): Promise<T> {
+  if (!target.url && !target.schema) {
+    return callback();
+  }
+
+  const pool = getTargetPool(target);
+  return targetStorage.run({ pool, sql: createQueryableAdapter(pool) }, callback);
+}
+
 /**
  * Gracefully close database connections
  *
@@ -210,6 +430,16 @@ export async function closeDatabase(): Promise<void> {
     pgPool = null;
     console.log('[db-adapter] Database pool closed');
   }
+
+  if (neonPool) {
+    await neonPool.end();
+    neonPool = null;
+  }
+
+  for (const pool of targetPools.values()) {
+    await pool.end();
+  }
+  targetPools.clear();
 }
 
 /**
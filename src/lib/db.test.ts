@@ -26,13 +26,27 @@ import {
   getPostsByTag,
   getPostsByAuthor,
   incrementPostViews,
+  getSeriesBySlug,
+  getSeriesNavigation,
   getAuthors,
   getAuthorBySlug,
   getTags,
   getTagBySlug,
   getTagsForPost,
+  getCategoryTree,
+  getCategoryBySlug,
+  getCategoryPath,
   getPages,
   getPageBySlug,
+  getPageByPath,
+  getPageTree,
+  getEntries,
+  getEntryBySlug,
+  getEntriesByRelation,
+  getPostRevisions,
+  getPostRevision,
+  getPageRevisions,
+  getPreviousRevision,
   testConnection,
 } from './db';
 
@@ -77,6 +91,62 @@ describe('Post Queries', () => {
       expect(mockSql).toHaveBeenCalledTimes(1);
     });
 
+    it('should map SEO fields and custom frontmatter', async () => {
+      mockSql.mockResolvedValue([
+        {
+          id: '1',
+          slug: 'test-post',
+          title: 'Test Post',
+          content: 'Post content',
+          status: 'published',
+          featured: false,
+          views: 0,
+          content_updated_at: '2024-02-01T00:00:00Z',
+          meta_description: 'About testing',
+          meta_keywords: ['testing', 'vitest'],
+          frontmatter: '{"title":"Test Post","difficulty":"beginner"}',
+          created_at: new Date('2024-01-10'),
+          updated_at: new Date('2024-01-15'),
+        },
+      ]);
+
+      const result = await getPostBySlug('test-post');
+
+      expect(result?.contentUpdatedAt).toEqual(new Date('2024-02-01T00:00:00Z'));
+      expect(result?.metaDescription).toBe('About testing');
+      expect(result?.metaKeywords).toEqual(['testing', 'vitest']);
+      expect(result?.frontmatter).toEqual({ title: 'Test Post', difficulty: 'beginner' });
+    });
+
+    it('should return the ordered author list', async () => {
+      mockSql.mockResolvedValue([
+        {
+          id: '1',
+          slug: 'test-post',
+          title: 'Test Post',
+          content: 'Post content',
+          author_id: 'author-1',
+          status: 'published',
+          featured: false,
+          views: 0,
+          authors: [
+            { id: 'author-1', slug: 'john-doe', name: 'John Doe', avatarUrl: null, role: null },
+            { id: 'author-2', slug: 'jane-doe', name: 'Jane Doe', avatarUrl: '/jane.png', role: 'illustrator' },
+          ],
+          created_at: new Date('2024-01-10'),
+          updated_at: new Date('2024-01-15'),
+        },
+      ]);
+
+      const result = await getPostBySlug('test-post');
+
+      expect(result?.authors).toEqual([
+        { id: 'author-1', slug: 'john-doe', name: 'John Doe', avatarUrl: undefined, role: undefined },
+        { id: 'author-2', slug: 'jane-doe', name: 'Jane Doe', avatarUrl: '/jane.png', role: 'illustrator' },
+      ]);
+      expect(mockSql.mock.calls[0][0].join('?')).toContain('ORDER BY pa.position');
+    });
+
     it('should return null when post not found', async () => {
       mockSql.mockResolvedValue([]);
 
@@ -149,6 +219,48 @@ describe('Post Queries', () => {
       );
     });
 
+    it('should hide posts dated in the future when filtering by published', async () => {
+      mockSql.mockReset()
+
+        .mockResolvedValueOnce([{ total: '0' }])
+        .mockResolvedValueOnce([]);
+
+      await getPosts({ status: 'published' });
+
+      expect(mockSql).toHaveBeenCalledWith(
+        expect.stringContaining('p.published_at <= NOW()'),
+        expect.arrayContaining(['published'])
+      );
+    });
+
+    it('should hide expired posts when filtering by published', async () => {
+      mockSql.mockReset()
+
+        .mockResolvedValueOnce([{ total: '0' }])
+        .mockResolvedValueOnce([]);
+
+      await getPosts({ status: 'published' });
+
+      expect(mockSql).toHaveBeenCalledWith(
+        expect.stringContaining('p.expires_at > NOW()'),
+        expect.arrayContaining(['published'])
+      );
+    });
+
+    it('should list scheduled posts for admin listings', async () => {
+      mockSql.mockReset()
+
+        .mockResolvedValueOnce([{ total: '1' }])
+        .mockResolvedValueOnce([]);
+
+      await getPosts({ status: 'scheduled' });
+
+      const [query, params] = mockSql.mock.calls[0];
+      expect(query).toContain('p.status = $1');
+      expect(query).not.toContain('p.published_at <= NOW()');
+      expect(params).toEqual(['scheduled']);
+    });
+
     it('should filter by authorId', async () => {
       mockSql.mockReset()
 
@@ -191,6 +303,21 @@ describe('Post Queries', () => {
       );
     });
 
+    it('should filter by category, including its subcategories', async () => {
+      mockSql.mockReset()
+
+        .mockResolvedValueOnce([{ total: '0' }])
+        .mockResolvedValueOnce([]);
+
+      await getPosts({ category: 'engineering' });
+
+      const [query, params] = mockSql.mock.calls[0];
+      expect(query).toContain('p.category_id IN');
+      expect(query).toContain('WITH RECURSIVE descendants');
+      expect(query).toContain('c.parent_id = d.id');
+      expect(params).toEqual(['engineering']);
+    });
+
     it('should search using full-text search', async () => {
       mockSql.mockReset()
 
@@ -311,6 +438,15 @@ describe('Post Queries', () => {
       expect(mockSql).toHaveBeenCalledTimes(1);
     });
 
+    it('should leave out posts whose publish date has not arrived', async () => {
+      mockSql.mockResolvedValue([]);
+
+      await searchPosts('typescript');
+
+      const [strings] = mockSql.mock.calls[0];
+      expect(strings.join('?')).toContain('p.published_at <= NOW()');
+    });
+
     it('should return empty array when no matches', async () => {
       mockSql.mockResolvedValue([]);
 
@@ -368,6 +504,30 @@ describe('Post Queries', () => {
       expect(result).toHaveLength(1);
       expect(mockSql).toHaveBeenCalledTimes(1);
     });
+
+    it('should include posts the author co-authored', async () => {
+      mockSql.mockResolvedValue([
+        {
+          id: '1',
+          slug: 'post-1',
+          title: 'Post 1',
+          content: 'Content',
+          status: 'published',
+          featured: false,
+          views: 10,
+          authors: null,
+          created_at: new Date(),
+          updated_at: new Date(),
+        },
+      ]);
+
+      const [post] = await getPostsByAuthor('jane-doe');
+
+      expect(post.authors).toEqual([]);
+      const [strings, ...values] = mockSql.mock.calls[0];
+      expect(strings.join('?')).toContain('FROM post_authors pa');
+      expect(values).toContain('jane-doe');
+    });
   });
 
   describe('incrementPostViews', () => {
@@ -389,6 +549,186 @@ describe('Post Queries', () => {
   });
 });
 
+// ===========================================================================
+// Series Query Tests
+// ===========================================================================
+
+describe('Series Queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const seriesRow = {
+    id: 'series-1',
+    slug: 'building-a-cms',
+    name: 'Building a CMS',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  };
+  const partRows = [
+    { id: 'post-1', slug: 'part-1', title: 'Part 1', series_order: 1, published_at: '2024-01-15T00:00:00Z' },
+    { id: 'post-2', slug: 'part-2', title: 'Part 2', series_order: 2, published_at: '2024-01-22T00:00:00Z' },
+    { id: 'post-3', slug: 'part-3', title: 'Part 3', series_order: 3, published_at: '2024-01-29T00:00:00Z' },
+  ];
+
+  describe('getSeriesBySlug', () => {
+    it('should return the series with its published parts in order', async () => {
+      mockSql.mockResolvedValueOnce([seriesRow]).mockResolvedValueOnce(partRows);
+
+      const series = await getSeriesBySlug('building-a-cms');
+
+      expect(series?.name).toBe('Building a CMS');
+      expect(series?.parts.map((part) => part.slug)).toEqual(['part-1', 'part-2', 'part-3']);
+      expect(series?.parts[0]).toEqual({
+        id: 'post-1',
+        slug: 'part-1',
+        title: 'Part 1',
+        excerpt: undefined,
+        publishedAt: new Date('2024-01-15T00:00:00Z'),
+        seriesOrder: 1,
+      });
+
+      const partsQuery = mockSql.mock.calls[1][0].join('?');
+      expect(partsQuery).toContain("p.status = 'published'");
+      expect(partsQuery).toContain('ORDER BY p.series_order ASC NULLS LAST');
+    });
+
+    it('should return null when the series does not exist', async () => {
+      mockSql.mockResolvedValue([]);
+
+      expect(await getSeriesBySlug('missing')).toBeNull();
+      expect(mockSql).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getSeriesNavigation', () => {
+    it('should return the previous and next parts', async () => {
+      mockSql.mockResolvedValueOnce([seriesRow]).mockResolvedValueOnce(partRows);
+
+      const navigation = await getSeriesNavigation('part-2');
+
+      expect(navigation?.series.slug).toBe('building-a-cms');
+      expect(navigation?.index).toBe(1);
+      expect(navigation?.previous?.slug).toBe('part-1');
+      expect(navigation?.next?.slug).toBe('part-3');
+    });
+
+    it('should have no previous part for the first part', async () => {
+      mockSql.mockResolvedValueOnce([seriesRow]).mockResolvedValueOnce(partRows);
+
+      const navigation = await getSeriesNavigation('part-1');
+
+      expect(navigation?.previous).toBeNull();
+      expect(navigation?.next?.slug).toBe('part-2');
+    });
+
+    it('should return null for posts outside a series or not yet published', async () => {
+      mockSql.mockResolvedValueOnce([]);
+      expect(await getSeriesNavigation('standalone')).toBeNull();
+
+      mockSql.mockResolvedValueOnce([seriesRow]).mockResolvedValueOnce(partRows);
+      expect(await getSeriesNavigation('part-4-draft')).toBeNull();
+    });
+
+    it('should wrap database errors with context', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockSql.mockRejectedValue(new Error('Connection timeout'));
+
+      await expect(getSeriesNavigation('part-1')).rejects.toThrow(
+        'Failed to fetch series navigation: Connection timeout'
+      );
+    });
+  });
+});
+
+// ===========================================================================
+// Category Query Tests
+// ===========================================================================
+
+describe('Category Queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const categoryRow = (id: string, name: string, parentId: string | null, counts: [string, string]) => ({
+    id,
+    slug: name.toLowerCase(),
+    name,
+    description: null,
+    parent_id: parentId,
+    created_at: '2024-01-01T00:00:00Z',
+    post_count: counts[0],
+    total_post_count: counts[1],
+  });
+
+  describe('getCategoryTree', () => {
+    it('should nest subcategories under their parents with post counts', async () => {
+      mockSql.mockResolvedValueOnce([
+        categoryRow('cat-be', 'Backend', 'cat-eng', ['2', '2']),
+        categoryRow('cat-design', 'Design', null, ['1', '1']),
+        categoryRow('cat-eng', 'Engineering', null, ['1', '6']),
+        categoryRow('cat-fe', 'Frontend', 'cat-eng', ['3', '3']),
+      ]);
+
+      const tree = await getCategoryTree();
+
+      expect(tree.map((node) => node.slug)).toEqual(['design', 'engineering']);
+      expect(tree[1]).toMatchObject({ postCount: 1, totalPostCount: 6 });
+      expect(tree[1].children.map((node) => node.slug)).toEqual(['backend', 'frontend']);
+      expect(tree[1].children[1]).toMatchObject({
+        id: 'cat-fe',
+        parentId: 'cat-eng',
+        postCount: 3,
+        totalPostCount: 3,
+        children: [],
+      });
+
+      const query = mockSql.mock.calls[0][0].join('?');
+      expect(query).toContain('WITH RECURSIVE subtree');
+      expect(query).toContain("p.status = 'published'");
+    });
+
+    it('should wrap database errors with context', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockSql.mockRejectedValue(new Error('Connection timeout'));
+
+      await expect(getCategoryTree()).rejects.toThrow(
+        'Failed to fetch category tree: Connection timeout'
+      );
+    });
+  });
+
+  describe('getCategoryBySlug', () => {
+    it('should return null when the category does not exist', async () => {
+      mockSql.mockResolvedValue([]);
+
+      expect(await getCategoryBySlug('missing')).toBeNull();
+    });
+  });
+
+  describe('getCategoryPath', () => {
+    it('should return the ancestors from the root down', async () => {
+      mockSql.mockResolvedValueOnce([
+        categoryRow('cat-eng', 'Engineering', null, ['0', '0']),
+        categoryRow('cat-fe', 'Frontend', 'cat-eng', ['0', '0']),
+      ]);
+
+      const path = await getCategoryPath('frontend');
+
+      expect(path.map((category) => category.slug)).toEqual(['engineering', 'frontend']);
+      expect(path[1]).toEqual({
+        id: 'cat-fe',
+        slug: 'frontend',
+        name: 'Frontend',
+        description: undefined,
+        parentId: 'cat-eng',
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+      });
+      expect(mockSql.mock.calls[0].slice(1)).toEqual(['frontend']);
+    });
+  });
+});
+
 // ===========================================================================
 // Author Query Tests
 // ===========================================================================
@@ -694,6 +1034,28 @@ describe('Page Queries', () => {
       expect(result?.metaDescription).toBe('About our company');
     });
 
+    it('should map the expiry date and leave out expired pages', async () => {
+      mockSql.mockResolvedValue([
+        {
+          id: '1',
+          slug: 'event',
+          title: 'Event',
+          content: 'Event content',
+          status: 'published',
+          expires_at: '2099-01-01T00:00:00Z',
+          created_at: new Date(),
+          updated_at: new Date(),
+        },
+      ]);
+
+      const result = await getPageBySlug('event');
+
+      expect(result?.expiresAt).toEqual(new Date('2099-01-01T00:00:00Z'));
+      expect(result?.frontmatter).toEqual({});
+      const [strings] = mockSql.mock.calls[0];
+      expect(strings.join('?')).toContain('expires_at > NOW()');
+    });
+
     it('should return null when page not found', async () => {
       mockSql.mockResolvedValue([]);
 
@@ -711,6 +1073,329 @@ describe('Page Queries', () => {
       // Verify the query includes status check (implicitly tested by mock setup)
     });
   });
+
+  describe('getPageByPath', () => {
+    const pageRow = {
+      id: 'page-3',
+      slug: 'docs/guides/deploy',
+      parent_id: 'page-2',
+      sort_order: 1,
+      title: 'Deploy',
+      content: 'Deploy content',
+      status: 'published',
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+
+    it('should find a page by its route segments with breadcrumbs', async () => {
+      mockSql.mockResolvedValueOnce([pageRow]).mockResolvedValueOnce([
+        { id: 'page-1', slug: 'docs', title: 'Docs' },
+        { id: 'page-2', slug: 'docs/guides', title: 'Guides' },
+      ]);
+
+      const page = await getPageByPath(['docs', 'guides', 'deploy']);
+
+      expect(page?.parentId).toBe('page-2');
+      expect(page?.sortOrder).toBe(1);
+      expect(page?.ancestors).toEqual([
+        { id: 'page-1', slug: 'docs', title: 'Docs' },
+        { id: 'page-2', slug: 'docs/guides', title: 'Guides' },
+      ]);
+      expect(mockSql.mock.calls[0].slice(1)).toEqual(['docs/guides/deploy']);
+      expect(mockSql.mock.calls[1][0].join('?')).toContain('ORDER BY depth DESC');
+    });
+
+    it('should normalize slashes in a path', async () => {
+      mockSql.mockResolvedValue([]);
+
+      expect(await getPageByPath('/docs//guides/deploy/')).toBeNull();
+      expect(mockSql.mock.calls[0].slice(1)).toEqual(['docs/guides/deploy']);
+    });
+  });
+
+  describe('getPageTree', () => {
+    it('should nest pages under their parents in sibling order', async () => {
+      mockSql.mockResolvedValue([
+        { id: 'page-1', slug: 'docs', title: 'Docs', parent_id: null, sort_order: 1 },
+        { id: 'page-2', slug: 'docs/install', title: 'Install', parent_id: 'page-1', sort_order: 1 },
+        { id: 'page-3', slug: 'docs/guides', title: 'Guides', parent_id: 'page-1', sort_order: 2 },
+        { id: 'page-4', slug: 'about', title: 'About', parent_id: null, sort_order: null },
+        { id: 'page-5', slug: 'docs/faq', title: 'FAQ', parent_id: 'page-1', sort_order: null },
+      ]);
+
+      const tree = await getPageTree();
+
+      expect(tree.map((node) => node.slug)).toEqual(['docs', 'about']);
+      expect(tree[0].children.map((node) => node.slug)).toEqual([
+        'docs/install',
+        'docs/guides',
+        'docs/faq',
+      ]);
+      expect(tree[1]).toEqual({
+        id: 'page-4',
+        slug: 'about',
+        title: 'About',
+        sortOrder: undefined,
+        children: [],
+      });
+    });
+
+    it('should return the pages below a section', async () => {
+      mockSql.mockResolvedValue([
+        { id: 'page-2', slug: 'docs/install', title: 'Install', parent_id: 'page-1', sort_order: 1 },
+      ]);
+
+      const tree = await getPageTree('docs');
+
+      expect(tree.map((node) => node.slug)).toEqual(['docs/install']);
+      expect(mockSql.mock.calls[0]).toContain('docs');
+      expect(mockSql.mock.calls[0][0].join('?')).toContain('WITH RECURSIVE tree');
+    });
+
+    it('should wrap database errors with context', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockSql.mockRejectedValue(new Error('Connection timeout'));
+
+      await expect(getPageTree()).rejects.toThrow('Failed to fetch page tree: Connection timeout');
+    });
+  });
+});
+
+// ===========================================================================
+// Revision Query Tests
+// ===========================================================================
+
+describe('Entry Queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const entryRow = {
+    id: 'entry-1',
+    type: 'case-study',
+    slug: 'acme',
+    data: { title: 'Acme', client: 'Acme Corp', authors: [], tags: ['nextjs'] },
+    content: 'Content',
+    content_html: '<p>Content</p>',
+    created_at: '2024-01-15T12:00:00Z',
+    updated_at: '2024-01-16T12:00:00Z',
+  };
+
+  describe('getEntries', () => {
+    it('should return paginated entries of a content type', async () => {
+      mockSql
+        .mockResolvedValueOnce([{ total: '1' }])
+        .mockResolvedValueOnce([entryRow]);
+
+      const result = await getEntries('case-study');
+
+      expect(result.data).toEqual([
+        {
+          id: 'entry-1',
+          type: 'case-study',
+          slug: 'acme',
+          data: entryRow.data,
+          content: 'Content',
+          contentHtml: '<p>Content</p>',
+          createdAt: new Date('2024-01-15T12:00:00Z'),
+          updatedAt: new Date('2024-01-16T12:00:00Z'),
+        },
+      ]);
+      expect(result.pagination).toEqual({ total: 1, limit: 10, offset: 0, hasMore: false });
+      expect(mockSql.mock.calls[1][0]).toContain('ORDER BY e.created_at DESC');
+      expect(mockSql.mock.calls[1][1]).toEqual(['case-study', 10, 0]);
+    });
+
+    it('should filter by frontmatter and sort by frontmatter fields', async () => {
+      mockSql
+        .mockResolvedValueOnce([{ total: '0' }])
+        .mockResolvedValueOnce([]);
+
+      await getEntries('case-study', {
+        where: { tags: ['nextjs'] },
+        orderBy: 'client',
+        orderDirection: 'asc',
+        limit: 5,
+      });
+
+      const [countQuery, countParams] = mockSql.mock.calls[0];
+      expect(countQuery).toContain('e.data @> $2::jsonb');
+      expect(countParams).toEqual(['case-study', JSON.stringify({ tags: ['nextjs'] })]);
+
+      const [dataQuery, dataParams] = mockSql.mock.calls[1];
+      expect(dataQuery).toContain('ORDER BY e.data->>$3 ASC');
+      expect(dataParams).toEqual([
+        'case-study',
+        JSON.stringify({ tags: ['nextjs'] }),
+        'client',
+        5,
+        0,
+      ]);
+    });
+
+    it('should wrap database errors with context', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockSql.mockRejectedValue(new Error('Connection timeout'));
+
+      await expect(getEntries('job')).rejects.toThrow('Failed to fetch entries: Connection timeout');
+    });
+  });
+
+  describe('getEntryBySlug', () => {
+    it('should look an entry up by type and slug', async () => {
+      mockSql.mockResolvedValue([{ ...entryRow, data: JSON.stringify(entryRow.data) }]);
+
+      const entry = await getEntryBySlug('case-study', 'acme');
+
+      expect(entry?.data.client).toBe('Acme Corp');
+      expect(mockSql.mock.calls[0][1]).toEqual(['case-study', 'acme']);
+    });
+
+    it('should return null when not found', async () => {
+      mockSql.mockResolvedValue([]);
+
+      expect(await getEntryBySlug('case-study', 'missing')).toBeNull();
+    });
+  });
+
+  describe('getEntriesByRelation', () => {
+    it('should find entries referencing a slug', async () => {
+      mockSql.mockResolvedValue([entryRow]);
+
+      const entries = await getEntriesByRelation('case-study', 'tags', 'nextjs');
+
+      expect(entries.map((entry) => entry.slug)).toEqual(['acme']);
+      const [query, params] = mockSql.mock.calls[0];
+      expect(query).toContain('INNER JOIN entry_relations er ON er.entry_id = e.id');
+      expect(params).toEqual(['case-study', 'tags', 'nextjs']);
+    });
+  });
+});
+
+describe('Revision Queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const revisionRow = {
+    id: 'rev-1',
+    resource_id: 'post-1',
+    commit_sha: 'abc123',
+    title: 'Hello',
+    content: 'Hello world',
+    frontmatter: { title: 'Hello', author: 'john-doe' },
+    created_at: '2024-01-15T12:00:00Z',
+  };
+
+  describe('getPostRevisions', () => {
+    it('should return revisions of a post by slug, newest first', async () => {
+      mockSql.mockResolvedValue([revisionRow]);
+
+      const result = await getPostRevisions('hello', 10);
+
+      expect(result).toEqual([
+        {
+          id: 'rev-1',
+          resourceType: 'post',
+          resourceId: 'post-1',
+          commitSha: 'abc123',
+          title: 'Hello',
+          content: 'Hello world',
+          frontmatter: { title: 'Hello', author: 'john-doe' },
+          createdAt: new Date('2024-01-15T12:00:00Z'),
+        },
+      ]);
+
+      const [query, params] = mockSql.mock.calls[0];
+      expect(query).toContain('FROM post_revisions r');
+      expect(query).toContain('ORDER BY r.created_at DESC');
+      expect(params).toEqual(['hello', 10]);
+    });
+  });
+
+  describe('getPostRevision', () => {
+    it('should look a revision up by ID or commit SHA', async () => {
+      mockSql.mockResolvedValue([revisionRow]);
+
+      const result = await getPostRevision('hello', 'abc123');
+
+      expect(result?.id).toBe('rev-1');
+      const [query, params] = mockSql.mock.calls[0];
+      expect(query).toContain('r.id::text = $2 OR r.commit_sha = $2');
+      expect(params).toEqual(['hello', 'abc123']);
+    });
+
+    it('should return null when the revision does not exist', async () => {
+      mockSql.mockResolvedValue([]);
+
+      expect(await getPostRevision('hello', 'missing')).toBeNull();
+    });
+  });
+
+  describe('getPreviousRevision', () => {
+    it('should query the revision recorded just before, by owner', async () => {
+      mockSql.mockResolvedValue([{ ...revisionRow, id: 'rev-0', commit_sha: 'aaa000' }]);
+      const createdAt = new Date('2024-01-16T12:00:00Z');
+
+      const result = await getPreviousRevision({
+        id: 'rev-1',
+        resourceType: 'post',
+        resourceId: 'post-1',
+        commitSha: 'abc123',
+        title: 'Hello',
+        content: 'Hello world',
+        frontmatter: {},
+        createdAt,
+      });
+
+      expect(result?.id).toBe('rev-0');
+      const [query, params] = mockSql.mock.calls[0];
+      expect(query).toContain('FROM post_revisions r');
+      expect(query).toContain('r.post_id = $1');
+      expect(query).toContain('r.created_at < $2');
+      expect(query).toContain('LIMIT 1');
+      expect(params).toEqual(['post-1', createdAt]);
+    });
+
+    it('should return null for the oldest revision', async () => {
+      mockSql.mockResolvedValue([]);
+
+      const revision = {
+        id: 'rev-1',
+        resourceType: 'page' as const,
+        resourceId: 'page-1',
+        commitSha: 'abc123',
+        title: 'About',
+        content: 'About us',
+        frontmatter: {},
+        createdAt: new Date(),
+      };
+
+      expect(await getPreviousRevision(revision)).toBeNull();
+      expect(mockSql.mock.calls[0][0]).toContain('FROM page_revisions r');
+    });
+  });
+
+  describe('getPageRevisions', () => {
+    it('should query page revisions', async () => {
+      mockSql.mockResolvedValue([{ ...revisionRow, resource_id: 'page-1' }]);
+
+      const [revision] = await getPageRevisions('about');
+
+      expect(revision.resourceType).toBe('page');
+      expect(revision.resourceId).toBe('page-1');
+      expect(mockSql.mock.calls[0][0]).toContain('FROM page_revisions r');
+    });
+  });
+
+  it('should wrap database errors with context', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockSql.mockRejectedValue(new Error('Connection timeout'));
+
+    await expect(getPostRevisions('hello')).rejects.toThrow(
+      'Failed to fetch post revisions: Connection timeout'
+    );
+  });
 });
 
 // ===========================================================================
@@ -10,7 +10,29 @@
  */
 
 import { sql } from './db-adapter';
-import type { Post, Author, Tag, Page, PostFilters, PaginatedResponse } from '@/types';
+import type {
+  Post,
+  PostAuthor,
+  Series,
+  SeriesPart,
+  SeriesWithParts,
+  SeriesNavigation,
+  Author,
+  Tag,
+  Category,
+  CategoryTreeNode,
+  Page,
+  PageLink,
+  PageWithAncestors,
+  PageTreeNode,
+  Entry,
+  Redirect,
+  Revision,
+  PostFilters,
+  EntryFilters,
+  PaginatedResponse,
+} from '@/types';
+import type { ContentTypeName, EntryData } from './content-types';
 
 // ===========================================================================
 // Database Connection
@@ -30,8 +52,12 @@ export const db = sql;
 /**
  * Get all published posts with filters
  *
- * Supports filtering by status, author, tag, featured status, and search query.
- * Includes pagination and sorting options.
+ * Supports filtering by status, author, tag, category (including its
+ * subcategories), featured status, and search query.
+ * Includes pagination and sorting options. Filtering by `published` leaves
+ * out posts whose publish date has not arrived yet or whose expiry date has
+ * passed; without a status filter (admin listings), scheduled posts are
+ * included with status `scheduled`.
  *
  * @param filters - Post filtering and pagination options
  * @returns Paginated response with posts and metadata
@@ -42,6 +68,7 @@ export async function getPosts(filters: PostFilters = {}): Promise<PaginatedResp
       status,
       authorId,
       tag,
+      category,
       featured,
       search,
       limit = 10,
@@ -61,12 +88,34 @@ export async function getPosts(filters: PostFilters = {}): Promise<PaginatedResp
       paramIndex++;
     }
 
+    // Keep posts dated in the future hidden until the scheduler publishes
+    // them, and expired posts hidden until it archives them
+    if (status === 'published') {
+      conditions.push('(p.published_at IS NULL OR p.published_at <= NOW())');
+      conditions.push('(p.expires_at IS NULL OR p.expires_at > NOW())');
+    }
+
     if (authorId) {
       conditions.push(`p.author_id = $${paramIndex}`);
       params.push(authorId);
       paramIndex++;
     }
 
+    // A category includes the posts of all categories nested under it
+    if (category) {
+      conditions.push(`p.category_id IN (
+        WITH RECURSIVE descendants AS (
+          SELECT id FROM categories WHERE slug = $${paramIndex}
+          UNION
+          SELECT c.id FROM categories c
+          INNER JOIN descendants d ON c.parent_id = d.id
+        )
+        SELECT id FROM descendants
+      )`);
+      params.push(category);
+      paramIndex++;
+    }
+
     if (featured !== undefined) {
       conditions.push(`p.featured = $${paramIndex}`);
       params.push(featured);
@@ -131,6 +180,14 @@ export async function getPosts(filters: PostFilters = {}): Promise<PaginatedResp
         p.reading_time,
         p.views,
         p.published_at,
+        p.expires_at,
+        p.content_updated_at,
+        p.meta_description,
+        p.meta_keywords,
+        p.frontmatter,
+        p.category_id,
+        p.series_id,
+        p.series_order,
         p.created_at,
         p.updated_at
       ${fromClause}
@@ -161,7 +218,7 @@ export async function getPosts(filters: PostFilters = {}): Promise<PaginatedResp
 /**
  * Get a single post by slug
  *
- * Joins with authors table to include author information.
+ * Includes the post's authors, in credit order.
  *
  * @param slug - Post slug
  * @returns Post object or null if not found
@@ -183,8 +240,25 @@ export async function getPostBySlug(slug: string): Promise<Post | null> {
         p.reading_time,
         p.views,
         p.published_at,
+        p.expires_at,
+        p.content_updated_at,
+        p.meta_description,
+        p.meta_keywords,
+        p.frontmatter,
+        p.category_id,
+        p.series_id,
+        p.series_order,
         p.created_at,
-        p.updated_at
+        p.updated_at,
+        (
+          SELECT json_agg(json_build_object(
+            'id', a.id, 'slug', a.slug, 'name', a.name,
+            'avatarUrl', a.avatar_url, 'role', pa.role
+          ) ORDER BY pa.position)
+          FROM post_authors pa
+          INNER JOIN authors a ON a.id = pa.author_id
+          WHERE pa.post_id = p.id
+        ) AS authors
       FROM posts p
       WHERE p.slug = ${slug}
       LIMIT 1
@@ -226,11 +300,21 @@ export async function getFeaturedPosts(limit: number = 3): Promise<Post[]> {
         p.reading_time,
         p.views,
         p.published_at,
+        p.expires_at,
+        p.content_updated_at,
+        p.meta_description,
+        p.meta_keywords,
+        p.frontmatter,
+        p.category_id,
+        p.series_id,
+        p.series_order,
         p.created_at,
         p.updated_at
       FROM posts p
       WHERE p.featured = true
         AND p.status = 'published'
+        AND (p.published_at IS NULL OR p.published_at <= NOW())
+        AND (p.expires_at IS NULL OR p.expires_at > NOW())
       ORDER BY p.published_at DESC
       LIMIT ${limit}
     `;
@@ -246,7 +330,8 @@ export async function getFeaturedPosts(limit: number = 3): Promise<Post[]> {
  * Search posts using full-text search
  *
  * Uses PostgreSQL's tsvector for full-text search with relevance ranking.
- * Only searches published posts.
+ * Only searches published posts whose publish date has passed and that
+ * have not expired.
  *
  * @param query - Search query string
  * @param limit - Maximum number of results (default: 20)
@@ -269,12 +354,22 @@ export async function searchPosts(query: string, limit: number = 20): Promise<Po
         p.reading_time,
         p.views,
         p.published_at,
+        p.expires_at,
+        p.content_updated_at,
+        p.meta_description,
+        p.meta_keywords,
+        p.frontmatter,
+        p.category_id,
+        p.series_id,
+        p.series_order,
         p.created_at,
         p.updated_at,
         ts_rank(p.search_vector, plainto_tsquery('english', ${query})) AS rank
       FROM posts p
       WHERE p.search_vector @@ plainto_tsquery('english', ${query})
         AND p.status = 'published'
+        AND (p.published_at IS NULL OR p.published_at <= NOW())
+        AND (p.expires_at IS NULL OR p.expires_at > NOW())
       ORDER BY rank DESC
       LIMIT ${limit}
     `;
@@ -311,6 +406,14 @@ export async function getPostsByTag(tagSlug: string): Promise<Post[]> {
         p.reading_time,
         p.views,
         p.published_at,
+        p.expires_at,
+        p.content_updated_at,
+        p.meta_description,
+        p.meta_keywords,
+        p.frontmatter,
+        p.category_id,
+        p.series_id,
+        p.series_order,
         p.created_at,
         p.updated_at
       FROM posts p
@@ -318,6 +421,8 @@ export async function getPostsByTag(tagSlug: string): Promise<Post[]> {
       INNER JOIN tags t ON pt.tag_id = t.id
       WHERE t.slug = ${tagSlug}
         AND p.status = 'published'
+        AND (p.published_at IS NULL OR p.published_at <= NOW())
+        AND (p.expires_at IS NULL OR p.expires_at > NOW())
       ORDER BY p.published_at DESC
     `;
 
@@ -331,7 +436,8 @@ export async function getPostsByTag(tagSlug: string): Promise<Post[]> {
 /**
  * Get posts by author
  *
- * Returns all published posts by a specific author.
+ * Returns all published posts the author wrote or co-authored, each with
+ * its ordered author list.
  *
  * @param authorSlug - Author slug to filter by
  * @returns Array of posts by the specified author
@@ -353,12 +459,34 @@ export async function getPostsByAuthor(authorSlug: string): Promise<Post[]> {
         p.reading_time,
         p.views,
         p.published_at,
+        p.expires_at,
+        p.content_updated_at,
+        p.meta_description,
+        p.meta_keywords,
+        p.frontmatter,
+        p.category_id,
+        p.series_id,
+        p.series_order,
         p.created_at,
-        p.updated_at
+        p.updated_at,
+        (
+          SELECT json_agg(json_build_object(
+            'id', a.id, 'slug', a.slug, 'name', a.name,
+            'avatarUrl', a.avatar_url, 'role', pa.role
+          ) ORDER BY pa.position)
+          FROM post_authors pa
+          INNER JOIN authors a ON a.id = pa.author_id
+          WHERE pa.post_id = p.id
+        ) AS authors
       FROM posts p
-      INNER JOIN authors a ON p.author_id = a.id
-      WHERE a.slug = ${authorSlug}
+      WHERE EXISTS (
+          SELECT 1 FROM post_authors pa
+          INNER JOIN authors a ON a.id = pa.author_id
+          WHERE pa.post_id = p.id AND a.slug = ${authorSlug}
+        )
         AND p.status = 'published'
+        AND (p.published_at IS NULL OR p.published_at <= NOW())
+        AND (p.expires_at IS NULL OR p.expires_at > NOW())
       ORDER BY p.published_at DESC
     `;
 
@@ -389,6 +517,99 @@ export async function incrementPostViews(slug: string): Promise<void> {
   }
 }
 
+// ===========================================================================
+// Series Queries
+// ===========================================================================
+
+/**
+ * Get a series with its published parts
+ *
+ * @param slug - Series slug
+ * @returns Series with parts in order, or null if not found
+ */
+export async function getSeriesBySlug(slug: string): Promise<SeriesWithParts | null> {
+  try {
+    const rows = await sql`
+      SELECT id, slug, name, created_at, updated_at
+      FROM series
+      WHERE slug = ${slug}
+      LIMIT 1
+    `;
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const series = mapRowToSeries(rows[0]);
+    return { ...series, parts: await getSeriesParts(series.id) };
+  } catch (error) {
+    console.error('Error fetching series by slug:', error);
+    throw new Error(`Failed to fetch series: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Get the series navigation for a post
+ *
+ * Returns the post's series, all of its published parts, and the parts
+ * before and after the post.
+ *
+ * @param postSlug - Post slug
+ * @returns Series navigation, or null if the post is not a published part
+ *   of a series
+ */
+export async function getSeriesNavigation(postSlug: string): Promise<SeriesNavigation | null> {
+  try {
+    const rows = await sql`
+      SELECT s.id, s.slug, s.name, s.created_at, s.updated_at
+      FROM posts p
+      INNER JOIN series s ON s.id = p.series_id
+      WHERE p.slug = ${postSlug}
+      LIMIT 1
+    `;
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const series = mapRowToSeries(rows[0]);
+    const parts = await getSeriesParts(series.id);
+    const index = parts.findIndex((part) => part.slug === postSlug);
+
+    if (index === -1) {
+      return null;
+    }
+
+    return {
+      series,
+      parts,
+      index,
+      previous: parts[index - 1] ?? null,
+      next: parts[index + 1] ?? null,
+    };
+  } catch (error) {
+    console.error('Error fetching series navigation:', error);
+    throw new Error(`Failed to fetch series navigation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Published parts of a series, by part number then publish date
+ */
+async function getSeriesParts(seriesId: string): Promise<SeriesPart[]> {
+  const rows = await sql`
+    SELECT p.id, p.slug, p.title, p.excerpt, p.published_at, p.series_order
+    FROM posts p
+    WHERE p.series_id = ${seriesId}
+      AND p.status = 'published'
+      AND (p.published_at IS NULL OR p.published_at <= NOW())
+      AND (p.expires_at IS NULL OR p.expires_at > NOW())
+    ORDER BY p.series_order ASC NULLS LAST, p.published_at ASC, p.slug ASC
+  `;
+
+  return rows.map(mapRowToSeriesPart);
+}
+
 // ===========================================================================
 // Author Queries
 // ===========================================================================
@@ -482,6 +703,8 @@ export async function getTags(): Promise<Tag[]> {
         slug,
         name,
         description,
+        color,
+        parent_id,
         created_at
       FROM tags
       ORDER BY name ASC
@@ -510,6 +733,8 @@ export async function getTagBySlug(slug: string): Promise<Tag | null> {
         slug,
         name,
         description,
+        color,
+        parent_id,
         created_at
       FROM tags
       WHERE slug = ${slug}
@@ -543,6 +768,8 @@ export async function getTagsForPost(postId: string): Promise<Tag[]> {
         t.slug,
         t.name,
         t.description,
+        t.color,
+        t.parent_id,
         t.created_at
       FROM tags t
       INNER JOIN post_tags pt ON t.id = pt.tag_id
@@ -557,6 +784,145 @@ export async function getTagsForPost(postId: string): Promise<Tag[]> {
   }
 }
 
+// ===========================================================================
+// Category Queries
+// ===========================================================================
+
+/**
+ * Get the category tree
+ *
+ * Returns root categories with their subcategories nested below them,
+ * ordered alphabetically by name at each level. Each category counts its
+ * own published posts and those of all its descendants.
+ *
+ * @returns Root categories of the tree
+ */
+export async function getCategoryTree(): Promise<CategoryTreeNode[]> {
+  try {
+    // Pair every category with itself and each of its descendants, so
+    // summing over the pairs gives totals that include subcategories
+    const rows = await sql`
+      WITH RECURSIVE subtree AS (
+        SELECT id AS root_id, id FROM categories
+        UNION
+        SELECT s.root_id, c.id FROM categories c
+        INNER JOIN subtree s ON c.parent_id = s.id
+      ),
+      post_counts AS (
+        SELECT p.category_id, COUNT(*) AS post_count
+        FROM posts p
+        WHERE p.category_id IS NOT NULL
+          AND p.status = 'published'
+          AND (p.published_at IS NULL OR p.published_at <= NOW())
+          AND (p.expires_at IS NULL OR p.expires_at > NOW())
+        GROUP BY p.category_id
+      )
+      SELECT
+        c.id,
+        c.slug,
+        c.name,
+        c.description,
+        c.parent_id,
+        c.created_at,
+        COALESCE(own.post_count, 0) AS post_count,
+        COALESCE(SUM(counts.post_count), 0) AS total_post_count
+      FROM categories c
+      INNER JOIN subtree s ON s.root_id = c.id
+      LEFT JOIN post_counts counts ON counts.category_id = s.id
+      LEFT JOIN post_counts own ON own.category_id = c.id
+      GROUP BY c.id, own.post_count
+      ORDER BY c.name ASC
+    `;
+
+    const nodes = new Map<string, CategoryTreeNode>();
+    for (const row of rows) {
+      nodes.set(row.id, {
+        ...mapRowToCategory(row),
+        postCount: parseInt(row.post_count, 10),
+        totalPostCount: parseInt(row.total_post_count, 10),
+        children: [],
+      });
+    }
+
+    // Rows are sorted by name, so children end up sorted too
+    const roots: CategoryTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      (parent ? parent.children : roots).push(node);
+    }
+
+    return roots;
+  } catch (error) {
+    console.error('Error fetching category tree:', error);
+    throw new Error(`Failed to fetch category tree: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Get category by slug
+ *
+ * Returns a single category by its slug.
+ *
+ * @param slug - Category slug
+ * @returns Category object or null if not found
+ */
+export async function getCategoryBySlug(slug: string): Promise<Category | null> {
+  try {
+    const rows = await sql`
+      SELECT
+        id,
+        slug,
+        name,
+        description,
+        parent_id,
+        created_at
+      FROM categories
+      WHERE slug = ${slug}
+      LIMIT 1
+    `;
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return mapRowToCategory(rows[0]);
+  } catch (error) {
+    console.error('Error fetching category by slug:', error);
+    throw new Error(`Failed to fetch category: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Get a category and its ancestors, for breadcrumbs
+ *
+ * @param slug - Category slug
+ * @returns Categories from the root down to the category, or an empty array
+ *   if not found
+ */
+export async function getCategoryPath(slug: string): Promise<Category[]> {
+  try {
+    const rows = await sql`
+      WITH RECURSIVE ancestors AS (
+        SELECT id, slug, name, description, parent_id, created_at, 0 AS depth
+        FROM categories
+        WHERE slug = ${slug}
+        UNION
+        SELECT c.id, c.slug, c.name, c.description, c.parent_id, c.created_at, a.depth + 1
+        FROM categories c
+        INNER JOIN ancestors a ON c.id = a.parent_id
+      )
+      SELECT id, slug, name, description, parent_id, created_at
+      FROM ancestors
+      ORDER BY depth DESC
+    `;
+
+    return rows.map(mapRowToCategory);
+  } catch (error) {
+    console.error('Error fetching category path:', error);
+    throw new Error(`Failed to fetch category path: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 // ===========================================================================
 // Page Queries
 // ===========================================================================
@@ -564,7 +930,7 @@ export async function getTagsForPost(postId: string): Promise<Tag[]> {
 /**
  * Get all published pages
  *
- * Returns all pages with published status, ordered by title.
+ * Returns all unexpired pages with published status, ordered by title.
  *
  * @returns Array of published pages
  */
@@ -574,6 +940,8 @@ export async function getPages(): Promise<Page[]> {
       SELECT
         id,
         slug,
+        parent_id,
+        sort_order,
         title,
         content,
         content_html,
@@ -581,10 +949,14 @@ export async function getPages(): Promise<Page[]> {
         template,
         meta_description,
         published_at,
+        expires_at,
+        content_updated_at,
+        frontmatter,
         created_at,
         updated_at
       FROM pages
       WHERE status = 'published'
+        AND (expires_at IS NULL OR expires_at > NOW())
       ORDER BY title ASC
     `;
 
@@ -598,7 +970,7 @@ export async function getPages(): Promise<Page[]> {
 /**
  * Get page by slug
  *
- * Returns a single published page by its slug.
+ * Returns a single published, unexpired page by its slug.
  *
  * @param slug - Page slug
  * @returns Page object or null if not found
@@ -609,6 +981,8 @@ export async function getPageBySlug(slug: string): Promise<Page | null> {
       SELECT
         id,
         slug,
+        parent_id,
+        sort_order,
         title,
         content,
         content_html,
@@ -616,11 +990,15 @@ export async function getPageBySlug(slug: string): Promise<Page | null> {
         template,
         meta_description,
         published_at,
+        expires_at,
+        content_updated_at,
+        frontmatter,
         created_at,
         updated_at
       FROM pages
       WHERE slug = ${slug}
         AND status = 'published'
+        AND (expires_at IS NULL OR expires_at > NOW())
       LIMIT 1
     `;
 
@@ -635,6 +1013,483 @@ export async function getPageBySlug(slug: string): Promise<Page | null> {
   }
 }
 
+/**
+ * Get page by its path
+ *
+ * Accepts the segments of a catch-all route (`['docs', 'install']`) or a
+ * path (`/docs/install/`), and includes the published pages above it for
+ * breadcrumbs.
+ *
+ * @param path - Page path or path segments
+ * @returns Page with its ancestors, or null if not found
+ */
+export async function getPageByPath(path: string | string[]): Promise<PageWithAncestors | null> {
+  const slug = (Array.isArray(path) ? path : [path])
+    .flatMap((segment) => segment.split('/'))
+    .filter(Boolean)
+    .join('/');
+
+  try {
+    const rows = await sql`
+      SELECT
+        id,
+        slug,
+        parent_id,
+        sort_order,
+        title,
+        content,
+        content_html,
+        status,
+        template,
+        meta_description,
+        published_at,
+        expires_at,
+        content_updated_at,
+        frontmatter,
+        created_at,
+        updated_at
+      FROM pages
+      WHERE slug = ${slug}
+        AND status = 'published'
+        AND (expires_at IS NULL OR expires_at > NOW())
+      LIMIT 1
+    `;
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const page = mapRowToPage(rows[0]);
+    return { ...page, ancestors: await getPageAncestors(page.id) };
+  } catch (error) {
+    console.error('Error fetching page by path:', error);
+    throw new Error(`Failed to fetch page: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Get the page tree, for sidebar navigation
+ *
+ * Published pages nested under their parent pages, ordered by `order` and
+ * then title at each level. Pages below an unpublished page are left out
+ * with it.
+ *
+ * @param rootSlug - Only return the pages below this page (e.g. `docs`)
+ * @returns Top-level pages of the tree (or of the section)
+ */
+export async function getPageTree(rootSlug?: string): Promise<PageTreeNode[]> {
+  try {
+    const rows = await sql`
+      WITH RECURSIVE tree AS (
+        SELECT id, slug, title, parent_id, sort_order
+        FROM pages
+        WHERE status = 'published'
+          AND (expires_at IS NULL OR expires_at > NOW())
+          AND (
+            (${rootSlug ?? null}::text IS NULL AND parent_id IS NULL)
+            OR parent_id = (
+              SELECT id FROM pages
+              WHERE slug = ${rootSlug ?? null}
+                AND status = 'published'
+                AND (expires_at IS NULL OR expires_at > NOW())
+            )
+          )
+        UNION ALL
+        SELECT p.id, p.slug, p.title, p.parent_id, p.sort_order
+        FROM pages p
+        INNER JOIN tree t ON p.parent_id = t.id
+        WHERE p.status = 'published'
+          AND (p.expires_at IS NULL OR p.expires_at > NOW())
+      )
+      SELECT id, slug, title, parent_id, sort_order
+      FROM tree
+      ORDER BY sort_order ASC NULLS LAST, title ASC
+    `;
+
+    const nodes = new Map<string, PageTreeNode>();
+    for (const row of rows) {
+      nodes.set(row.id, {
+        ...mapRowToPageLink(row),
+        sortOrder: row.sort_order ?? undefined,
+        children: [],
+      });
+    }
+
+    // Rows are already in sibling order, so children end up sorted too
+    const roots: PageTreeNode[] = [];
+    for (const row of rows) {
+      const parent = nodes.get(row.parent_id);
+      (parent ? parent.children : roots).push(nodes.get(row.id)!);
+    }
+
+    return roots;
+  } catch (error) {
+    console.error('Error fetching page tree:', error);
+    throw new Error(`Failed to fetch page tree: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Published pages above a page, root first
+ */
+async function getPageAncestors(pageId: string): Promise<PageLink[]> {
+  const rows = await sql`
+    WITH RECURSIVE ancestors AS (
+      SELECT parent.id, parent.slug, parent.title, parent.parent_id, parent.status,
+        parent.expires_at, 1 AS depth
+      FROM pages page
+      INNER JOIN pages parent ON parent.id = page.parent_id
+      WHERE page.id = ${pageId}
+      UNION ALL
+      SELECT p.id, p.slug, p.title, p.parent_id, p.status, p.expires_at, a.depth + 1
+      FROM pages p
+      INNER JOIN ancestors a ON p.id = a.parent_id
+    )
+    SELECT id, slug, title
+    FROM ancestors
+    WHERE status = 'published'
+      AND (expires_at IS NULL OR expires_at > NOW())
+    ORDER BY depth DESC
+  `;
+
+  return rows.map(mapRowToPageLink);
+}
+
+// ===========================================================================
+// Entry Queries
+// ===========================================================================
+
+// Columns selected for entries
+const ENTRY_COLUMNS = `
+  e.id,
+  e.type,
+  e.slug,
+  e.data,
+  e.content,
+  e.content_html,
+  e.created_at,
+  e.updated_at
+`;
+
+/**
+ * Get entries of a custom content type with filtering and pagination
+ *
+ * `where` matches frontmatter fields by value (JSONB containment, so a list
+ * field matches entries whose list includes the given items).
+ *
+ * @param type - Content type name from hexcms.config.ts
+ * @param filters - Entry filtering and pagination options
+ * @returns Paginated response with entries and metadata
+ */
+export async function getEntries<K extends ContentTypeName>(
+  type: K,
+  filters: EntryFilters<EntryData<K>> = {}
+): Promise<PaginatedResponse<Entry<EntryData<K>>>> {
+  try {
+    const {
+      where,
+      limit = 10,
+      offset = 0,
+      orderBy = 'createdAt',
+      orderDirection = 'desc'
+    } = filters;
+
+    const conditions = ['e.type = $1'];
+    const params: any[] = [type];
+
+    if (where && Object.keys(where).length > 0) {
+      conditions.push(`e.data @> $2::jsonb`);
+      params.push(JSON.stringify(where));
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    // Known columns sort natively; anything else is a frontmatter field
+    const validOrderFields: Record<string, string> = {
+      createdAt: 'e.created_at',
+      updatedAt: 'e.updated_at',
+      slug: 'e.slug'
+    };
+
+    let orderField = validOrderFields[orderBy];
+    if (!orderField) {
+      params.push(orderBy);
+      orderField = `e.data->>$${params.length}`;
+    }
+    const orderDir = orderDirection.toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
+
+    const countRows = await (sql as any)(
+      `SELECT COUNT(*) as total FROM entries e ${whereClause}`,
+      params.slice(0, conditions.length)
+    );
+    const total = parseInt(countRows[0].total, 10);
+
+    const dataRows = await (sql as any)(
+      `SELECT ${ENTRY_COLUMNS}
+       FROM entries e
+       ${whereClause}
+       ORDER BY ${orderField} ${orderDir}, e.slug ASC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return {
+      data: dataRows.map(mapRowToEntry) as Entry<EntryData<K>>[],
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  } catch (error) {
+    console.error(`Error fetching ${type} entries:`, error);
+    throw new Error(`Failed to fetch entries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Get entry by slug
+ *
+ * @param type - Content type name from hexcms.config.ts
+ * @param slug - Entry slug
+ * @returns Entry or null if not found
+ */
+export async function getEntryBySlug<K extends ContentTypeName>(
+  type: K,
+  slug: string
+): Promise<Entry<EntryData<K>> | null> {
+  try {
+    const rows = await (sql as any)(
+      `SELECT ${ENTRY_COLUMNS} FROM entries e WHERE e.type = $1 AND e.slug = $2 LIMIT 1`,
+      [type, slug]
+    );
+
+    return rows.length > 0 ? (mapRowToEntry(rows[0]) as Entry<EntryData<K>>) : null;
+  } catch (error) {
+    console.error(`Error fetching ${type} entry by slug:`, error);
+    throw new Error(`Failed to fetch entry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Get entries that reference content through a relation
+ *
+ * @example
+ * // Case studies tagged nextjs
+ * await getEntriesByRelation('case-study', 'tags', 'nextjs');
+ *
+ * @param type - Content type name from hexcms.config.ts
+ * @param relation - Relation (frontmatter field) declared for the type
+ * @param targetSlug - Slug of the referenced content
+ * @returns Entries, most recently created first
+ */
+export async function getEntriesByRelation<K extends ContentTypeName>(
+  type: K,
+  relation: string,
+  targetSlug: string
+): Promise<Entry<EntryData<K>>[]> {
+  try {
+    const rows = await (sql as any)(
+      `SELECT ${ENTRY_COLUMNS}
+       FROM entries e
+       INNER JOIN entry_relations er ON er.entry_id = e.id
+       WHERE e.type = $1 AND er.relation = $2 AND er.target_slug = $3
+       ORDER BY e.created_at DESC`,
+      [type, relation, targetSlug]
+    );
+
+    return rows.map(mapRowToEntry) as Entry<EntryData<K>>[];
+  } catch (error) {
+    console.error(`Error fetching ${type} entries by relation:`, error);
+    throw new Error(`Failed to fetch entries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// ===========================================================================
+// Revision Queries
+// ===========================================================================
+
+// Revision table and owner column per content type
+const REVISION_TABLES = {
+  post: { revisions: 'post_revisions', owners: 'posts', ownerColumn: 'post_id' },
+  page: { revisions: 'page_revisions', owners: 'pages', ownerColumn: 'page_id' },
+} as const;
+
+/**
+ * Get revisions of a post, newest first
+ *
+ * A revision is recorded each time the post's file is synced.
+ *
+ * @param slug - Post slug
+ * @param limit - Maximum number of revisions to return (default: 50)
+ * @returns Array of revisions (empty if the post does not exist)
+ */
+export async function getPostRevisions(slug: string, limit: number = 50): Promise<Revision[]> {
+  return getRevisions('post', slug, limit);
+}
+
+/**
+ * Get a single revision of a post
+ *
+ * @param slug - Post slug
+ * @param revision - Revision ID or the commit SHA it was synced at
+ * @returns Revision or null if not found
+ */
+export async function getPostRevision(slug: string, revision: string): Promise<Revision | null> {
+  return getRevision('post', slug, revision);
+}
+
+/**
+ * Get revisions of a page, newest first
+ *
+ * @param slug - Page slug
+ * @param limit - Maximum number of revisions to return (default: 50)
+ * @returns Array of revisions (empty if the page does not exist)
+ */
+export async function getPageRevisions(slug: string, limit: number = 50): Promise<Revision[]> {
+  return getRevisions('page', slug, limit);
+}
+
+/**
+ * Get a single revision of a page
+ *
+ * @param slug - Page slug
+ * @param revision - Revision ID or the commit SHA it was synced at
+ * @returns Revision or null if not found
+ */
+export async function getPageRevision(slug: string, revision: string): Promise<Revision | null> {
+  return getRevision('page', slug, revision);
+}
+
+/**
+ * Get the revision of the same post or page recorded before another one
+ *
+ * @param revision - Revision to start from
+ * @returns Previous revision, or null if `revision` is the oldest
+ */
+export async function getPreviousRevision(revision: Revision): Promise<Revision | null> {
+  const { revisions, ownerColumn } = REVISION_TABLES[revision.resourceType];
+
+  try {
+    const rows = await (sql as any)(
+      `SELECT r.id, r.${ownerColumn} AS resource_id, r.commit_sha, r.title,
+              r.content, r.frontmatter, r.created_at
+       FROM ${revisions} r
+       WHERE r.${ownerColumn} = $1
+         AND r.created_at < $2
+       ORDER BY r.created_at DESC
+       LIMIT 1`,
+      [revision.resourceId, revision.createdAt]
+    );
+
+    return rows.length > 0 ? mapRowToRevision(revision.resourceType, rows[0]) : null;
+  } catch (error) {
+    console.error(`Error fetching previous ${revision.resourceType} revision:`, error);
+    throw new Error(`Failed to fetch previous ${revision.resourceType} revision: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Query revisions of a post or page by slug
+ */
+async function getRevisions(
+  resourceType: Revision['resourceType'],
+  slug: string,
+  limit: number
+): Promise<Revision[]> {
+  const { revisions, owners, ownerColumn } = REVISION_TABLES[resourceType];
+
+  try {
+    const rows = await (sql as any)(
+      `SELECT r.id, r.${ownerColumn} AS resource_id, r.commit_sha, r.title,
+              r.content, r.frontmatter, r.created_at
+       FROM ${revisions} r
+       INNER JOIN ${owners} o ON r.${ownerColumn} = o.id
+       WHERE o.slug = $1
+       ORDER BY r.created_at DESC
+       LIMIT $2`,
+      [slug, limit]
+    );
+
+    return rows.map((row: any) => mapRowToRevision(resourceType, row));
+  } catch (error) {
+    console.error(`Error fetching ${resourceType} revisions:`, error);
+    throw new Error(`Failed to fetch ${resourceType} revisions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Query one revision of a post or page by ID or commit SHA
+ */
+async function getRevision(
+  resourceType: Revision['resourceType'],
+  slug: string,
+  revision: string
+): Promise<Revision | null> {
+  const { revisions, owners, ownerColumn } = REVISION_TABLES[resourceType];
+
+  try {
+    const rows = await (sql as any)(
+      `SELECT r.id, r.${ownerColumn} AS resource_id, r.commit_sha, r.title,
+              r.content, r.frontmatter, r.created_at
+       FROM ${revisions} r
+       INNER JOIN ${owners} o ON r.${ownerColumn} = o.id
+       WHERE o.slug = $1
+         AND (r.id::text = $2 OR r.commit_sha = $2)
+       LIMIT 1`,
+      [slug, revision]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return mapRowToRevision(resourceType, rows[0]);
+  } catch (error) {
+    console.error(`Error fetching ${resourceType} revision:`, error);
+    throw new Error(`Failed to fetch ${resourceType} revision: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// ===========================================================================
+// Redirect Queries
+// ===========================================================================
+
+/**
+ * Get redirect for a retired slug
+ *
+ * Content files that were renamed leave their old slug behind; callers
+ * that miss a lookup by slug can use this to redirect to the current one.
+ *
+ * @param resourceType - Type of resource
+ * @param slug - Slug that was requested
+ * @returns Redirect object or null if the slug was never retired
+ */
+export async function getRedirect(
+  resourceType: Redirect['resourceType'],
+  slug: string
+): Promise<Redirect | null> {
+  try {
+    const rows = await sql`
+      SELECT id, resource_type, from_slug, to_slug, created_at
+      FROM redirects
+      WHERE resource_type = ${resourceType}
+        AND from_slug = ${slug}
+      LIMIT 1
+    `;
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return mapRowToRedirect(rows[0]);
+  } catch (error) {
+    console.error('Error fetching redirect:', error);
+    throw new Error(`Failed to fetch redirect: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 // ===========================================================================
 // Utility Functions
 // ===========================================================================
@@ -663,7 +1518,8 @@ export async function testConnection(): Promise<boolean> {
 /**
  * Map database row to Post type
  *
- * Handles NULL values and type conversions from database format to TypeScript.
+ * Handles NULL values and type conversions from database format to TypeScript,
+ * including JSONB parsing for the frontmatter.
  */
 function mapRowToPost(row: any): Post {
   return {
@@ -674,17 +1530,40 @@ function mapRowToPost(row: any): Post {
     content: row.content,
     contentHtml: row.content_html || undefined,
     authorId: row.author_id || undefined,
+    authors: row.authors === undefined ? undefined : mapRowToPostAuthors(row.authors),
     status: row.status,
     featuredImage: row.featured_image || undefined,
     featured: row.featured,
     readingTime: row.reading_time || undefined,
     views: row.views,
     publishedAt: row.published_at ? new Date(row.published_at) : undefined,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    contentUpdatedAt: row.content_updated_at ? new Date(row.content_updated_at) : undefined,
+    metaDescription: row.meta_description || undefined,
+    metaKeywords: row.meta_keywords || [],
+    frontmatter: typeof row.frontmatter === 'string' ? JSON.parse(row.frontmatter) : (row.frontmatter || {}),
+    categoryId: row.category_id || undefined,
+    seriesId: row.series_id || undefined,
+    seriesOrder: row.series_order ?? undefined,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
 }
 
+/**
+ * Map a post's aggregated author list (JSON) to PostAuthor types
+ */
+function mapRowToPostAuthors(authors: any): PostAuthor[] {
+  const rows = typeof authors === 'string' ? JSON.parse(authors) : (authors || []);
+  return rows.map((row: any) => ({
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    avatarUrl: row.avatarUrl || undefined,
+    role: row.role || undefined,
+  }));
+}
+
 /**
  * Map database row to Author type
  *
@@ -716,10 +1595,55 @@ function mapRowToTag(row: any): Tag {
     slug: row.slug,
     name: row.name,
     description: row.description || undefined,
+    color: row.color || undefined,
+    parentId: row.parent_id || undefined,
     createdAt: new Date(row.created_at),
   };
 }
 
+/**
+ * Map database row to Category type
+ *
+ * Handles NULL values for optional fields.
+ */
+function mapRowToCategory(row: any): Category {
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    description: row.description || undefined,
+    parentId: row.parent_id || undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Map database row to Series type
+ */
+function mapRowToSeries(row: any): Series {
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Map database row to SeriesPart type
+ */
+function mapRowToSeriesPart(row: any): SeriesPart {
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title,
+    excerpt: row.excerpt || undefined,
+    publishedAt: row.published_at ? new Date(row.published_at) : undefined,
+    seriesOrder: row.series_order ?? undefined,
+  };
+}
+
 /**
  * Map database row to Page type
  *
@@ -729,6 +1653,8 @@ function mapRowToPage(row: any): Page {
   return {
     id: row.id,
     slug: row.slug,
+    parentId: row.parent_id || undefined,
+    sortOrder: row.sort_order ?? undefined,
     title: row.title,
     content: row.content,
     contentHtml: row.content_html || undefined,
@@ -736,7 +1662,66 @@ function mapRowToPage(row: any): Page {
     template: row.template || undefined,
     metaDescription: row.meta_description || undefined,
     publishedAt: row.published_at ? new Date(row.published_at) : undefined,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    contentUpdatedAt: row.content_updated_at ? new Date(row.content_updated_at) : undefined,
+    frontmatter: typeof row.frontmatter === 'string' ? JSON.parse(row.frontmatter) : (row.frontmatter || {}),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Map database row to PageLink type
+ */
+function mapRowToPageLink(row: any): PageLink {
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title,
+  };
+}
+
+/**
+ * Map database row to Entry type
+ */
+function mapRowToEntry(row: any): Entry {
+  return {
+    id: row.id,
+    type: row.type,
+    slug: row.slug,
+    data: typeof row.data === 'string' ? JSON.parse(row.data) : (row.data || {}),
+    content: row.content,
+    contentHtml: row.content_html || undefined,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
 }
+
+/**
+ * Map database row to Redirect type
+ */
+function mapRowToRedirect(row: any): Redirect {
+  return {
+    id: row.id,
+    resourceType: row.resource_type,
+    fromSlug: row.from_slug,
+    toSlug: row.to_slug,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Map database row to Revision type
+ */
+function mapRowToRevision(resourceType: Revision['resourceType'], row: any): Revision {
+  return {
+    id: row.id,
+    resourceType,
+    resourceId: row.resource_id,
+    commitSha: row.commit_sha,
+    title: row.title,
+    content: row.content,
+    frontmatter: typeof row.frontmatter === 'string' ? JSON.parse(row.frontmatter) : (row.frontmatter || {}),
+    createdAt: new Date(row.created_at),
+  };
+}
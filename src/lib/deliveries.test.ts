@@ -0,0 +1,161 @@
+/**
+ * Tests for Webhook Deliveries
+ *
+ * This test suite validates duplicate detection, stale-commit rejection and
+ * delivery replay.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock database adapter
+const { mockSql, mockEnqueue } = vi.hoisted(() => ({
+  mockSql: vi.fn(),
+  mockEnqueue: vi.fn(),
+}));
+
+vi.mock('./db-adapter', () => ({
+  sql: mockSql,
+}));
+
+vi.mock('./sync-queue', () => ({
+  enqueueSyncJob: mockEnqueue,
+}));
+
+import { recordDelivery, findNewerDelivery, replayDelivery } from './deliveries';
+import type { GitHubWebhookPayload } from '@/types';
+
+const payload = {
+  ref: 'refs/heads/main',
+  before: 'abc123',
+  after: 'def456',
+  head_commit: { id: 'def456', timestamp: '2024-01-15T12:00:00Z' },
+} as GitHubWebhookPayload;
+
+const deliveryRow = {
+  id: 'delivery-1',
+  event: 'push',
+  ref: 'refs/heads/main',
+  before_sha: 'abc123',
+  commit_sha: 'def456',
+  commit_timestamp: '2024-01-15T12:00:00Z',
+  status: 'queued',
+  response: { success: true, jobId: 'job-1' },
+  job_id: 'job-1',
+  attempts: 1,
+  created_at: '2024-01-15T12:00:00Z',
+  updated_at: '2024-01-15T12:00:00Z',
+};
+
+// ===========================================================================
+// Recording Tests
+// ===========================================================================
+
+describe('recordDelivery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should accept a new delivery', async () => {
+    mockSql.mockResolvedValueOnce([{ ...deliveryRow, status: 'received' }]);
+
+    const { delivery, duplicate } = await recordDelivery('delivery-1', 'push', payload);
+
+    expect(duplicate).toBe(false);
+    expect(delivery.status).toBe('received');
+    expect(mockSql).toHaveBeenCalledTimes(1);
+    // The before SHA chains the delivery to the push it builds on
+    expect(mockSql.mock.calls[0].slice(1, 6)).toEqual([
+      'delivery-1',
+      'push',
+      'refs/heads/main',
+      'abc123',
+      'def456',
+    ]);
+  });
+
+  it('should return the stored delivery for duplicates', async () => {
+    mockSql.mockResolvedValueOnce([]).mockResolvedValueOnce([deliveryRow]);
+
+    const { delivery, duplicate } = await recordDelivery('delivery-1', 'push', payload);
+
+    expect(duplicate).toBe(true);
+    expect(delivery.response).toEqual({ success: true, jobId: 'job-1' });
+  });
+
+  it('should only reprocess deliveries that failed', async () => {
+    mockSql.mockResolvedValueOnce([{ ...deliveryRow, status: 'received' }]);
+
+    await recordDelivery('delivery-1', 'push', payload);
+
+    const [strings] = mockSql.mock.calls[0];
+    expect(strings.join('?')).toContain("WHERE webhook_deliveries.status = 'failed'");
+  });
+});
+
+describe('findNewerDelivery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the newer commit already accepted for the ref', async () => {
+    mockSql.mockResolvedValue([{ commit_sha: 'fff999' }]);
+
+    expect(await findNewerDelivery('delivery-2', payload)).toBe('fff999');
+    expect(mockSql.mock.calls[0]).toContain('refs/heads/main');
+  });
+
+  it('should follow pushes that start from the head commit, not timestamps', async () => {
+    mockSql.mockResolvedValue([]);
+
+    await findNewerDelivery('delivery-2', {
+      ...payload,
+      head_commit: { id: 'def456' },
+    } as GitHubWebhookPayload);
+
+    const [strings, ...values] = mockSql.mock.calls[0];
+    const query = strings.join('?');
+    expect(query).toContain('WHERE before_sha = ?');
+    expect(query).toContain('JOIN accepted a ON a.before_sha = s.commit_sha');
+    expect(query).not.toContain('commit_timestamp');
+    expect(values).toContain('def456');
+  });
+
+  it('should return null when the push is current', async () => {
+    mockSql.mockResolvedValue([]);
+
+    expect(await findNewerDelivery('delivery-2', payload)).toBeNull();
+  });
+
+  it('should never reject force pushes', async () => {
+    expect(await findNewerDelivery('delivery-2', { ...payload, forced: true })).toBeNull();
+    expect(mockSql).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================================================
+// Replay Tests
+// ===========================================================================
+
+describe('replayDelivery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should queue the stored payload as a new job', async () => {
+    mockSql.mockResolvedValueOnce([{ payload }]).mockResolvedValueOnce([]);
+    mockEnqueue.mockResolvedValue({ id: 'job-2' });
+
+    const job = await replayDelivery('delivery-1');
+
+    expect(job).toEqual({ id: 'job-2' });
+    expect(mockEnqueue).toHaveBeenCalledWith(payload, {});
+    expect(mockSql.mock.calls[1]).toContain('job-2');
+  });
+
+  it('should return null for unknown deliveries', async () => {
+    mockSql.mockResolvedValue([]);
+
+    expect(await replayDelivery('missing')).toBeNull();
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+});
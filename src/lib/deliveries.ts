@@ -0,0 +1,227 @@
+/**
+ * Webhook Deliveries
+ *
+ * Persists webhook deliveries (keyed by the x-github-delivery header) with
+ * their outcome, so the sync endpoint can:
+ * - Answer duplicate deliveries with the stored result instead of syncing again
+ * - Reject pushes that an already accepted push on the same ref builds on
+ * - Replay a stored delivery on demand
+ *
+ * GitHub reuses the delivery ID when a delivery is redelivered, so a
+ * delivery that previously failed is processed again rather than treated
+ * as a duplicate.
+ */
+
+import { sql } from './db-adapter';
+import { enqueueSyncJob } from './sync-queue';
+import type { GitHubWebhookPayload, SyncJob, WebhookDelivery } from '@/types';
+
+// ===========================================================================
+// Recording Deliveries
+// ===========================================================================
+
+/**
+ * Record a received delivery
+ *
+ * New deliveries, and deliveries whose previous attempt failed, are stored
+ * as `received` and should be processed. Anything else is a duplicate.
+ *
+ * @param id - x-github-delivery header value
+ * @param event - x-github-event header value
+ * @param payload - Parsed webhook payload
+ * @returns Stored delivery and whether it was already handled
+ * @throws {Error} If the delivery cannot be stored
+ */
+export async function recordDelivery(
+  id: string,
+  event: string,
+  payload: GitHubWebhookPayload
+): Promise<{ delivery: WebhookDelivery; duplicate: boolean }> {
+  try {
+    const rows = await sql`
+      INSERT INTO webhook_deliveries (
+        id, event, ref, before_sha, commit_sha, commit_timestamp, payload
+      ) VALUES (
+        ${id}, ${event}, ${payload.ref}, ${payload.before}, ${payload.head_commit.id},
+        ${payload.head_commit.timestamp || null}, ${JSON.stringify(payload)}::jsonb
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        status = 'received',
+        attempts = webhook_deliveries.attempts + 1,
+        updated_at = NOW()
+      WHERE webhook_deliveries.status = 'failed'
+      RETURNING *
+    `;
+
+    if (rows.length > 0) {
+      return { delivery: mapRowToDelivery(rows[0]), duplicate: false };
+    }
+
+    const existing = await getDelivery(id);
+    if (!existing) {
+      throw new Error(`Delivery disappeared while recording: ${id}`);
+    }
+    return { delivery: existing, duplicate: true };
+  } catch (error) {
+    throw new Error(
+      `Failed to record webhook delivery: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Store the outcome of a delivery
+ *
+ * @param id - Delivery ID
+ * @param status - Outcome
+ * @param response - Response body returned for the delivery
+ * @param jobId - Sync job the delivery was queued as
+ */
+export async function finishDelivery(
+  id: string,
+  status: WebhookDelivery['status'],
+  response: Record<string, unknown>,
+  jobId?: string
+): Promise<void> {
+  await sql`
+    UPDATE webhook_deliveries SET
+      status = ${status},
+      response = ${JSON.stringify(response)}::jsonb,
+      job_id = COALESCE(${jobId || null}, job_id),
+      updated_at = NOW()
+    WHERE id = ${id}
+  `;
+}
+
+/**
+ * Check whether a push has been superseded on its ref
+ *
+ * Pushes chain through their `before` and `after` SHAs: a push is stale
+ * when an accepted delivery (sync job not failed) starts from its `after`,
+ * directly or through further pushes. Commit timestamps are not used, as
+ * author dates can be set freely and rebased commits keep theirs. Force
+ * pushes break the chain: they may legitimately move a branch back, are
+ * never treated as stale, and are not followed.
+ *
+ * @param deliveryId - Delivery being checked (excluded from the comparison)
+ * @param payload - Webhook payload
+ * @returns Newest commit SHA accepted on top of the push, or null if the
+ *   push is current
+ */
+export async function findNewerDelivery(
+  deliveryId: string,
+  payload: GitHubWebhookPayload
+): Promise<string | null> {
+  if (payload.forced) {
+    return null;
+  }
+
+  // UNION (not UNION ALL) stops at deliveries already visited, so pushes
+  // that return the branch to an earlier commit cannot loop forever
+  const rows = await sql`
+    WITH RECURSIVE accepted AS (
+      SELECT d.id, d.before_sha, d.commit_sha, d.created_at
+      FROM webhook_deliveries d
+      JOIN sync_jobs j ON j.id = d.job_id
+      WHERE d.ref = ${payload.ref}
+        AND d.id <> ${deliveryId}
+        AND d.commit_sha <> ${payload.after}
+        AND COALESCE((d.payload->>'forced')::boolean, false) = false
+        AND j.status IN ('pending', 'running', 'completed')
+    ),
+    successors AS (
+      SELECT commit_sha, created_at FROM accepted WHERE before_sha = ${payload.after}
+      UNION
+      SELECT a.commit_sha, a.created_at
+      FROM successors s
+      JOIN accepted a ON a.before_sha = s.commit_sha
+    )
+    SELECT commit_sha FROM successors
+    ORDER BY created_at DESC
+    LIMIT 1
+  `;
+
+  return rows.length > 0 ? rows[0].commit_sha : null;
+}
+
+// ===========================================================================
+// Querying and Replaying
+// ===========================================================================
+
+/**
+ * Get delivery by ID
+ *
+ * @param id - Delivery ID
+ * @returns Delivery or null if not found
+ */
+export async function getDelivery(id: string): Promise<WebhookDelivery | null> {
+  const rows = await sql`
+    SELECT * FROM webhook_deliveries WHERE id = ${id} LIMIT 1
+  `;
+
+  return rows.length > 0 ? mapRowToDelivery(rows[0]) : null;
+}
+
+/**
+ * Replay a stored delivery
+ *
+ * Queues the stored payload as a new sync job. Replays are deliberate, so
+ * the stale-commit check is not applied.
+ *
+ * @param id - Delivery ID
+ * @param options - Processing options for the new job
+ * @returns Queued job, or null if the delivery does not exist
+ * @throws {Error} If the job cannot be queued
+ */
+export async function replayDelivery(
+  id: string,
+  options: { atomic?: boolean } = {}
+): Promise<SyncJob | null> {
+  const rows = await sql`
+    SELECT payload FROM webhook_deliveries WHERE id = ${id} LIMIT 1
+  `;
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const payload: GitHubWebhookPayload =
+    typeof rows[0].payload === 'string' ? JSON.parse(rows[0].payload) : rows[0].payload;
+
+  const job = await enqueueSyncJob(payload, options);
+
+  await sql`
+    UPDATE webhook_deliveries SET
+      status = 'queued',
+      job_id = ${job.id},
+      replayed_at = NOW(),
+      updated_at = NOW()
+    WHERE id = ${id}
+  `;
+
+  return job;
+}
+
+// ===========================================================================
+// Row Mapping Helpers
+// ===========================================================================
+
+/**
+ * Map database row to WebhookDelivery type
+ */
+function mapRowToDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    event: row.event,
+    ref: row.ref,
+    beforeSha: row.before_sha || undefined,
+    commitSha: row.commit_sha,
+    commitTimestamp: row.commit_timestamp ? new Date(row.commit_timestamp) : undefined,
+    status: row.status,
+    response: typeof row.response === 'string' ? JSON.parse(row.response) : (row.response || {}),
+    jobId: row.job_id || undefined,
+    attempts: row.attempts,
+    replayedAt: row.replayed_at ? new Date(row.replayed_at) : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Tests for Text Diffing
+ *
+ * This test suite validates line diffs, unified diff rendering and revision
+ * comparison.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffLines, formatUnifiedDiff, diffRevisions } from './diff';
+import type { Revision } from '@/types';
+
+/**
+ * Numbered lines, one per string
+ */
+function text(...lines: string[]): string {
+  return `${lines.join('\n')}\n`;
+}
+
+describe('diffLines', () => {
+  it('should mark unchanged text as equal', () => {
+    expect(diffLines('a\nb\n', 'a\nb\n')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'equal', text: 'b' },
+    ]);
+  });
+
+  it('should find the shortest set of insertions and deletions', () => {
+    const lines = diffLines(text('a', 'b', 'c', 'a', 'b', 'b', 'a'), text('c', 'b', 'a', 'b', 'a', 'c'));
+
+    expect(lines.filter((line) => line.type !== 'equal')).toHaveLength(5);
+    expect(lines.filter((line) => line.type !== 'insert').map((line) => line.text)).toEqual(
+      ['a', 'b', 'c', 'a', 'b', 'b', 'a']
+    );
+    expect(lines.filter((line) => line.type !== 'delete').map((line) => line.text)).toEqual(
+      ['c', 'b', 'a', 'b', 'a', 'c']
+    );
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffLines('', 'a\n')).toEqual([{ type: 'insert', text: 'a' }]);
+    expect(diffLines('a\n', '')).toEqual([{ type: 'delete', text: 'a' }]);
+    expect(diffLines('', '')).toEqual([]);
+  });
+
+  it('should ignore line ending differences', () => {
+    expect(diffLines('a\r\nb\r\n', 'a\nb\n').every((line) => line.type === 'equal')).toBe(true);
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('should return an empty string when nothing changed', () => {
+    expect(formatUnifiedDiff(diffLines('a\n', 'a\n'), 'a', 'b')).toBe('');
+  });
+
+  it('should render hunks with context and line numbers', () => {
+    const before = text('a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm', 'n');
+    const after = text('a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'x', 'm', 'n', 'o');
+
+    expect(formatUnifiedDiff(diffLines(before, after), 'a/old', 'b/new')).toBe(
+      [
+        '--- a/old',
+        '+++ b/new',
+        '@@ -1,5 +1,5 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        ' d',
+        ' e',
+        '@@ -10,5 +10,7 @@',
+        ' j',
+        ' k',
+        ' l',
+        '+x',
+        ' m',
+        ' n',
+        '+o',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should merge changes whose context overlaps into one hunk', () => {
+    const diff = formatUnifiedDiff(
+      diffLines(text('a', 'b', 'c', 'd', 'e'), text('A', 'b', 'c', 'd', 'E')),
+      'a',
+      'b'
+    );
+
+    expect(diff.match(/^@@/gm)).toHaveLength(1);
+    expect(diff).toContain('@@ -1,5 +1,5 @@');
+  });
+
+  it('should start new files at line zero', () => {
+    expect(formatUnifiedDiff(diffLines('', 'x\ny\n'), 'a', 'b')).toContain('@@ -0,0 +1,2 @@');
+  });
+});
+
+describe('diffRevisions', () => {
+  const revision = (overrides: Partial<Revision>): Revision => ({
+    id: 'rev-1',
+    resourceType: 'post',
+    resourceId: 'post-1',
+    commitSha: 'abc123',
+    title: 'Hello',
+    content: 'Hello world\n',
+    frontmatter: { title: 'Hello', author: 'john-doe', tags: ['news'] },
+    createdAt: new Date('2024-01-15T12:00:00Z'),
+    ...overrides,
+  });
+
+  it('should report changed frontmatter fields and diff the content', () => {
+    const result = diffRevisions(
+      revision({}),
+      revision({
+        id: 'rev-2',
+        commitSha: 'def456',
+        title: 'Hello again',
+        content: 'Hello there\n',
+        frontmatter: { title: 'Hello again', author: 'john-doe', tags: ['news'], featured: true },
+      })
+    );
+
+    expect(result.from.commitSha).toBe('abc123');
+    expect(result.to.id).toBe('rev-2');
+    expect(result.frontmatter).toEqual({
+      title: { from: 'Hello', to: 'Hello again' },
+      featured: { from: undefined, to: true },
+    });
+    expect(result.diff).toContain('--- a/abc123\n+++ b/def456');
+    expect(result.diff).toContain('-Hello world\n+Hello there\n');
+  });
+
+  it('should report no changes between identical revisions', () => {
+    const result = diffRevisions(revision({}), revision({ id: 'rev-2', commitSha: 'def456' }));
+
+    expect(result.frontmatter).toEqual({});
+    expect(result.diff).toBe('');
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Text Diffing
+ *
+ * Line-based diffs (Myers' algorithm) rendered as unified diffs, used to
+ * compare revisions of posts and pages.
+ */
+
+import type { Revision, RevisionDiff } from '@/types';
+
+// Configuration
+const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * One line of a diff
+ */
+export interface DiffLine {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// ===========================================================================
+// Diffing
+// ===========================================================================
+
+/**
+ * Diff two texts line by line
+ *
+ * @param before - Old text
+ * @param after - New text
+ * @returns Lines of both texts in order, marked as kept, inserted or deleted
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Only the changed middle needs the full algorithm
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const equal = (text: string): DiffLine => ({ type: 'equal', text });
+
+  return [
+    ...a.slice(0, prefix).map(equal),
+    ...myersDiff(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map(equal),
+  ];
+}
+
+/**
+ * Render a diff in unified format
+ *
+ * @param lines - Diff from diffLines
+ * @param fromLabel - Name of the old text (`---` header)
+ * @param toLabel - Name of the new text (`+++` header)
+ * @param context - Unchanged lines shown around each change
+ * @returns Unified diff, or an empty string if nothing changed
+ */
+export function formatUnifiedDiff(
+  lines: DiffLine[],
+  fromLabel: string,
+  toLabel: string,
+  context: number = DEFAULT_CONTEXT_LINES
+): string {
+  const changes = lines
+    .map((line, index) => (line.type === 'equal' ? -1 : index))
+    .filter((index) => index !== -1);
+
+  if (changes.length === 0) {
+    return '';
+  }
+
+  // Old and new line counts before each position
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const line of lines) {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (line.type !== 'insert') oldCount++;
+    if (line.type !== 'delete') newCount++;
+  }
+  oldBefore.push(oldCount);
+  newBefore.push(newCount);
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let i = 0;
+
+  while (i < changes.length) {
+    // Merge changes whose context would overlap into one hunk
+    const first = changes[i];
+    let last = first;
+    while (i < changes.length && changes[i] - last <= 2 * context) {
+      last = changes[i];
+      i++;
+    }
+
+    const start = Math.max(0, first - context);
+    const end = Math.min(lines.length, last + context + 1);
+    const hunkOld = oldBefore[end] - oldBefore[start];
+    const hunkNew = newBefore[end] - newBefore[start];
+
+    output.push(
+      `@@ -${oldBefore[start] + (hunkOld > 0 ? 1 : 0)},${hunkOld} ` +
+        `+${newBefore[start] + (hunkNew > 0 ? 1 : 0)},${hunkNew} @@`
+    );
+    for (const line of lines.slice(start, end)) {
+      const marker = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
+      output.push(`${marker}${line.text}`);
+    }
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * Compare two revisions of the same post or page
+ *
+ * @param from - Older revision
+ * @param to - Newer revision
+ * @returns Changed frontmatter fields and a unified diff of the content
+ */
+export function diffRevisions(from: Revision, to: Revision): RevisionDiff {
+  const frontmatter: RevisionDiff['frontmatter'] = {};
+  const keys = new Set([...Object.keys(from.frontmatter), ...Object.keys(to.frontmatter)]);
+
+  for (const key of keys) {
+    if (JSON.stringify(from.frontmatter[key]) !== JSON.stringify(to.frontmatter[key])) {
+      frontmatter[key] = { from: from.frontmatter[key], to: to.frontmatter[key] };
+    }
+  }
+
+  return {
+    from: { id: from.id, commitSha: from.commitSha, createdAt: from.createdAt },
+    to: { id: to.id, commitSha: to.commitSha, createdAt: to.createdAt },
+    frontmatter,
+    diff: formatUnifiedDiff(
+      diffLines(from.content, to.content),
+      `a/${from.commitSha}`,
+      `b/${to.commitSha}`
+    ),
+  };
+}
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+/**
+ * Split text into lines, ignoring the final newline
+ */
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers, O((N+M)D))
+ */
+function myersDiff(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  // Find the furthest-reaching path for each number of edits
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break search;
+      }
+    }
+  }
+
+  // Walk the path back from the end
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1])
+      ? k + 1
+      : k - 1;
+    const prevX = previous[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: 'insert', text: b[--y] });
+      } else {
+        result.push({ type: 'delete', text: a[--x] });
+      }
+    }
+  }
+
+  return result.reverse();
+}
@@ -0,0 +1,65 @@
+/**
+ * Tests for Sync Environments
+ *
+ * This test suite validates SYNC_ENVIRONMENTS parsing and branch lookup.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getSyncEnvironments, getEnvironmentForRef, getEnvironment } from './environments';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getSyncEnvironments', () => {
+  it('should sync only the content branch as production by default', () => {
+    vi.stubEnv('SYNC_ENVIRONMENTS', '');
+    vi.stubEnv('CONTENT_BRANCH', 'trunk');
+
+    expect(getSyncEnvironments()).toEqual([
+      { name: 'production', branch: 'trunk', databaseUrl: undefined, schema: undefined },
+    ]);
+  });
+
+  it('should parse branch:environment pairs with per-environment databases', () => {
+    vi.stubEnv('SYNC_ENVIRONMENTS', 'main:production, staging:staging');
+    vi.stubEnv('DATABASE_SCHEMA_STAGING', 'staging');
+    vi.stubEnv('DATABASE_URL_PRODUCTION', '');
+
+    expect(getSyncEnvironments()).toEqual([
+      { name: 'production', branch: 'main', databaseUrl: undefined, schema: undefined },
+      { name: 'staging', branch: 'staging', databaseUrl: undefined, schema: 'staging' },
+    ]);
+  });
+
+  it('should throw on malformed entries', () => {
+    vi.stubEnv('SYNC_ENVIRONMENTS', 'main');
+
+    expect(() => getSyncEnvironments()).toThrow('Invalid SYNC_ENVIRONMENTS entry: main');
+  });
+});
+
+describe('getEnvironmentForRef', () => {
+  it('should map branch refs to their environment', () => {
+    vi.stubEnv('SYNC_ENVIRONMENTS', 'main:production,release/2.0:preview');
+
+    expect(getEnvironmentForRef('refs/heads/release/2.0')?.name).toBe('preview');
+    expect(getEnvironmentForRef('refs/heads/main')?.name).toBe('production');
+  });
+
+  it('should return null for unmapped branches and tags', () => {
+    vi.stubEnv('SYNC_ENVIRONMENTS', 'main:production');
+
+    expect(getEnvironmentForRef('refs/heads/feature/x')).toBeNull();
+    expect(getEnvironmentForRef('refs/tags/main')).toBeNull();
+  });
+});
+
+describe('getEnvironment', () => {
+  it('should find environments by name', () => {
+    vi.stubEnv('SYNC_ENVIRONMENTS', 'main:production,staging:staging');
+
+    expect(getEnvironment('staging')?.branch).toBe('staging');
+    expect(getEnvironment('qa')).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Sync Environments
+ *
+ * Maps branches to the environment their pushes sync into, so pushes to
+ * feature branches never overwrite production content.
+ *
+ * Configured with SYNC_ENVIRONMENTS as comma-separated branch:environment
+ * pairs, e.g. "main:production,staging:staging". An environment writes to
+ * DATABASE_URL unless DATABASE_URL_<ENV> (separate database) or
+ * DATABASE_SCHEMA_<ENV> (separate schema) is set, where <ENV> is the
+ * upper-cased environment name.
+ *
+ * Without SYNC_ENVIRONMENTS, only CONTENT_BRANCH (default: main) is synced,
+ * as production. Pushes to any other branch are ignored.
+ */
+
+import type { SyncEnvironment } from '@/types';
+
+const BRANCH_REF_PREFIX = 'refs/heads/';
+
+// ===========================================================================
+// Configuration
+// ===========================================================================
+
+/**
+ * Get the configured sync environments
+ *
+ * @returns Environments in configuration order
+ * @throws {Error} If SYNC_ENVIRONMENTS is malformed
+ */
+export function getSyncEnvironments(): SyncEnvironment[] {
+  const config = process.env.SYNC_ENVIRONMENTS;
+
+  if (!config) {
+    return [createEnvironment('production', process.env.CONTENT_BRANCH || 'main')];
+  }
+
+  return config
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [branch, name, ...rest] = entry.split(':').map((part) => part.trim());
+      if (!branch || !name || rest.length > 0) {
+        throw new Error(
+          `Invalid SYNC_ENVIRONMENTS entry: ${entry}. Expected branch:environment.`
+        );
+      }
+      return createEnvironment(name, branch);
+    });
+}
+
+/**
+ * Get the environment a pushed ref syncs into
+ *
+ * @param ref - Git ref from the push (e.g. refs/heads/main)
+ * @returns Environment, or null if the ref is not a mapped branch
+ */
+export function getEnvironmentForRef(ref: string): SyncEnvironment | null {
+  if (!ref.startsWith(BRANCH_REF_PREFIX)) {
+    return null;
+  }
+
+  const branch = ref.slice(BRANCH_REF_PREFIX.length);
+  return getSyncEnvironments().find((env) => env.branch === branch) || null;
+}
+
+/**
+ * Get an environment by name
+ *
+ * @param name - Environment name
+ * @returns Environment, or null if not configured
+ */
+export function getEnvironment(name: string): SyncEnvironment | null {
+  return getSyncEnvironments().find((env) => env.name === name) || null;
+}
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+function createEnvironment(name: string, branch: string): SyncEnvironment {
+  const key = name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+
+  return {
+    name,
+    branch,
+    databaseUrl: process.env[`DATABASE_URL_${key}`] || undefined,
+    schema: process.env[`DATABASE_SCHEMA_${key}`] || undefined,
+  };
+}
@@ -5,11 +5,15 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
 import {
   parseMarkdownFile,
   parsePostFrontmatter,
   parseAuthorFrontmatter,
   parsePageFrontmatter,
+  parseTagFrontmatter,
+  parseCategoryFrontmatter,
+  parseEntryFrontmatter,
   markdownToHtml,
   calculateReadingTime,
   extractExcerpt,
@@ -126,6 +130,36 @@ Content`;
 title: "Test Post"
 ---
 
+Content`;
+
+    expect(() => parsePostFrontmatter(content)).toThrow('Invalid post frontmatter');
+  });
+
+  it('should accept an authors list instead of author', () => {
+    const content = `---
+title: "Test Post"
+authors:
+  - "john-doe"
+  - slug: "jane-doe"
+    role: "illustrator"
+publishedAt: "2024-01-15"
+---
+
+Content`;
+
+    const result = parsePostFrontmatter(content);
+
+    expect(result.data.author).toBeUndefined();
+    expect(result.data.authors).toEqual(['john-doe', { slug: 'jane-doe', role: 'illustrator' }]);
+  });
+
+  it('should require author or authors', () => {
+    const content = `---
+title: "Test Post"
+authors: []
+publishedAt: "2024-01-15"
+---
+
 Content`;
 
     expect(() => parsePostFrontmatter(content)).toThrow('Invalid post frontmatter');
@@ -192,6 +226,40 @@ Content`;
     expect(result.data.metaDescription).toBe('Meta description');
     expect(result.data.metaKeywords).toEqual(['seo', 'keywords']);
   });
+
+  it('should keep custom fields', () => {
+    const content = `---
+title: "Release notes"
+author: "john-doe"
+publishedAt: "2024-01-15"
+version: "2.1.0"
+hero:
+  layout: "wide"
+---
+
+Content`;
+
+    const result = parsePostFrontmatter(content);
+
+    expect(result.data).toMatchObject({ version: '2.1.0', hero: { layout: 'wide' } });
+  });
+
+  it('should accept an expiry date or date-time', () => {
+    const post = (expiresAt: string) => `---
+title: "Announcement"
+author: "john-doe"
+publishedAt: "2024-01-15"
+expiresAt: "${expiresAt}"
+---
+
+Content`;
+
+    expect(parsePostFrontmatter(post('2024-02-01')).data.expiresAt).toBe('2024-02-01');
+    expect(parsePostFrontmatter(post('2024-02-01T18:30:00Z')).data.expiresAt).toBe(
+      '2024-02-01T18:30:00Z'
+    );
+    expect(() => parsePostFrontmatter(post('next week'))).toThrow('Invalid post frontmatter');
+  });
 });
 
 describe('parseAuthorFrontmatter', () => {
@@ -263,6 +331,67 @@ social:
   });
 });
 
+describe('parseTagFrontmatter', () => {
+  it('should parse valid tag frontmatter', () => {
+    const content = `---
+name: "Machine Learning"
+description: "Models that learn from data"
+color: "#3178c6"
+parent: "ai"
+---`;
+
+    const result = parseTagFrontmatter(content);
+
+    expect(result).toEqual({
+      name: 'Machine Learning',
+      description: 'Models that learn from data',
+      color: '#3178c6',
+      parent: 'ai',
+    });
+  });
+
+  it('should throw error for missing required name', () => {
+    const content = `---
+color: "#fff"
+---`;
+
+    expect(() => parseTagFrontmatter(content)).toThrow('Invalid tag frontmatter');
+  });
+
+  it('should throw error for invalid colors', () => {
+    const content = `---
+name: "Machine Learning"
+color: "blue"
+---`;
+
+    expect(() => parseTagFrontmatter(content)).toThrow('Invalid tag frontmatter');
+  });
+});
+
+describe('parseCategoryFrontmatter', () => {
+  it('should parse valid category frontmatter', () => {
+    const content = `---
+name: "Frontend"
+description: "Building user interfaces"
+parent: "engineering"
+---`;
+
+    expect(parseCategoryFrontmatter(content)).toEqual({
+      name: 'Frontend',
+      description: 'Building user interfaces',
+      parent: 'engineering',
+    });
+  });
+
+  it('should throw error for missing required name', () => {
+    const content = `---
+parent: "engineering"
+---`;
+
+    expect(() => parseCategoryFrontmatter(content)).toThrow('Invalid category frontmatter');
+  });
+});
+
 describe('parsePageFrontmatter', () => {
   it('should parse valid page frontmatter', () => {
     const content = `---
@@ -319,6 +448,38 @@ Content`;
   });
 });
 
+describe('parseEntryFrontmatter', () => {
+  const jobType = {
+    name: 'job',
+    directory: 'jobs',
+    schema: z.object({
+      title: z.string(),
+      remote: z.boolean().default(false),
+    }),
+  };
+
+  it('should validate frontmatter with the content type schema', () => {
+    const content = `---
+title: "Backend Engineer"
+---
+
+We're hiring.`;
+
+    const result = parseEntryFrontmatter(jobType, content);
+
+    expect(result.data).toEqual({ title: 'Backend Engineer', remote: false });
+    expect(result.content.trim()).toBe("We're hiring.");
+  });
+
+  it('should name the content type in validation errors', () => {
+    const content = `---
+remote: true
+---`;
+
+    expect(() => parseEntryFrontmatter(jobType, content)).toThrow('Invalid job frontmatter');
+  });
+});
+
 // ===========================================================================
 // Markdown Rendering Tests
 // ===========================================================================
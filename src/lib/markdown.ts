@@ -19,11 +19,21 @@ import remarkGfm from 'remark-gfm';
 import remarkRehype from 'remark-rehype';
 import rehypeHighlight from 'rehype-highlight';
 import rehypeStringify from 'rehype-stringify';
-import type { PostFrontmatter, AuthorFrontmatter, PageFrontmatter } from '@/types';
+import type { z } from 'zod';
+import type {
+  PostFrontmatter,
+  AuthorFrontmatter,
+  PageFrontmatter,
+  TagFrontmatter,
+  CategoryFrontmatter,
+} from '@/types';
+import type { ContentType } from './content-types';
 import {
   postFrontmatterSchema,
   authorFrontmatterSchema,
   pageFrontmatterSchema,
+  tagFrontmatterSchema,
+  categoryFrontmatterSchema,
 } from './validation';
 
 // ===========================================================================
@@ -109,6 +119,73 @@ export function parsePageFrontmatter(fileContent: string): {
   }
 }
 
+/**
+ * Parse tag frontmatter with Zod validation
+ *
+ * @param fileContent - Raw markdown file content
+ * @returns Validated tag frontmatter
+ * @throws {Error} If frontmatter validation fails
+ */
+export function parseTagFrontmatter(fileContent: string): TagFrontmatter {
+  const { data } = parseMarkdownFile(fileContent);
+
+  try {
+    const validatedData = tagFrontmatterSchema.parse(data);
+    return validatedData;
+  } catch (error) {
+    throw new Error(
+      `Invalid tag frontmatter: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Parse category frontmatter with Zod validation
+ *
+ * @param fileContent - Raw markdown file content
+ * @returns Validated category frontmatter
+ * @throws {Error} If frontmatter validation fails
+ */
+export function parseCategoryFrontmatter(fileContent: string): CategoryFrontmatter {
+  const { data } = parseMarkdownFile(fileContent);
+
+  try {
+    const validatedData = categoryFrontmatterSchema.parse(data);
+    return validatedData;
+  } catch (error) {
+    throw new Error(
+      `Invalid category frontmatter: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Parse custom content type frontmatter with its Zod schema
+ *
+ * @param type - Content type declared in hexcms.config.ts
+ * @param fileContent - Raw markdown file content
+ * @returns Validated frontmatter and content
+ * @throws {Error} If frontmatter validation fails
+ */
+export function parseEntryFrontmatter(
+  type: ContentType,
+  fileContent: string
+): {
+  data: Record<string, unknown>;
+  content: string;
+} {
+  const { data, content } = parseMarkdownFile(fileContent);
+
+  try {
+    const validatedData = (type.schema as z.ZodType<Record<string, unknown>>).parse(data);
+    return { data: validatedData, content };
+  } catch (error) {
+    throw new Error(
+      `Invalid ${type.name} frontmatter: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
 // ===========================================================================
 // Markdown Rendering
 // ===========================================================================
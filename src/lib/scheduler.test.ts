@@ -0,0 +1,160 @@
+/**
+ * Tests for Scheduled Publishing and Expiry
+ *
+ * This test suite validates that due scheduled posts are published and
+ * expired posts and pages are archived in every sync environment, and that
+ * each change is logged.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock database adapter
+const { mockSql } = vi.hoisted(() => ({
+  mockSql: vi.fn(),
+}));
+
+vi.mock('./db-adapter', () => ({
+  sql: mockSql,
+  withDatabase: (_target: unknown, callback: () => unknown) => callback(),
+}));
+
+import { runScheduler } from './scheduler';
+
+/**
+ * Query text of a call, for tagged template and dynamic queries alike
+ */
+function queryText(query: string | TemplateStringsArray): string {
+  return typeof query === 'string' ? query : query.join('?');
+}
+
+/**
+ * Calls whose query contains the given SQL
+ */
+function callsMatching(text: string) {
+  return mockSql.mock.calls.filter(([query]) => queryText(query).includes(text));
+}
+
+/**
+ * Answer UPDATE queries per table, everything else with no rows
+ */
+function mockUpdates(rows: { posts?: unknown[]; scheduled?: unknown[]; pages?: unknown[] }) {
+  mockSql.mockImplementation(async (query: string | TemplateStringsArray) => {
+    const text = queryText(query);
+    if (text.includes("SET status = 'published'")) return rows.scheduled ?? [];
+    if (text.includes('UPDATE posts')) return rows.posts ?? [];
+    if (text.includes('UPDATE pages')) return rows.pages ?? [];
+    return [];
+  });
+}
+
+describe('runScheduler', () => {
+  const originalEnvironments = process.env.SYNC_ENVIRONMENTS;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSql.mockReset();
+    delete process.env.SYNC_ENVIRONMENTS;
+  });
+
+  afterEach(() => {
+    if (originalEnvironments === undefined) {
+      delete process.env.SYNC_ENVIRONMENTS;
+    } else {
+      process.env.SYNC_ENVIRONMENTS = originalEnvironments;
+    }
+  });
+
+  it('should publish due posts and log each one', async () => {
+    mockUpdates({
+      scheduled: [
+        { id: 'post-1', slug: 'launch', published_at: '2024-01-15T00:00:00Z' },
+        { id: 'post-2', slug: 'follow-up', published_at: '2024-01-15T00:00:00Z' },
+      ],
+    });
+
+    const results = await runScheduler();
+
+    expect(results).toEqual([
+      {
+        environment: 'production',
+        published: ['launch', 'follow-up'],
+        archived: { posts: [], pages: [] },
+      },
+    ]);
+
+    const [update] = callsMatching("SET status = 'published'");
+    expect(queryText(update[0])).toContain("WHERE status = 'scheduled'");
+    expect(queryText(update[0])).toContain('published_at <= NOW()');
+
+    const logs = callsMatching('INSERT INTO sync_logs');
+    expect(logs).toHaveLength(2);
+    expect(logs[0]).toContain('update');
+    expect(logs[0]).toContain(null);
+    expect(JSON.parse(logs[0].at(-1))).toMatchObject({
+      slug: 'launch',
+      status: 'published',
+      reason: 'scheduled',
+      environment: 'production',
+    });
+  });
+
+  it('should archive expired posts and pages and log each one', async () => {
+    mockUpdates({
+      posts: [{ id: 'post-1', slug: 'sale', expires_at: '2024-02-01T00:00:00Z' }],
+      pages: [{ id: 'page-1', slug: 'conference', expires_at: '2024-02-01T00:00:00Z' }],
+    });
+
+    const [result] = await runScheduler();
+
+    expect(result.archived).toEqual({ posts: ['sale'], pages: ['conference'] });
+
+    const [archivePosts] = callsMatching("SET status = 'archived'");
+    expect(archivePosts[0]).toContain("WHERE status IN ('published', 'scheduled')");
+    expect(archivePosts[0]).toContain('expires_at <= NOW()');
+
+    const logs = callsMatching('INSERT INTO sync_logs');
+    expect(logs.map((call) => call[2])).toEqual(['post', 'page']);
+    expect(JSON.parse(logs[1].at(-1))).toMatchObject({
+      slug: 'conference',
+      status: 'archived',
+      reason: 'expired',
+    });
+  });
+
+  it('should not publish posts that expired before going live', async () => {
+    mockUpdates({});
+
+    await runScheduler();
+
+    const [update] = callsMatching("SET status = 'published'");
+    expect(queryText(update[0])).toContain('expires_at IS NULL OR expires_at > NOW()');
+  });
+
+  it('should run in every sync environment', async () => {
+    process.env.SYNC_ENVIRONMENTS = 'main:production,staging:staging';
+    mockUpdates({});
+
+    const results = await runScheduler();
+
+    expect(results.map((result) => result.environment)).toEqual(['production', 'staging']);
+    expect(callsMatching("SET status = 'published'")).toHaveLength(2);
+    expect(callsMatching('UPDATE pages')).toHaveLength(2);
+  });
+
+  it('should not log anything when nothing is due', async () => {
+    mockUpdates({});
+
+    await runScheduler();
+
+    expect(callsMatching('INSERT INTO sync_logs')).toHaveLength(0);
+  });
+
+  it('should throw a descriptive error when publishing fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockSql.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(runScheduler()).rejects.toThrow(
+      'Failed to publish scheduled posts: connection lost'
+    );
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Scheduled Publishing and Expiry
+ *
+ * Posts synced with `status: published` and a publishedAt date in the future
+ * are stored as `scheduled` (see upsertPost) and stay out of public queries.
+ * Posts and pages with an expiresAt date drop out of public queries once it
+ * passes. runScheduler publishes scheduled posts whose date has arrived and
+ * archives expired content. It runs from POST /api/scheduler, which also
+ * revalidates cached pages, and is meant to be triggered on a schedule, e.g.
+ * with `npm run publish:scheduled` from cron.
+ */
+
+import { sql } from './db-adapter';
+import { getSyncEnvironments } from './environments';
+import { logSync, runInEnvironment } from './sync';
+
+/**
+ * Scheduler changes in one sync environment
+ */
+export interface SchedulerResult {
+  environment: string;
+  published: string[]; // Slugs of the posts that went live
+  archived: {
+    posts: string[]; // Slugs of the posts that expired
+    pages: string[]; // Slugs of the pages that expired
+  };
+}
+
+// ===========================================================================
+// Scheduler
+// ===========================================================================
+
+/**
+ * Publish due scheduled posts and archive expired content
+ *
+ * Runs against every configured sync environment, since each one has its
+ * own content. Each change is logged.
+ *
+ * @returns Published and archived slugs per environment
+ * @throws {Error} If publishing or archiving fails
+ */
+export async function runScheduler(): Promise<SchedulerResult[]> {
+  const results: SchedulerResult[] = [];
+
+  for (const environment of getSyncEnvironments()) {
+    const result = await runInEnvironment(environment, environment.branch, async () => ({
+      environment: environment.name,
+      published: await publishDuePosts(),
+      archived: {
+        posts: await archiveExpired('post'),
+        pages: await archiveExpired('page'),
+      },
+    }));
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Publish due posts in the current database
+ *
+ * Posts that expired before they went live are left for archiveExpired.
+ *
+ * @returns Slugs of the posts that went live
+ */
+async function publishDuePosts(): Promise<string[]> {
+  try {
+    const rows = await sql`
+      UPDATE posts
+      SET status = 'published', updated_at = NOW()
+      WHERE status = 'scheduled'
+        AND published_at <= NOW()
+        AND (expires_at IS NULL OR expires_at > NOW())
+      RETURNING id, slug, published_at
+    `;
+
+    for (const row of rows) {
+      await logSync('update', 'post', row.id, null, 'success', {
+        slug: row.slug,
+        status: 'published',
+        reason: 'scheduled',
+        publishedAt: row.published_at,
+      });
+    }
+
+    return rows.map((row: { slug: string }) => row.slug);
+  } catch (error) {
+    console.error('Error publishing scheduled posts:', error);
+    throw new Error(`Failed to publish scheduled posts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Archive expired posts or pages in the current database
+ *
+ * @param resourceType - Type of content to archive
+ * @returns Slugs of the archived rows
+ */
+async function archiveExpired(resourceType: 'post' | 'page'): Promise<string[]> {
+  try {
+    const table = resourceType === 'post' ? 'posts' : 'pages';
+    const rows: Array<{ id: string; slug: string; expires_at: string }> = await (sql as any)(
+      `UPDATE ${table}
+       SET status = 'archived', updated_at = NOW()
+       WHERE status IN ('published', 'scheduled')
+         AND expires_at <= NOW()
+       RETURNING id, slug, expires_at`
+    );
+
+    for (const row of rows) {
+      await logSync('update', resourceType, row.id, null, 'success', {
+        slug: row.slug,
+        status: 'archived',
+        reason: 'expired',
+        expiresAt: row.expires_at,
+      });
+    }
+
+    return rows.map((row) => row.slug);
+  } catch (error) {
+    console.error(`Error archiving expired ${resourceType}s:`, error);
+    throw new Error(`Failed to archive expired ${resourceType}s: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Tests for Gitea / Forgejo Content Source
+ *
+ * This test suite validates file fetching, paginated tree listing, and
+ * tree-based commit comparison against a mocked fetch.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+import { createGiteaSource } from './gitea';
+
+const source = createGiteaSource({
+  baseUrl: 'https://gitea.example.com/',
+  token: 'gitea-token',
+  owner: 'owner',
+  repo: 'content',
+});
+
+const repoUrl = 'https://gitea.example.com/api/v1/repos/owner/content';
+
+type TreeItem = { path: string; type: 'blob' | 'tree'; sha: string };
+
+/**
+ * Build a JSON API response
+ */
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200 });
+}
+
+function notFound(): Response {
+  return new Response('{"message":"not found"}', { status: 404, statusText: 'Not Found' });
+}
+
+/**
+ * Serve refs and paginated trees like the Gitea API
+ *
+ * @param trees - Tree pages per commit SHA; refs resolve to themselves
+ */
+function serveRepository(trees: Record<string, TreeItem[][]>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const { pathname, searchParams } = new URL(url);
+
+    if (pathname.endsWith('/commits')) {
+      const sha = searchParams.get('sha')!;
+      return sha in trees ? jsonResponse([{ sha }]) : notFound();
+    }
+
+    const sha = pathname.split('/git/trees/')[1];
+    const pages = trees[sha];
+    const page = Number(searchParams.get('page'));
+    return jsonResponse({ tree: pages[page - 1], truncated: page < pages.length, page });
+  });
+}
+
+// ===========================================================================
+// File Fetching Tests
+// ===========================================================================
+
+describe('fetchFile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fetch raw file content with the access token', async () => {
+    mockFetch.mockResolvedValue(new Response('---\ntitle: Hello\n---\n'));
+
+    const result = await source.fetchFile('content/posts/hello world.md', 'abc123');
+
+    expect(result).toBe('---\ntitle: Hello\n---\n');
+    expect(mockFetch).toHaveBeenCalledWith(
+      `${repoUrl}/raw/content/posts/hello%20world.md?ref=abc123`,
+      { headers: { Authorization: 'token gitea-token' } }
+    );
+  });
+
+  it('should report missing files', async () => {
+    mockFetch.mockResolvedValue(notFound());
+
+    await expect(source.fetchFile('content/posts/missing.md', 'abc123')).rejects.toThrow(
+      'Failed to fetch file from Gitea: 404 Not Found'
+    );
+  });
+});
+
+// ===========================================================================
+// Listing Tests
+// ===========================================================================
+
+describe('listFiles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should read every page of a truncated tree and keep blobs under the directory', async () => {
+    serveRepository({
+      main: [
+        [
+          { path: 'content', type: 'tree', sha: 't1' },
+          { path: 'content/posts/hello.md', type: 'blob', sha: 'b1' },
+          { path: 'README.md', type: 'blob', sha: 'b2' },
+        ],
+        [
+          { path: 'content/authors/john-doe.md', type: 'blob', sha: 'b3' },
+          { path: 'contentious.md', type: 'blob', sha: 'b4' },
+        ],
+      ],
+    });
+
+    const files = await source.listFiles('main', 'content');
+
+    expect(files).toEqual(['content/posts/hello.md', 'content/authors/john-doe.md']);
+
+    const treeRequests = mockFetch.mock.calls
+      .map(([url]) => new URL(url))
+      .filter((url) => url.pathname.includes('/git/trees/'));
+    expect(treeRequests.map((url) => url.searchParams.get('page'))).toEqual(['1', '2']);
+    expect(treeRequests[0].searchParams.get('recursive')).toBe('true');
+  });
+
+  it('should return empty array for a missing directory', async () => {
+    serveRepository({ main: [[{ path: 'README.md', type: 'blob', sha: 'b1' }]] });
+
+    expect(await source.listFiles('main', 'content')).toEqual([]);
+  });
+
+  it('should report unknown refs', async () => {
+    serveRepository({});
+
+    await expect(source.listFiles('missing', 'content')).rejects.toThrow(
+      'Failed to resolve ref on Gitea: 404 Not Found'
+    );
+  });
+});
+
+// ===========================================================================
+// Ref Resolution Tests
+// ===========================================================================
+
+describe('resolveRef', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should resolve a branch to its latest commit SHA', async () => {
+    mockFetch.mockResolvedValue(jsonResponse([{ sha: 'def456' }]));
+
+    expect(await source.resolveRef('main')).toBe('def456');
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      `${repoUrl}/commits?sha=main&limit=1&stat=false&files=false`
+    );
+  });
+
+  it('should report refs without commits', async () => {
+    mockFetch.mockResolvedValue(jsonResponse([]));
+
+    await expect(source.resolveRef('empty')).rejects.toThrow(
+      'Failed to resolve ref on Gitea: Unknown ref: empty'
+    );
+  });
+});
+
+// ===========================================================================
+// Diff Tests
+// ===========================================================================
+
+describe('diff', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should diff the trees and pair identical blobs as renames', async () => {
+    serveRepository({
+      abc123: [
+        [
+          { path: 'content/posts/edited.md', type: 'blob', sha: 'edit-v1' },
+          { path: 'content/posts/same.md', type: 'blob', sha: 'same' },
+          { path: 'content/posts/old-name.md', type: 'blob', sha: 'moved' },
+          { path: 'content/posts/gone.md', type: 'blob', sha: 'gone' },
+        ],
+      ],
+      def456: [
+        [
+          { path: 'content/posts/edited.md', type: 'blob', sha: 'edit-v2' },
+          { path: 'content/posts/same.md', type: 'blob', sha: 'same' },
+          { path: 'content/posts/new-name.md', type: 'blob', sha: 'moved' },
+          { path: 'content/posts/new.md', type: 'blob', sha: 'new' },
+        ],
+      ],
+    });
+
+    const changes = await source.diff('abc123', 'def456');
+
+    expect(changes).toEqual({
+      upserted: ['content/posts/edited.md', 'content/posts/new.md'],
+      removed: ['content/posts/gone.md'],
+      renamed: [{ from: 'content/posts/old-name.md', to: 'content/posts/new-name.md' }],
+    });
+  });
+
+  it('should handle API errors', async () => {
+    mockFetch.mockResolvedValue(new Response('', { status: 500, statusText: 'Server Error' }));
+
+    await expect(source.diff('abc123', 'def456')).rejects.toThrow(
+      'Failed to resolve ref on Gitea: 500 Server Error'
+    );
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Gitea / Forgejo Content Source
+ *
+ * Reads repository content through the Gitea REST API (v1), which Forgejo
+ * shares. Works with self-hosted instances and Codeberg.
+ */
+
+import type { ChangeSet, ContentSource } from '@/types';
+
+// ===========================================================================
+// Configuration
+// ===========================================================================
+
+export interface GiteaSourceConfig {
+  baseUrl: string; // e.g. https://gitea.example.com
+  token?: string;
+  owner: string;
+  repo: string;
+  branch?: string; // Default: main
+}
+
+interface GiteaTreeResponse {
+  tree: Array<{ path: string; type: 'blob' | 'tree' | 'commit'; sha: string }>;
+  truncated: boolean;
+  page: number;
+}
+
+// ===========================================================================
+// Source Factory
+// ===========================================================================
+
+/**
+ * Create a Gitea/Forgejo content source
+ *
+ * @param config - Instance URL, repository and credentials
+ * @returns Content source backed by the Gitea API
+ */
+export function createGiteaSource(config: GiteaSourceConfig): ContentSource {
+  const repoUrl = `${config.baseUrl.replace(/\/$/, '')}/api/v1/repos/${encodeURIComponent(config.owner)}/${encodeURIComponent(config.repo)}`;
+  const headers: Record<string, string> = config.token
+    ? { Authorization: `token ${config.token}` }
+    : {};
+
+  async function request(path: string): Promise<Response> {
+    const response = await fetch(`${repoUrl}${path}`, { headers });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+
+  async function resolveRef(ref: string): Promise<string> {
+    try {
+      const params = new URLSearchParams({
+        sha: ref,
+        limit: '1',
+        stat: 'false',
+        files: 'false',
+      });
+      const response = await request(`/commits?${params}`);
+      const commits: Array<{ sha: string }> = await response.json();
+      if (commits.length === 0) {
+        throw new Error(`Unknown ref: ${ref}`);
+      }
+      return commits[0].sha;
+    } catch (error) {
+      throw new Error(
+        `Failed to resolve ref on Gitea: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Map every blob path under `dir` to its blob SHA
+   */
+  async function getTree(ref: string, dir: string): Promise<Map<string, string>> {
+    const sha = await resolveRef(ref);
+    const blobs = new Map<string, string>();
+    const prefix = dir ? `${dir.replace(/\/$/, '')}/` : '';
+
+    try {
+      // Large trees are paginated and flagged as truncated
+      let page = 1;
+      let truncated = true;
+      while (truncated) {
+        const params = new URLSearchParams({
+          recursive: 'true',
+          per_page: '1000',
+          page: String(page),
+        });
+        const response = await request(`/git/trees/${sha}?${params}`);
+        const data: GiteaTreeResponse = await response.json();
+
+        for (const item of data.tree) {
+          if (item.type === 'blob' && item.path.startsWith(prefix)) {
+            blobs.set(item.path, item.sha);
+          }
+        }
+
+        truncated = data.truncated;
+        page++;
+      }
+
+      return blobs;
+    } catch (error) {
+      throw new Error(
+        `Failed to list files on Gitea: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  return {
+    type: 'gitea',
+    description: `gitea:${config.owner}/${config.repo}`,
+    defaultRef: config.branch || 'main',
+
+    resolveRef,
+
+    async listFiles(ref: string, dir: string = ''): Promise<string[]> {
+      return [...(await getTree(ref, dir)).keys()];
+    },
+
+    async fetchFile(path: string, ref: string): Promise<string> {
+      try {
+        const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+        const response = await request(
+          `/raw/${encodedPath}?ref=${encodeURIComponent(ref)}`
+        );
+        return await response.text();
+      } catch (error) {
+        throw new Error(
+          `Failed to fetch file from Gitea: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async diff(base: string, head: string): Promise<ChangeSet> {
+      // Gitea's compare response varies across versions, so diff the trees
+      // and pair identical removed/added blobs as renames
+      const [before, after] = await Promise.all([
+        getTree(base, ''),
+        getTree(head, ''),
+      ]);
+
+      const changes: ChangeSet = { upserted: [], removed: [], renamed: [] };
+
+      // Removed blobs, keyed by SHA, so identical added blobs count as renames
+      const removedBySha = new Map<string, string>();
+      for (const [path, sha] of before) {
+        if (!after.has(path)) {
+          removedBySha.set(sha, path);
+        }
+      }
+
+      for (const [path, sha] of after) {
+        if (before.has(path)) {
+          if (before.get(path) !== sha) {
+            changes.upserted.push(path);
+          }
+        } else if (removedBySha.has(sha)) {
+          changes.renamed.push({ from: removedBySha.get(sha)!, to: path });
+          removedBySha.delete(sha);
+        } else {
+          changes.upserted.push(path);
+        }
+      }
+
+      changes.removed.push(...removedBySha.values());
+
+      return changes;
+    },
+  };
+}
@@ -0,0 +1,368 @@
+/**
+ * Tests for GitHub Content Source
+ *
+ * This test suite validates file fetching, directory listing, and commit
+ * comparison against a mocked Octokit client.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { gzipSync } from 'zlib';
+
+const { mockGetContent, mockCompare, mockGetTree, mockDownloadTarball, mockWrap } = vi.hoisted(() => ({
+  mockGetContent: vi.fn(),
+  mockCompare: vi.fn(),
+  mockGetTree: vi.fn(),
+  mockDownloadTarball: vi.fn(),
+  mockWrap: vi.fn(),
+}));
+
+vi.mock('@octokit/rest', () => ({
+  Octokit: class MockOctokit {
+    repos = {
+      getContent: mockGetContent,
+      compareCommitsWithBasehead: mockCompare,
+      downloadTarballArchive: mockDownloadTarball,
+    };
+    git = {
+      getTree: mockGetTree,
+    };
+    hook = {
+      wrap: mockWrap,
+    };
+    constructor() {}
+  },
+}));
+
+import { createGitHubSource, extractTarball } from './github';
+
+const source = createGitHubSource({ owner: 'owner', repo: 'content' });
+
+/**
+ * Create a source and return the request hook it installs
+ *
+ * Each source tracks its own rate limit, so tests don't share back-off state.
+ */
+function createRequestHook() {
+  createGitHubSource({ owner: 'owner', repo: 'content', rateLimitThreshold: 50 });
+  return mockWrap.mock.calls.at(-1)![1] as (
+    request: (options: unknown) => Promise<unknown>,
+    options: unknown
+  ) => Promise<unknown>;
+}
+
+/**
+ * Build a tar entry (header block plus padded data)
+ */
+function tarEntry(name: string, content: string, typeFlag = '0'): Buffer {
+  const data = Buffer.from(content);
+  const header = Buffer.alloc(512);
+  header.write(name.slice(0, 100), 0);
+  header.write('0000644\0', 100);
+  header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124);
+  header.write(typeFlag, 156);
+  header.write('ustar\0', 257);
+  header.write('00', 263);
+
+  const padding = Buffer.alloc((512 - (data.length % 512)) % 512);
+  return Buffer.concat([header, data, padding]);
+}
+
+/**
+ * Build a pax extended header entry setting the next entry's path
+ */
+function paxPathEntry(path: string): Buffer {
+  const body = ` path=${path}\n`;
+  let length = body.length;
+  length += String(length + String(length).length).length;
+  return tarEntry('pax_header', `${length}${body}`, 'x');
+}
+
+// ===========================================================================
+// File Fetching Tests
+// ===========================================================================
+
+describe('fetchFile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fetch and decode file content', async () => {
+    const fileContent = 'Test content';
+    const base64Content = Buffer.from(fileContent).toString('base64');
+
+    mockGetContent.mockResolvedValue({
+      data: {
+        type: 'file',
+        content: base64Content,
+      },
+    });
+
+    const result = await source.fetchFile('content/posts/test.md', 'abc123');
+
+    expect(result).toBe(fileContent);
+    expect(mockGetContent).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'content',
+      path: 'content/posts/test.md',
+      ref: 'abc123',
+    });
+  });
+
+  it('should throw error for directory paths', async () => {
+    mockGetContent.mockResolvedValue({
+      data: [
+        { type: 'file', name: 'file1.md' },
+        { type: 'file', name: 'file2.md' },
+      ],
+    });
+
+    await expect(source.fetchFile('content/posts', 'abc123')).rejects.toThrow(
+      'Path is not a file'
+    );
+  });
+
+  it('should handle API errors', async () => {
+    mockGetContent.mockRejectedValue(new Error('Not found'));
+
+    await expect(source.fetchFile('invalid/path.md', 'abc123')).rejects.toThrow(
+      'Failed to fetch file from GitHub'
+    );
+  });
+});
+
+// ===========================================================================
+// Listing Tests
+// ===========================================================================
+
+describe('listFiles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list files under a directory from the recursive tree', async () => {
+    mockGetTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [
+          { type: 'tree', path: 'content/posts' },
+          { type: 'blob', path: 'content/posts/hello.md' },
+          { type: 'blob', path: 'content/README.md' },
+          { type: 'blob', path: 'src/index.ts' },
+        ],
+      },
+    });
+
+    const result = await source.listFiles('main', 'content');
+
+    expect(result).toEqual(['content/posts/hello.md', 'content/README.md']);
+    expect(mockGetTree).toHaveBeenCalledWith(
+      expect.objectContaining({ tree_sha: 'main', recursive: 'true' })
+    );
+    expect(mockGetContent).not.toHaveBeenCalled();
+  });
+
+  it('should list directory by directory when the tree is truncated', async () => {
+    mockGetTree.mockResolvedValue({ data: { truncated: true, tree: [] } });
+    mockGetContent.mockImplementation(async ({ path }: { path: string }) => {
+      if (path === 'content') {
+        return {
+          data: [
+            { type: 'dir', path: 'content/posts' },
+            { type: 'file', path: 'content/README.md' },
+          ],
+        };
+      }
+      return { data: [{ type: 'file', path: 'content/posts/hello.md' }] };
+    });
+
+    const result = await source.listFiles('main', 'content');
+
+    expect(result).toEqual(['content/posts/hello.md', 'content/README.md']);
+  });
+
+  it('should return empty array for missing directories', async () => {
+    mockGetTree.mockResolvedValue({
+      data: { truncated: false, tree: [{ type: 'blob', path: 'README.md' }] },
+    });
+
+    expect(await source.listFiles('main', 'content/missing')).toEqual([]);
+  });
+});
+
+// ===========================================================================
+// Bulk Fetch Tests
+// ===========================================================================
+
+describe('fetchTree', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should read a directory from the repository tarball', async () => {
+    const longPath = `content/posts/${'a'.repeat(120)}.md`;
+    const archive = gzipSync(Buffer.concat([
+      tarEntry('owner-content-abc123/', '', '5'),
+      tarEntry('owner-content-abc123/content/posts/hello.md', '# Hello'),
+      paxPathEntry(`owner-content-abc123/${longPath}`),
+      tarEntry('owner-content-abc123/content/posts/truncated-name', '# Long'),
+      tarEntry('owner-content-abc123/src/index.ts', 'export {};'),
+      Buffer.alloc(1024),
+    ]));
+    mockDownloadTarball.mockResolvedValue({ data: archive.buffer.slice(
+      archive.byteOffset,
+      archive.byteOffset + archive.byteLength
+    ) });
+
+    const files = await source.fetchTree!('abc123', 'content');
+
+    expect(mockDownloadTarball).toHaveBeenCalledWith({ owner: 'owner', repo: 'content', ref: 'abc123' });
+    expect(files).toEqual(new Map([
+      ['content/posts/hello.md', '# Hello'],
+      [longPath, '# Long'],
+    ]));
+  });
+
+  it('should handle API errors', async () => {
+    mockDownloadTarball.mockRejectedValue(new Error('Not found'));
+
+    await expect(source.fetchTree!('abc123', 'content')).rejects.toThrow(
+      'Failed to download archive from GitHub'
+    );
+  });
+});
+
+describe('extractTarball', () => {
+  it('should return every file when no directory is given', async () => {
+    const archive = gzipSync(Buffer.concat([
+      tarEntry('repo-abc/README.md', 'readme'),
+      tarEntry('repo-abc/content/pages/about.md', 'about'),
+      Buffer.alloc(1024),
+    ]));
+
+    expect([...(await extractTarball(archive)).keys()]).toEqual([
+      'README.md',
+      'content/pages/about.md',
+    ]);
+  });
+
+  it('should read entries split across decompressed chunks', async () => {
+    // Large enough that zlib emits several chunks, with entries straddling them
+    const assets = 'x'.repeat(200_000);
+    const post = 'y'.repeat(40_000);
+    const archive = gzipSync(Buffer.concat([
+      tarEntry('repo-abc/assets/bundle.js', assets),
+      tarEntry('repo-abc/content/posts/long.md', post),
+      tarEntry('repo-abc/assets/other.js', assets),
+      Buffer.alloc(1024),
+    ]));
+
+    const files = await extractTarball(archive, 'content');
+
+    expect([...files.keys()]).toEqual(['content/posts/long.md']);
+    expect(files.get('content/posts/long.md')).toBe(post);
+  });
+});
+
+// ===========================================================================
+// Rate Limit Tests
+// ===========================================================================
+
+describe('rate limit back-off', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should wait for the reset once few requests remain', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 60;
+    const requestHook = createRequestHook();
+    const request = vi.fn().mockResolvedValue({
+      headers: { 'x-ratelimit-remaining': '10', 'x-ratelimit-reset': String(reset) },
+    });
+
+    await requestHook(request, {});
+    expect(request).toHaveBeenCalledTimes(1);
+
+    const next = requestHook(request, {});
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(32_000);
+    await next;
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry a request rejected by the rate limit', async () => {
+    const requestHook = createRequestHook();
+    const limited = Object.assign(new Error('API rate limit exceeded'), {
+      status: 403,
+      response: { headers: { 'x-ratelimit-remaining': '0', 'retry-after': '5' } },
+    });
+    const request = vi.fn()
+      .mockRejectedValueOnce(limited)
+      .mockResolvedValueOnce({ headers: { 'x-ratelimit-remaining': '4000' } });
+
+    const result = requestHook(request, {});
+    await vi.advanceTimersByTimeAsync(6_000);
+
+    await expect(result).resolves.toEqual({ headers: { 'x-ratelimit-remaining': '4000' } });
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry other errors', async () => {
+    const requestHook = createRequestHook();
+    const request = vi.fn().mockRejectedValue(
+      Object.assign(new Error('Not Found'), { status: 404, response: { headers: {} } })
+    );
+
+    await expect(requestHook(request, {})).rejects.toThrow('Not Found');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ===========================================================================
+// Diff Tests
+// ===========================================================================
+
+describe('diff', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should map compare statuses to a change set', async () => {
+    mockCompare.mockResolvedValue({
+      data: {
+        files: [
+          { filename: 'content/posts/new.md', status: 'added' },
+          { filename: 'content/posts/gone.md', status: 'removed' },
+          {
+            filename: 'content/posts/2024-01-16-moved.md',
+            previous_filename: 'content/posts/2024-01-15-moved.md',
+            status: 'renamed',
+          },
+        ],
+      },
+    });
+
+    const result = await source.diff('abc123', 'def456');
+
+    expect(mockCompare).toHaveBeenCalledWith(
+      expect.objectContaining({ basehead: 'abc123...def456' })
+    );
+    expect(result).toEqual({
+      upserted: ['content/posts/new.md'],
+      removed: ['content/posts/gone.md'],
+      renamed: [
+        {
+          from: 'content/posts/2024-01-15-moved.md',
+          to: 'content/posts/2024-01-16-moved.md',
+        },
+      ],
+    });
+  });
+});
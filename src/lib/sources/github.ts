@@ -0,0 +1,407 @@
+/**
+ * GitHub Content Source
+ *
+ * Reads repository content through the GitHub REST API (Octokit).
+ *
+ * Listing uses the recursive git trees API and bulk fetches download the
+ * repository tarball, so a full sync costs a handful of requests rather than
+ * one per file. Requests back off automatically when the rate limit runs low.
+ */
+
+import { createGunzip } from 'zlib';
+import { Octokit } from '@octokit/rest';
+import type { ChangeSet, ContentSource } from '@/types';
+
+// ===========================================================================
+// Configuration
+// ===========================================================================
+
+export interface GitHubSourceConfig {
+  token?: string;
+  owner: string;
+  repo: string;
+  branch?: string; // Default: main
+  rateLimitThreshold?: number; // Back off below this many remaining requests (default: 50)
+}
+
+const DEFAULT_RATE_LIMIT_THRESHOLD = 50;
+
+// Rate-limited requests are retried this many times after waiting
+const RATE_LIMIT_RETRIES = 3;
+
+// Margin added to the reset time, since GitHub's clock may run ahead of ours
+const RATE_LIMIT_RESET_MARGIN_MS = 1000;
+
+const TAR_BLOCK_SIZE = 512;
+
+// ===========================================================================
+// Source Factory
+// ===========================================================================
+
+/**
+ * Create a GitHub content source
+ *
+ * @param config - Repository and credentials
+ * @returns Content source backed by the GitHub API
+ */
+export function createGitHubSource(config: GitHubSourceConfig): ContentSource {
+  const octokit = new Octokit({ auth: config.token });
+  const { owner, repo } = config;
+
+  installRateLimitBackoff(octokit, config.rateLimitThreshold ?? DEFAULT_RATE_LIMIT_THRESHOLD);
+
+  return {
+    type: 'github',
+    description: `github:${owner}/${repo}`,
+    defaultRef: config.branch || 'main',
+
+    async resolveRef(ref: string): Promise<string> {
+      try {
+        const { data } = await octokit.repos.getCommit({ owner, repo, ref });
+        return data.sha;
+      } catch (error) {
+        throw new Error(
+          `Failed to resolve ref on GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async listFiles(ref: string, dir: string = ''): Promise<string[]> {
+      try {
+        const { data } = await octokit.git.getTree({
+          owner,
+          repo,
+          tree_sha: ref,
+          recursive: 'true',
+        });
+
+        // Trees too large for one response are listed directory by directory
+        if (data.truncated) {
+          return listDirectory(octokit, owner, repo, ref, dir);
+        }
+
+        const prefix = dir ? `${dir.replace(/\/$/, '')}/` : '';
+        return data.tree
+          .filter((item) => item.type === 'blob' && item.path?.startsWith(prefix))
+          .map((item) => item.path!);
+      } catch (error) {
+        throw new Error(
+          `Failed to list files on GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async fetchTree(ref: string, dir: string = ''): Promise<Map<string, string>> {
+      try {
+        const { data } = await octokit.repos.downloadTarballArchive({ owner, repo, ref });
+        return await extractTarball(Buffer.from(data as ArrayBuffer), dir);
+      } catch (error) {
+        throw new Error(
+          `Failed to download archive from GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async fetchFile(path: string, ref: string): Promise<string> {
+      try {
+        const { data } = await octokit.repos.getContent({
+          owner,
+          repo,
+          path,
+          ref,
+        });
+
+        // Data should be a file, not a directory
+        if (Array.isArray(data) || data.type !== 'file') {
+          throw new Error(`Path is not a file: ${path}`);
+        }
+
+        // Decode base64 content
+        return Buffer.from(data.content, 'base64').toString('utf-8');
+      } catch (error) {
+        throw new Error(
+          `Failed to fetch file from GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async diff(base: string, head: string): Promise<ChangeSet> {
+      try {
+        const { data } = await octokit.repos.compareCommitsWithBasehead({
+          owner,
+          repo,
+          basehead: `${base}...${head}`,
+        });
+
+        const changes: ChangeSet = { upserted: [], removed: [], renamed: [] };
+
+        for (const file of data.files || []) {
+          if (file.status === 'removed') {
+            changes.removed.push(file.filename);
+          } else if (file.status === 'renamed' && file.previous_filename) {
+            changes.renamed.push({ from: file.previous_filename, to: file.filename });
+          } else if (file.status !== 'unchanged') {
+            changes.upserted.push(file.filename);
+          }
+        }
+
+        return changes;
+      } catch (error) {
+        throw new Error(
+          `Failed to compare commits on GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+  };
+}
+
+// ===========================================================================
+// Rate Limiting
+// ===========================================================================
+
+/**
+ * Back off when the GitHub rate limit runs low
+ *
+ * Every response's x-ratelimit-remaining and x-ratelimit-reset headers are
+ * tracked. Once fewer than `threshold` requests remain, requests wait until
+ * the limit resets. Requests rejected by the primary or secondary rate limit
+ * wait out the reset (or retry-after) and are retried.
+ */
+function installRateLimitBackoff(octokit: Octokit, threshold: number): void {
+  let resumeAt = 0;
+
+  const track = (headers: Record<string, unknown> | undefined) => {
+    const remaining = Number(headers?.['x-ratelimit-remaining']);
+    const reset = Number(headers?.['x-ratelimit-reset']);
+    if (remaining < threshold && reset > 0) {
+      resumeAt = Math.max(resumeAt, reset * 1000 + RATE_LIMIT_RESET_MARGIN_MS);
+    }
+
+    const retryAfter = Number(headers?.['retry-after']);
+    if (retryAfter > 0) {
+      resumeAt = Math.max(resumeAt, Date.now() + retryAfter * 1000);
+    }
+  };
+
+  octokit.hook.wrap('request', async (request, options) => {
+    for (let attempt = 0; ; attempt++) {
+      const wait = resumeAt - Date.now();
+      if (wait > 0) {
+        console.warn(`GitHub rate limit running low, waiting ${Math.ceil(wait / 1000)}s`);
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+
+      try {
+        const response = await request(options);
+        track(response.headers);
+        return response;
+      } catch (error) {
+        const { status, response } = error as {
+          status?: number;
+          response?: { headers?: Record<string, unknown> };
+        };
+        track(response?.headers);
+
+        const rateLimited =
+          (status === 403 || status === 429) &&
+          (response?.headers?.['x-ratelimit-remaining'] === '0' ||
+            response?.headers?.['retry-after'] !== undefined);
+        if (!rateLimited || attempt >= RATE_LIMIT_RETRIES) {
+          throw error;
+        }
+      }
+    }
+  });
+}
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+/**
+ * Recursively list files in a repository directory
+ *
+ * Missing directories yield an empty list rather than an error.
+ */
+async function listDirectory(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  path: string
+): Promise<string[]> {
+  const files: string[] = [];
+
+  try {
+    const { data } = await octokit.repos.getContent({ owner, repo, path, ref });
+
+    if (!Array.isArray(data)) {
+      return data.type === 'file' ? [data.path] : files;
+    }
+
+    for (const item of data) {
+      if (item.type === 'file') {
+        files.push(item.path);
+      } else if (item.type === 'dir') {
+        files.push(...(await listDirectory(octokit, owner, repo, ref, item.path)));
+      }
+    }
+
+    return files;
+  } catch (error) {
+    if (error instanceof Error && 'status' in error && error.status === 404) {
+      return [];
+    }
+    throw new Error(
+      `Failed to list files on GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Read the files under a directory from a gzipped repository tarball
+ *
+ * GitHub archives put every entry under a top-level `<owner>-<repo>-<sha>/`
+ * directory, which is stripped. Long paths are read from pax and GNU
+ * long-name headers.
+ *
+ * The archive is decompressed as a stream and entries outside `dir` are
+ * skipped as they pass, so memory use is bounded by the compressed archive
+ * and the files kept, not by the size of the whole repository.
+ *
+ * @param archive - Gzipped tarball
+ * @param dir - Directory to extract (default: whole repository)
+ * @returns File contents by repository path
+ */
+export async function extractTarball(
+  archive: Buffer,
+  dir: string = ''
+): Promise<Map<string, string>> {
+  const prefix = dir ? `${dir.replace(/\/$/, '')}/` : '';
+  const files = new Map<string, string>();
+  let longName: string | null = null;
+
+  // Bytes received but not consumed yet, and the entry being read
+  let pending = Buffer.alloc(0);
+  let entry: TarEntry | null = null;
+
+  const gunzip = createGunzip();
+  gunzip.end(archive);
+
+  for await (const chunk of gunzip) {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+
+    while (true) {
+      if (!entry) {
+        if (pending.length < TAR_BLOCK_SIZE) {
+          break;
+        }
+
+        const header = pending.subarray(0, TAR_BLOCK_SIZE);
+        pending = pending.subarray(TAR_BLOCK_SIZE);
+        if (header.every((byte) => byte === 0)) {
+          return files; // End-of-archive marker
+        }
+
+        const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+        const typeFlag = String.fromCharCode(header[156]);
+        entry = {
+          typeFlag,
+          size,
+          remaining: Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE,
+          path: null,
+          chunks: [],
+        };
+
+        // Pax and GNU long-name headers name the entry that follows
+        if (typeFlag === 'x' || typeFlag === 'L') {
+          entry.path = '';
+        } else if (typeFlag !== 'g') {
+          const ustarPrefix = readTarString(header, 257, 6) === 'ustar' ? readTarString(header, 345, 155) : '';
+          const name = longName ?? [ustarPrefix, readTarString(header, 0, 100)].filter(Boolean).join('/');
+          longName = null;
+
+          // Regular files under the directory only
+          const path = name.slice(name.indexOf('/') + 1);
+          if ((typeFlag === '0' || typeFlag === '\0') && path.startsWith(prefix)) {
+            entry.path = path;
+          }
+        }
+        continue;
+      }
+
+      // Entry data is padded to whole blocks; skipped entries are dropped
+      const take = Math.min(entry.remaining, pending.length);
+      if (entry.path !== null) {
+        entry.chunks.push(pending.subarray(0, take));
+      }
+      pending = pending.subarray(take);
+      entry.remaining -= take;
+      if (entry.remaining > 0) {
+        break;
+      }
+
+      if (entry.path !== null) {
+        const data = Buffer.concat(entry.chunks).subarray(0, entry.size);
+        if (entry.typeFlag === 'x') {
+          longName = readPaxPath(data) ?? longName;
+        } else if (entry.typeFlag === 'L') {
+          longName = readTarString(data, 0, data.length);
+        } else {
+          files.set(entry.path, data.toString('utf-8'));
+        }
+      }
+      entry = null;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Tar entry being read from the stream
+ */
+interface TarEntry {
+  typeFlag: string;
+  size: number;
+  remaining: number; // Data and padding bytes still to consume
+  path: string | null; // Where the data is kept, or null to skip it
+  chunks: Buffer[];
+}
+
+/**
+ * Read a NUL-terminated string field from a tar header
+ */
+function readTarString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString('utf-8', 0, end === -1 ? field.length : end);
+}
+
+/**
+ * Read the path record from a pax extended header
+ *
+ * Records are `<length> <key>=<value>\n`, where length counts the whole record.
+ */
+function readPaxPath(data: Buffer): string | null {
+  let offset = 0;
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) {
+      break;
+    }
+    const length = parseInt(data.toString('utf-8', offset, space), 10);
+    if (!(length > 0)) {
+      break;
+    }
+
+    const record = data.toString('utf-8', space + 1, offset + length - 1);
+    if (record.startsWith('path=')) {
+      return record.slice('path='.length);
+    }
+    offset += length;
+  }
+
+  return null;
+}
@@ -0,0 +1,218 @@
+/**
+ * Tests for GitLab Content Source
+ *
+ * This test suite validates file fetching, paginated directory listing, and
+ * commit comparison against a mocked fetch.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+import { createGitLabSource } from './gitlab';
+
+const source = createGitLabSource({
+  baseUrl: 'https://gitlab.example.com/',
+  token: 'glpat-test',
+  project: 'group/content',
+});
+
+const projectUrl = 'https://gitlab.example.com/api/v4/projects/group%2Fcontent';
+
+/**
+ * Build a JSON API response
+ */
+function jsonResponse(body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers });
+}
+
+function notFound(): Response {
+  return new Response('{"message":"404 Not found"}', { status: 404, statusText: 'Not Found' });
+}
+
+/**
+ * URL of every request made
+ */
+function requestedUrls(): URL[] {
+  return mockFetch.mock.calls.map(([url]) => new URL(url));
+}
+
+// ===========================================================================
+// File Fetching Tests
+// ===========================================================================
+
+describe('fetchFile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fetch raw file content with the private token', async () => {
+    mockFetch.mockResolvedValue(new Response('---\ntitle: Hello\n---\n'));
+
+    const result = await source.fetchFile('content/posts/hello world.md', 'abc123');
+
+    expect(result).toBe('---\ntitle: Hello\n---\n');
+    expect(mockFetch).toHaveBeenCalledWith(
+      `${projectUrl}/repository/files/content%2Fposts%2Fhello%20world.md/raw?ref=abc123`,
+      { headers: { 'PRIVATE-TOKEN': 'glpat-test' } }
+    );
+  });
+
+  it('should report missing files', async () => {
+    mockFetch.mockResolvedValue(notFound());
+
+    await expect(source.fetchFile('content/posts/missing.md', 'abc123')).rejects.toThrow(
+      'Failed to fetch file from GitLab: 404 Not Found'
+    );
+  });
+});
+
+// ===========================================================================
+// Listing Tests
+// ===========================================================================
+
+describe('listFiles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should follow pagination and keep only blobs', async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse(
+          [
+            { path: 'content/posts', type: 'tree' },
+            { path: 'content/posts/hello.md', type: 'blob' },
+          ],
+          { 'x-next-page': '2' }
+        )
+      )
+      .mockResolvedValueOnce(
+        jsonResponse([{ path: 'content/authors/john-doe.md', type: 'blob' }], {
+          'x-next-page': '',
+        })
+      );
+
+    const files = await source.listFiles('main', 'content');
+
+    expect(files).toEqual(['content/posts/hello.md', 'content/authors/john-doe.md']);
+
+    const urls = requestedUrls();
+    expect(urls).toHaveLength(2);
+    expect(urls[0].pathname).toBe('/api/v4/projects/group%2Fcontent/repository/tree');
+    expect(Object.fromEntries(urls[0].searchParams)).toEqual({
+      ref: 'main',
+      path: 'content',
+      recursive: 'true',
+      per_page: '100',
+      page: '1',
+    });
+    expect(urls[1].searchParams.get('page')).toBe('2');
+  });
+
+  it('should return empty array for a missing directory or ref', async () => {
+    mockFetch.mockResolvedValue(notFound());
+
+    expect(await source.listFiles('main', 'content/missing')).toEqual([]);
+  });
+
+  it('should handle API errors', async () => {
+    mockFetch.mockResolvedValue(new Response('', { status: 500, statusText: 'Server Error' }));
+
+    await expect(source.listFiles('main', 'content')).rejects.toThrow(
+      'Failed to list files on GitLab: 500 Server Error'
+    );
+  });
+});
+
+// ===========================================================================
+// Ref Resolution Tests
+// ===========================================================================
+
+describe('resolveRef', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should resolve a branch to its commit SHA', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ id: 'def456' }));
+
+    expect(await source.resolveRef('feature/x')).toBe('def456');
+    expect(mockFetch.mock.calls[0][0]).toBe(`${projectUrl}/repository/commits/feature%2Fx`);
+  });
+
+  it('should report unknown refs', async () => {
+    mockFetch.mockResolvedValue(notFound());
+
+    await expect(source.resolveRef('missing')).rejects.toThrow(
+      'Failed to resolve ref on GitLab: 404 Not Found'
+    );
+  });
+});
+
+// ===========================================================================
+// Diff Tests
+// ===========================================================================
+
+describe('diff', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should map compare diffs to a change set', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({
+        diffs: [
+          {
+            old_path: 'content/posts/new.md',
+            new_path: 'content/posts/new.md',
+            new_file: true,
+            renamed_file: false,
+            deleted_file: false,
+          },
+          {
+            old_path: 'content/posts/edited.md',
+            new_path: 'content/posts/edited.md',
+            new_file: false,
+            renamed_file: false,
+            deleted_file: false,
+          },
+          {
+            old_path: 'content/posts/old-name.md',
+            new_path: 'content/posts/new-name.md',
+            new_file: false,
+            renamed_file: true,
+            deleted_file: false,
+          },
+          {
+            old_path: 'content/posts/gone.md',
+            new_path: 'content/posts/gone.md',
+            new_file: false,
+            renamed_file: false,
+            deleted_file: true,
+          },
+        ],
+      })
+    );
+
+    const changes = await source.diff('abc123', 'def456');
+
+    expect(changes).toEqual({
+      upserted: ['content/posts/new.md', 'content/posts/edited.md'],
+      removed: ['content/posts/gone.md'],
+      renamed: [{ from: 'content/posts/old-name.md', to: 'content/posts/new-name.md' }],
+    });
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      `${projectUrl}/repository/compare?from=abc123&to=def456`
+    );
+  });
+
+  it('should handle API errors', async () => {
+    mockFetch.mockResolvedValue(notFound());
+
+    await expect(source.diff('abc123', 'def456')).rejects.toThrow(
+      'Failed to compare commits on GitLab: 404 Not Found'
+    );
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * GitLab Content Source
+ *
+ * Reads repository content through the GitLab REST API (v4). Works with
+ * gitlab.com and self-managed instances.
+ */
+
+import type { ChangeSet, ContentSource } from '@/types';
+
+// ===========================================================================
+// Configuration
+// ===========================================================================
+
+export interface GitLabSourceConfig {
+  baseUrl: string; // e.g. https://gitlab.com
+  token?: string;
+  project: string; // Numeric ID or full path (group/project)
+  branch?: string; // Default: main
+}
+
+interface GitLabTreeItem {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+}
+
+interface GitLabDiff {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+}
+
+// ===========================================================================
+// Source Factory
+// ===========================================================================
+
+/**
+ * Create a GitLab content source
+ *
+ * @param config - Instance URL, project and credentials
+ * @returns Content source backed by the GitLab API
+ */
+export function createGitLabSource(config: GitLabSourceConfig): ContentSource {
+  const projectUrl = `${config.baseUrl.replace(/\/$/, '')}/api/v4/projects/${encodeURIComponent(config.project)}`;
+  const headers: Record<string, string> = config.token
+    ? { 'PRIVATE-TOKEN': config.token }
+    : {};
+
+  async function request(path: string): Promise<Response> {
+    const response = await fetch(`${projectUrl}${path}`, { headers });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+
+  return {
+    type: 'gitlab',
+    description: `gitlab:${config.project}`,
+    defaultRef: config.branch || 'main',
+
+    async resolveRef(ref: string): Promise<string> {
+      try {
+        const response = await request(
+          `/repository/commits/${encodeURIComponent(ref)}`
+        );
+        const commit = await response.json();
+        return commit.id;
+      } catch (error) {
+        throw new Error(
+          `Failed to resolve ref on GitLab: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async listFiles(ref: string, dir: string = ''): Promise<string[]> {
+      const files: string[] = [];
+
+      try {
+        // Paginate until GitLab stops returning a next page
+        let page = '1';
+        while (page) {
+          const params = new URLSearchParams({
+            ref,
+            path: dir,
+            recursive: 'true',
+            per_page: '100',
+            page,
+          });
+          const response = await request(`/repository/tree?${params}`);
+          const items: GitLabTreeItem[] = await response.json();
+
+          for (const item of items) {
+            if (item.type === 'blob') {
+              files.push(item.path);
+            }
+          }
+
+          page = response.headers.get('x-next-page') || '';
+        }
+
+        return files;
+      } catch (error) {
+        // A missing directory is reported as 404
+        if (error instanceof Error && error.message.startsWith('404')) {
+          return [];
+        }
+        throw new Error(
+          `Failed to list files on GitLab: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async fetchFile(path: string, ref: string): Promise<string> {
+      try {
+        const response = await request(
+          `/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`
+        );
+        return await response.text();
+      } catch (error) {
+        throw new Error(
+          `Failed to fetch file from GitLab: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async diff(base: string, head: string): Promise<ChangeSet> {
+      try {
+        const params = new URLSearchParams({ from: base, to: head });
+        const response = await request(`/repository/compare?${params}`);
+        const { diffs }: { diffs: GitLabDiff[] } = await response.json();
+
+        const changes: ChangeSet = { upserted: [], removed: [], renamed: [] };
+
+        for (const diff of diffs) {
+          if (diff.deleted_file) {
+            changes.removed.push(diff.old_path);
+          } else if (diff.renamed_file) {
+            changes.renamed.push({ from: diff.old_path, to: diff.new_path });
+          } else {
+            changes.upserted.push(diff.new_path);
+          }
+        }
+
+        return changes;
+      } catch (error) {
+        throw new Error(
+          `Failed to compare commits on GitLab: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+  };
+}
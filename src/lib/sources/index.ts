@@ -0,0 +1,172 @@
+/**
+ * Content Sources
+ *
+ * Selects where the sync engine reads content from. The provider is chosen
+ * with the CONTENT_SOURCE env var (default: github):
+ *
+ * - github: GITHUB_TOKEN, GITHUB_REPO_OWNER, GITHUB_REPO_NAME
+ * - gitlab: GITLAB_URL (default https://gitlab.com), GITLAB_TOKEN, GITLAB_PROJECT
+ * - gitea:  GITEA_URL, GITEA_TOKEN, GITEA_REPO_OWNER, GITEA_REPO_NAME (also Forgejo)
+ * - local:  CONTENT_LOCAL_DIR (default ./content)
+ *
+ * CONTENT_BRANCH sets the tracked branch for remote providers (default: main).
+ * GITHUB_RATE_LIMIT_THRESHOLD sets how many remaining GitHub requests trigger
+ * a back-off until the rate limit resets (default: 50).
+ */
+
+import type { ContentSource, ContentSourceType } from '@/types';
+import { createGitHubSource } from './github';
+import { createGitLabSource } from './gitlab';
+import { createGiteaSource } from './gitea';
+import { createLocalSource, WORKING_TREE_REF } from './local';
+
+export { createGitHubSource, createGitLabSource, createGiteaSource, createLocalSource, WORKING_TREE_REF };
+
+const SOURCE_TYPES: ContentSourceType[] = ['github', 'gitlab', 'gitea', 'local'];
+
+/**
+ * Overrides for values otherwise read from the environment
+ */
+export interface ContentSourceOptions {
+  dir?: string; // Local content directory
+  branch?: string;
+}
+
+// ===========================================================================
+// Source Factory
+// ===========================================================================
+
+/**
+ * Create a content source from environment configuration
+ *
+ * @param type - Provider to use (default: CONTENT_SOURCE or github)
+ * @param options - Overrides for environment configuration
+ * @returns Configured content source
+ * @throws {Error} If the provider is unknown or its configuration is missing
+ */
+export function createContentSource(
+  type: string = process.env.CONTENT_SOURCE || 'github',
+  options: ContentSourceOptions = {}
+): ContentSource {
+  if (!isContentSourceType(type)) {
+    throw new Error(
+      `Invalid content source: ${type}. Must be one of ${SOURCE_TYPES.join(', ')}.`
+    );
+  }
+
+  const branch = options.branch || process.env.CONTENT_BRANCH || 'main';
+
+  switch (type) {
+    case 'github':
+      return createGitHubSource({
+        token: process.env.GITHUB_TOKEN,
+        owner: requireEnv('GITHUB_REPO_OWNER'),
+        repo: requireEnv('GITHUB_REPO_NAME'),
+        branch,
+        rateLimitThreshold: process.env.GITHUB_RATE_LIMIT_THRESHOLD
+          ? parseInt(process.env.GITHUB_RATE_LIMIT_THRESHOLD, 10)
+          : undefined,
+      });
+    case 'gitlab':
+      return createGitLabSource({
+        baseUrl: process.env.GITLAB_URL || 'https://gitlab.com',
+        token: process.env.GITLAB_TOKEN,
+        project: requireEnv('GITLAB_PROJECT'),
+        branch,
+      });
+    case 'gitea':
+      return createGiteaSource({
+        baseUrl: requireEnv('GITEA_URL'),
+        token: process.env.GITEA_TOKEN,
+        owner: requireEnv('GITEA_REPO_OWNER'),
+        repo: requireEnv('GITEA_REPO_NAME'),
+        branch,
+      });
+    case 'local':
+      return createLocalSource({ dir: getLocalContentDir(options.dir) });
+  }
+}
+
+let defaultSource: ContentSource | null = null;
+
+/**
+ * Get the content source configured by the environment
+ *
+ * Created on first use and reused afterwards.
+ */
+export function getContentSource(): ContentSource {
+  if (!defaultSource) {
+    defaultSource = createContentSource();
+  }
+  return defaultSource;
+}
+
+// ===========================================================================
+// Bulk Fetching
+// ===========================================================================
+
+/**
+ * Serve a directory from a single bulk download
+ *
+ * Downloads every file under `dir` at `ref` with the source's fetchTree and
+ * returns a source that lists and reads those files from memory. Other refs
+ * and paths fall through to the wrapped source. Sources without fetchTree
+ * are returned unchanged.
+ *
+ * @param source - Content source to wrap
+ * @param ref - Commit SHA to download
+ * @param dir - Directory to download (e.g. content)
+ * @returns Source backed by the downloaded files
+ * @throws {Error} If the download fails
+ */
+export async function prefetchContent(
+  source: ContentSource,
+  ref: string,
+  dir: string
+): Promise<ContentSource> {
+  if (!source.fetchTree) {
+    return source;
+  }
+
+  const files = await source.fetchTree(ref, dir);
+  const covers = (listDir: string) => listDir === dir || listDir.startsWith(`${dir}/`);
+
+  return {
+    ...source,
+
+    async listFiles(listRef: string, listDir: string = ''): Promise<string[]> {
+      if (listRef !== ref || !covers(listDir)) {
+        return source.listFiles(listRef, listDir);
+      }
+      return [...files.keys()].filter((path) => path.startsWith(`${listDir}/`));
+    },
+
+    async fetchFile(path: string, fetchRef: string): Promise<string> {
+      const content = fetchRef === ref ? files.get(path) : undefined;
+      return content ?? source.fetchFile(path, fetchRef);
+    },
+  };
+}
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+/**
+ * Resolve the local content directory (option, CONTENT_LOCAL_DIR, or ./content)
+ */
+export function getLocalContentDir(dir?: string): string {
+  return dir || process.env.CONTENT_LOCAL_DIR || './content';
+}
+
+export function isContentSourceType(value: string): value is ContentSourceType {
+  return (SOURCE_TYPES as string[]).includes(value);
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} environment variable is required for this content source`);
+  }
+  return value;
+}
@@ -0,0 +1,136 @@
+/**
+ * Tests for Local Filesystem Content Source
+ *
+ * This test suite validates reading content from a temporary directory,
+ * both from the working tree and from git history.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createLocalSource, parseNameStatus, WORKING_TREE_REF } from './local';
+
+let dir: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: dir, encoding: 'utf-8' }).trim();
+}
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'hexcms-local-'));
+  mkdirSync(path.join(dir, 'posts'));
+  mkdirSync(path.join(dir, 'authors'));
+  writeFileSync(path.join(dir, 'posts', '2024-01-15-hello.md'), 'Hello v1');
+  writeFileSync(path.join(dir, 'authors', 'john-doe.md'), 'John');
+
+  git('init', '-q');
+  git('add', '-A');
+  git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'init');
+
+  // Uncommitted edit, only visible in the working tree
+  writeFileSync(path.join(dir, 'posts', '2024-01-15-hello.md'), 'Hello v2');
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// ===========================================================================
+// Working Tree Tests
+// ===========================================================================
+
+describe('working tree', () => {
+  it('should list files as content/ paths', async () => {
+    const source = createLocalSource({ dir });
+
+    const files = await source.listFiles(WORKING_TREE_REF);
+
+    expect(files.sort()).toEqual([
+      'content/authors/john-doe.md',
+      'content/posts/2024-01-15-hello.md',
+    ]);
+  });
+
+  it('should filter by subdirectory', async () => {
+    const source = createLocalSource({ dir });
+
+    const files = await source.listFiles(WORKING_TREE_REF, 'content/authors');
+
+    expect(files).toEqual(['content/authors/john-doe.md']);
+  });
+
+  it('should read current file content', async () => {
+    const source = createLocalSource({ dir });
+
+    const content = await source.fetchFile('content/posts/2024-01-15-hello.md', WORKING_TREE_REF);
+
+    expect(content).toBe('Hello v2');
+  });
+
+  it('should reject paths outside content/', async () => {
+    const source = createLocalSource({ dir });
+
+    await expect(source.fetchFile('content/../secret.md', WORKING_TREE_REF)).rejects.toThrow(
+      'outside the content directory'
+    );
+  });
+
+  it('should return empty list for a missing directory', async () => {
+    const source = createLocalSource({ dir: path.join(dir, 'missing') });
+
+    expect(await source.listFiles(WORKING_TREE_REF)).toEqual([]);
+  });
+});
+
+// ===========================================================================
+// Git History Tests
+// ===========================================================================
+
+describe('git history', () => {
+  it('should resolve refs to commit SHAs', async () => {
+    const source = createLocalSource({ dir });
+
+    expect(await source.resolveRef('HEAD')).toBe(git('rev-parse', 'HEAD'));
+    expect(await source.resolveRef(WORKING_TREE_REF)).toBe(WORKING_TREE_REF);
+  });
+
+  it('should read committed file content', async () => {
+    const source = createLocalSource({ dir });
+
+    const content = await source.fetchFile('content/posts/2024-01-15-hello.md', 'HEAD');
+
+    expect(content).toBe('Hello v1');
+  });
+
+  it('should diff a commit against the working tree', async () => {
+    const source = createLocalSource({ dir });
+
+    const result = await source.diff('HEAD', WORKING_TREE_REF);
+
+    expect(result).toEqual({
+      upserted: ['content/posts/2024-01-15-hello.md'],
+      removed: [],
+      renamed: [],
+    });
+  });
+});
+
+describe('parseNameStatus', () => {
+  it('should report renames with both paths', () => {
+    const output = [
+      'A\tposts/new.md',
+      'D\tposts/gone.md',
+      'R087\tposts/2024-01-15-old.md\tposts/2024-01-16-old.md',
+    ].join('\n');
+
+    expect(parseNameStatus(output)).toEqual({
+      upserted: ['content/posts/new.md'],
+      removed: ['content/posts/gone.md'],
+      renamed: [
+        { from: 'content/posts/2024-01-15-old.md', to: 'content/posts/2024-01-16-old.md' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Local Filesystem Content Source
+ *
+ * Reads content from a directory on disk, for offline development and CI.
+ * The directory is mapped to the repository's `content/` prefix, so
+ * `<dir>/posts/hello.md` is synced as `content/posts/hello.md`.
+ *
+ * The working tree is read by default. When the directory is inside a git
+ * repository, any other ref is read from git history instead.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import type { ChangeSet, ContentSource } from '@/types';
+
+const execFileAsync = promisify(execFile);
+
+// ===========================================================================
+// Configuration
+// ===========================================================================
+
+/** Ref that reads files as they currently are on disk */
+export const WORKING_TREE_REF = 'working-tree';
+
+const CONTENT_PREFIX = 'content';
+
+export interface LocalSourceConfig {
+  dir: string; // Content directory (mapped to content/)
+}
+
+// ===========================================================================
+// Source Factory
+// ===========================================================================
+
+/**
+ * Create a local filesystem content source
+ *
+ * @param config - Content directory
+ * @returns Content source backed by the local filesystem and git
+ */
+export function createLocalSource(config: LocalSourceConfig): ContentSource {
+  const dir = path.resolve(config.dir);
+
+  async function git(...args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: dir,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  }
+
+  return {
+    type: 'local',
+    description: `local:${dir}`,
+    defaultRef: WORKING_TREE_REF,
+
+    async resolveRef(ref: string): Promise<string> {
+      if (ref === WORKING_TREE_REF) {
+        return ref;
+      }
+
+      try {
+        return (await git('rev-parse', '--verify', `${ref}^{commit}`)).trim();
+      } catch (error) {
+        throw new Error(
+          `Failed to resolve ref in ${dir}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async listFiles(ref: string, subdir: string = CONTENT_PREFIX): Promise<string[]> {
+      let relativePaths: string[];
+
+      try {
+        if (ref === WORKING_TREE_REF) {
+          relativePaths = await walk(dir, '');
+        } else {
+          // Paths are relative to the working directory (the content dir)
+          const output = await git('ls-tree', '-r', '--name-only', ref, '--', '.');
+          relativePaths = output.split('\n').filter(Boolean);
+        }
+      } catch (error) {
+        if (isNotFound(error)) {
+          return [];
+        }
+        throw new Error(
+          `Failed to list files in ${dir}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+
+      const prefix = subdir ? `${subdir.replace(/\/$/, '')}/` : '';
+      return relativePaths
+        .map(toRepoPath)
+        .filter((file) => file.startsWith(prefix));
+    },
+
+    async fetchFile(repoPath: string, ref: string): Promise<string> {
+      const relativePath = toRelativePath(repoPath);
+
+      try {
+        if (ref === WORKING_TREE_REF) {
+          return await fs.readFile(path.join(dir, relativePath), 'utf-8');
+        }
+        return await git('show', `${ref}:./${relativePath}`);
+      } catch (error) {
+        throw new Error(
+          `Failed to read file ${repoPath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+
+    async diff(base: string, head: string): Promise<ChangeSet> {
+      // Without a head commit, git compares against the working tree
+      const refs = head === WORKING_TREE_REF ? [base] : [base, head];
+
+      try {
+        const output = await git(
+          'diff', '--name-status', '-M', '--relative', ...refs, '--', '.'
+        );
+        return parseNameStatus(output);
+      } catch (error) {
+        throw new Error(
+          `Failed to diff ${base}..${head} in ${dir}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+  };
+}
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+/**
+ * Map a path relative to the content dir to a repository path
+ */
+function toRepoPath(relativePath: string): string {
+  return `${CONTENT_PREFIX}/${relativePath.split(path.sep).join('/')}`;
+}
+
+/**
+ * Map a repository path to a path relative to the content dir
+ *
+ * @throws {Error} If the path is outside content/
+ */
+function toRelativePath(repoPath: string): string {
+  const prefix = `${CONTENT_PREFIX}/`;
+  if (!repoPath.startsWith(prefix) || repoPath.split('/').includes('..')) {
+    throw new Error(`Path is outside the content directory: ${repoPath}`);
+  }
+  return repoPath.slice(prefix.length);
+}
+
+/**
+ * Recursively list files below a directory, relative to `root`
+ */
+async function walk(root: string, relativeDir: string): Promise<string[]> {
+  const entries = await fs.readdir(path.join(root, relativeDir), {
+    withFileTypes: true,
+  });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    // Skip dotfiles and directories such as .git
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+
+    const relativePath = path.join(relativeDir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(root, relativePath)));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Parse `git diff --name-status` output into a change set
+ *
+ * Renames are reported as `R<score>\told\tnew`.
+ */
+export function parseNameStatus(output: string): ChangeSet {
+  const changes: ChangeSet = { upserted: [], removed: [], renamed: [] };
+
+  for (const line of output.split('\n').filter(Boolean)) {
+    const [status, ...paths] = line.split('\t');
+
+    if (status === 'D') {
+      changes.removed.push(toRepoPath(paths[0]));
+    } else if (status.startsWith('R')) {
+      changes.renamed.push({ from: toRepoPath(paths[0]), to: toRepoPath(paths[1]) });
+    } else {
+      changes.upserted.push(toRepoPath(paths[paths.length - 1]));
+    }
+  }
+
+  return changes;
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+}
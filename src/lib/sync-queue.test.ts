@@ -0,0 +1,288 @@
+/**
+ * Tests for Sync Job Queue
+ *
+ * This test suite validates job claiming, per-file retries, backoff and
+ * dead-lettering.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock database adapter
+const { mockSql } = vi.hoisted(() => ({
+  mockSql: vi.fn(),
+}));
+
+vi.mock('./db-adapter', () => ({
+  sql: mockSql,
+}));
+
+vi.mock('./sync', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./sync')>();
+  return {
+    getResourceTypeFromPath: actual.getResourceTypeFromPath,
+    extractSlugFromPath: actual.extractSlugFromPath,
+    getChangeStages: actual.getChangeStages,
+    getSyncConcurrency: actual.getSyncConcurrency,
+    mapWithConcurrency: actual.mapWithConcurrency,
+    getFileChanges: vi.fn(),
+    applyFileChange: vi.fn(),
+    collectGarbageAfterSync: vi.fn(),
+    processWebhook: vi.fn(),
+    runInEnvironment: vi.fn((_environment, _ref, callback) => callback()),
+    logSync: vi.fn(),
+  };
+});
+
+import * as sync from './sync';
+import { claimNextJob, runSyncJob, runDueJobs, getRetryDelay } from './sync-queue';
+import type { GitHubWebhookPayload, SyncJob } from '@/types';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+const webhook = {
+  ref: 'refs/heads/main',
+  before: 'abc123',
+  after: 'def456',
+  head_commit: { id: 'def456' },
+} as GitHubWebhookPayload;
+
+function makeJob(overrides: Partial<SyncJob> = {}): SyncJob {
+  return {
+    id: 'job-1',
+    kind: 'push',
+    status: 'running',
+    payload: { webhook },
+    commitSha: 'def456',
+    attempts: 1,
+    maxAttempts: 5,
+    runAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * SQL text of every query made, with template values as `?`
+ */
+function queries(): string[] {
+  return mockSql.mock.calls.map(([strings]) => strings.join('?'));
+}
+
+// ===========================================================================
+// Retry Delay Tests
+// ===========================================================================
+
+describe('getRetryDelay', () => {
+  it('should double with each attempt', () => {
+    expect(getRetryDelay(1)).toBe(30_000);
+    expect(getRetryDelay(2)).toBe(60_000);
+    expect(getRetryDelay(3)).toBe(120_000);
+  });
+
+  it('should cap at one hour', () => {
+    expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+  });
+});
+
+// ===========================================================================
+// Job Processing Tests
+// ===========================================================================
+
+describe('claimNextJob', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return null when nothing is due', async () => {
+    mockSql.mockResolvedValue([]);
+
+    expect(await claimNextJob()).toBeNull();
+    expect(queries()[0]).toContain('FOR UPDATE SKIP LOCKED');
+  });
+
+  it('should only claim the oldest active job of each ref', async () => {
+    mockSql.mockResolvedValue([]);
+
+    await claimNextJob();
+
+    const query = queries()[0];
+    expect(query).toContain('NOT EXISTS');
+    expect(query).toContain("COALESCE(older.payload->'webhook'->>'ref', older.payload->>'ref')");
+    expect(query).toContain('(older.created_at, older.id) < (job.created_at, job.id)');
+    expect(query).toContain('ORDER BY job.created_at, job.id');
+  });
+
+  it('should hold a ref behind an older job waiting out its backoff', async () => {
+    mockSql.mockResolvedValue([]);
+
+    await claimNextJob();
+
+    // An older retry scheduled for later must still block newer pushes
+    const guard = queries()[0].split('NOT EXISTS')[1];
+    expect(guard).toContain("older.status IN ('pending', 'running')");
+    expect(guard).not.toContain('older.run_at');
+  });
+
+  it('should map the claimed row', async () => {
+    mockSql.mockResolvedValue([
+      {
+        id: 'job-1',
+        kind: 'push',
+        status: 'running',
+        payload: JSON.stringify({ webhook }),
+        commit_sha: 'def456',
+        attempts: 1,
+        max_attempts: 5,
+        run_at: '2024-01-15T12:00:00Z',
+        created_at: '2024-01-15T12:00:00Z',
+        updated_at: '2024-01-15T12:00:00Z',
+      },
+    ]);
+
+    const job = await claimNextJob();
+
+    expect(job?.payload).toEqual({ webhook });
+    expect(job?.maxAttempts).toBe(5);
+  });
+});
+
+describe('runSyncJob', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSql.mockResolvedValue([]);
+  });
+
+  it('should split failing files into retry jobs and complete the push', async () => {
+    (sync.getFileChanges as any).mockResolvedValue([
+      { type: 'upsert', path: 'content/posts/a.md' },
+      { type: 'upsert', path: 'content/posts/b.md' },
+    ]);
+    (sync.applyFileChange as any)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Parse error'));
+
+    const status = await runSyncJob(makeJob());
+
+    expect(status).toBe('completed');
+    expect(sync.applyFileChange).toHaveBeenCalledTimes(2);
+
+    const retry = mockSql.mock.calls.find(([strings]) =>
+      strings.join('?').includes('INSERT INTO sync_jobs')
+    );
+    expect(retry).toBeDefined();
+    expect(retry).toContain('Parse error');
+    expect(retry).toContain(JSON.stringify({
+      change: { type: 'upsert', path: 'content/posts/b.md' },
+      ref: 'refs/heads/main',
+    }));
+  });
+
+  it('should cancel pending retries for files the push touches', async () => {
+    (sync.getFileChanges as any).mockResolvedValue([
+      { type: 'upsert', path: 'content/posts/a.md' },
+    ]);
+
+    await runSyncJob(makeJob());
+
+    expect(queries()[0]).toContain("status = 'cancelled'");
+    expect(mockSql.mock.calls[0]).toContain('content/posts/a.md');
+    expect(mockSql.mock.calls[0]).toContain('refs/heads/main');
+  });
+
+  it('should apply changes in the environment mapped from the ref', async () => {
+    (sync.getFileChanges as any).mockResolvedValue([
+      { type: 'upsert', path: 'content/posts/a.md' },
+    ]);
+
+    await runSyncJob(makeJob());
+
+    expect(sync.runInEnvironment).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'production', branch: 'main' }),
+      'refs/heads/main',
+      expect.any(Function)
+    );
+  });
+
+  it('should cancel jobs for branches that are not mapped', async () => {
+    const status = await runSyncJob(
+      makeJob({ payload: { webhook: { ...webhook, ref: 'refs/heads/feature' } } })
+    );
+
+    expect(status).toBe('cancelled');
+    expect(sync.getFileChanges).not.toHaveBeenCalled();
+  });
+
+  it('should reschedule a job that fails as a whole', async () => {
+    (sync.getFileChanges as any).mockRejectedValue(new Error('Rate limited'));
+
+    const status = await runSyncJob(makeJob({ attempts: 2 }));
+
+    expect(status).toBe('pending');
+    expect(queries().at(-1)).toContain("status = 'pending'");
+  });
+
+  it('should dead-letter a file job that runs out of attempts', async () => {
+    (sync.applyFileChange as any).mockRejectedValue(new Error('Parse error'));
+
+    const status = await runSyncJob(
+      makeJob({
+        kind: 'file',
+        payload: {
+          change: { type: 'upsert', path: 'content/posts/b.md' },
+          ref: 'refs/heads/main',
+        },
+        attempts: 5,
+      })
+    );
+
+    expect(status).toBe('dead');
+    expect(queries().at(-1)).toContain("status = 'dead'");
+    expect(sync.logSync).toHaveBeenCalledWith(
+      'sync',
+      'post',
+      null,
+      'def456',
+      'error',
+      {
+        path: 'content/posts/b.md',
+        slug: 'b',
+        error: 'Parse error',
+        attempts: 5,
+        deadLettered: true,
+      }
+    );
+  });
+
+  it('should retry an atomic push that rolled back', async () => {
+    (sync.processWebhook as any).mockResolvedValue({
+      success: false,
+      processed: 0,
+      errors: [],
+      duration: 1,
+      rollback: { file: 'content/posts/a.md', error: 'Parse error' },
+    });
+
+    const status = await runSyncJob(makeJob({ payload: { webhook, atomic: true } }));
+
+    expect(status).toBe('pending');
+    expect(sync.getFileChanges).not.toHaveBeenCalled();
+  });
+});
+
+describe('runDueJobs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should stop when no job is due', async () => {
+    mockSql.mockResolvedValue([]);
+
+    const summary = await runDueJobs();
+
+    expect(summary).toEqual({ completed: 0, retried: 0, cancelled: 0, dead: 0 });
+    expect(mockSql).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Sync Job Queue
+ *
+ * Durable queue for webhook syncs, backed by the sync_jobs table so no extra
+ * service is needed. The webhook endpoint enqueues a push job and responds
+ * immediately; a worker (the endpoint's after() hook, or
+ * scripts/sync-worker.ts) claims due jobs and applies them.
+ *
+ * Features:
+ * - Per-file retries with exponential backoff
+ * - Dead-lettering of files that keep failing (status `dead`)
+ * - Pending retries are cancelled when a newer push touches the same file
+ * - Abandoned jobs (worker crashed mid-run) are reclaimed after a timeout
+ *
+ * The queue itself always lives in the default database; file changes are
+ * applied in the environment the pushed branch maps to.
+ */
+
+import { sql } from './db-adapter';
+import {
+  getFileChanges,
+  applyFileChange,
+  collectGarbageAfterSync,
+  getChangeStages,
+  getSyncConcurrency,
+  mapWithConcurrency,
+  processWebhook,
+  runInEnvironment,
+  getResourceTypeFromPath,
+  extractSlugFromPath,
+  logSync,
+} from './sync';
+import { getEnvironmentForRef } from './environments';
+import type {
+  ContentSource,
+  GitHubWebhookPayload,
+  SyncFileChange,
+  SyncJob,
+} from '@/types';
+
+// ===========================================================================
+// Configuration
+// ===========================================================================
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Running jobs not finished within this window are assumed abandoned
+const JOB_LOCK_TIMEOUT_MINUTES = 15;
+
+// Jobs processed per runDueJobs() call
+const DEFAULT_BATCH_SIZE = 25;
+
+/**
+ * Attempts per job before it is dead-lettered (SYNC_MAX_ATTEMPTS, default 5)
+ */
+function getMaxAttempts(): number {
+  const value = parseInt(process.env.SYNC_MAX_ATTEMPTS || '', 10);
+  return value > 0 ? value : DEFAULT_MAX_ATTEMPTS;
+}
+
+// ===========================================================================
+// Enqueueing
+// ===========================================================================
+
+/**
+ * Enqueue a webhook push for background processing
+ *
+ * @param payload - GitHub webhook payload
+ * @param options - Processing options applied when the job runs
+ * @returns Created job
+ * @throws {Error} If the job cannot be stored
+ */
+export async function enqueueSyncJob(
+  payload: GitHubWebhookPayload,
+  options: { atomic?: boolean } = {}
+): Promise<SyncJob> {
+  try {
+    const jobPayload = JSON.stringify({ webhook: payload, atomic: options.atomic || false });
+
+    const rows = await sql`
+      INSERT INTO sync_jobs (kind, payload, commit_sha, max_attempts)
+      VALUES ('push', ${jobPayload}::jsonb, ${payload.head_commit.id}, ${getMaxAttempts()})
+      RETURNING *
+    `;
+
+    return mapRowToJob(rows[0]);
+  } catch (error) {
+    throw new Error(
+      `Failed to enqueue sync job: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Enqueue a retry for a file that failed while running a job
+ *
+ * The failed run counts as the first attempt.
+ */
+async function enqueueFileRetry(
+  parent: SyncJob,
+  change: SyncFileChange,
+  ref: string,
+  error: string
+): Promise<void> {
+  const maxAttempts = getMaxAttempts();
+  const status = maxAttempts > 1 ? 'pending' : 'dead';
+  const runAt = new Date(Date.now() + getRetryDelay(1)).toISOString();
+
+  await sql`
+    INSERT INTO sync_jobs (
+      kind, status, payload, commit_sha, attempts, max_attempts,
+      run_at, last_error, parent_id
+    ) VALUES (
+      'file', ${status}, ${JSON.stringify({ change, ref })}::jsonb, ${parent.commitSha},
+      1, ${maxAttempts}, ${runAt}, ${error}, ${parent.id}
+    )
+  `;
+
+  if (status === 'dead') {
+    await logDeadLetter(change, ref, parent.commitSha, error, 1);
+  }
+}
+
+// ===========================================================================
+// Processing
+// ===========================================================================
+
+/**
+ * Claim the next due job
+ *
+ * Uses SKIP LOCKED so concurrent workers never claim the same job. Claiming
+ * counts as an attempt.
+ *
+ * Jobs of one ref run one at a time, in the order they were queued: a job
+ * is only claimable while no older job of its ref is pending or running.
+ * That includes retries waiting out their backoff, so a retry never applies
+ * an older commit over a newer push; a failing job holds up its ref until
+ * it succeeds or is dead-lettered. Because the older job stays pending or
+ * running until it finishes, a second worker that skips it (locked) cannot
+ * claim the job behind it either.
+ *
+ * @returns Claimed job, or null if nothing is due
+ */
+export async function claimNextJob(): Promise<SyncJob | null> {
+  const staleBefore = `${JOB_LOCK_TIMEOUT_MINUTES} minutes`;
+  const rows = await sql`
+    UPDATE sync_jobs SET
+      status = 'running',
+      attempts = attempts + 1,
+      locked_at = NOW(),
+      updated_at = NOW()
+    WHERE id = (
+      SELECT job.id FROM sync_jobs job
+      WHERE (
+          (job.status = 'pending' AND job.run_at <= NOW())
+          OR (job.status = 'running' AND job.locked_at < NOW() - ${staleBefore}::interval)
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM sync_jobs older
+          WHERE COALESCE(older.payload->'webhook'->>'ref', older.payload->>'ref')
+              = COALESCE(job.payload->'webhook'->>'ref', job.payload->>'ref')
+            AND (older.created_at, older.id) < (job.created_at, job.id)
+            AND older.status IN ('pending', 'running')
+        )
+      ORDER BY job.created_at, job.id
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  return rows.length > 0 ? mapRowToJob(rows[0]) : null;
+}
+
+/**
+ * Run a claimed job
+ *
+ * Push jobs apply every file independently (several at once, in dependency
+ * order; see getChangeStages); each failing file is split off into its own
+ * retry job and the push job completes, after collecting unused tags and
+ * placeholder authors. Atomic push jobs, file jobs, and push jobs whose
+ * change set cannot be computed are retried as a whole. Jobs for branches
+ * that are no longer mapped to an environment are cancelled.
+ *
+ * @param job - Claimed job
+ * @param source - Content source to read from (default: configured source)
+ * @returns Status the job ended in
+ */
+export async function runSyncJob(
+  job: SyncJob,
+  source?: ContentSource
+): Promise<SyncJob['status']> {
+  try {
+    const ref = 'webhook' in job.payload ? job.payload.webhook.ref : job.payload.ref;
+    const environment = getEnvironmentForRef(ref);
+
+    if (!environment) {
+      await sql`
+        UPDATE sync_jobs SET
+          status = 'cancelled', last_error = ${`${ref} is not mapped to a sync environment`},
+          locked_at = NULL, updated_at = NOW()
+        WHERE id = ${job.id}
+      `;
+      return 'cancelled';
+    }
+
+    if ('webhook' in job.payload) {
+      const { webhook, atomic } = job.payload;
+
+      if (atomic) {
+        const result = await processWebhook(webhook, { atomic: true, source, environment });
+        if (result.rollback) {
+          throw new Error(`${result.rollback.file}: ${result.rollback.error}`);
+        }
+      } else {
+        const changes = await runInEnvironment(environment, ref, () =>
+          getFileChanges(webhook, source)
+        );
+
+        for (const stage of getChangeStages(changes)) {
+          await mapWithConcurrency(stage, getSyncConcurrency(), async (change) => {
+            // This push supersedes retries still pending for the same file
+            await cancelPendingRetries(change, ref);
+
+            try {
+              await runInEnvironment(environment, ref, () =>
+                applyFileChange(change, job.commitSha, source)
+              );
+            } catch (error) {
+              await enqueueFileRetry(
+                job,
+                change,
+                ref,
+                error instanceof Error ? error.message : 'Unknown error'
+              );
+            }
+          });
+        }
+
+        if (changes.length > 0) {
+          await runInEnvironment(environment, ref, () =>
+            collectGarbageAfterSync(job.commitSha)
+          );
+        }
+      }
+    } else {
+      const { change } = job.payload;
+      await runInEnvironment(environment, ref, () =>
+        applyFileChange(change, job.commitSha, source)
+      );
+    }
+
+    await sql`
+      UPDATE sync_jobs SET status = 'completed', locked_at = NULL, updated_at = NOW()
+      WHERE id = ${job.id}
+    `;
+    return 'completed';
+  } catch (error) {
+    return failJob(job, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+/**
+ * Claim and run due jobs until none are left or the batch is full
+ *
+ * @param options - Batch size and content source
+ * @returns Number of jobs by the status they ended in
+ */
+export async function runDueJobs(
+  options: { limit?: number; source?: ContentSource } = {}
+): Promise<{ completed: number; retried: number; cancelled: number; dead: number }> {
+  const limit = options.limit || DEFAULT_BATCH_SIZE;
+  const summary = { completed: 0, retried: 0, cancelled: 0, dead: 0 };
+
+  for (let i = 0; i < limit; i++) {
+    const job = await claimNextJob();
+    if (!job) {
+      break;
+    }
+
+    const status = await runSyncJob(job, options.source);
+    if (status === 'completed') {
+      summary.completed++;
+    } else if (status === 'dead') {
+      summary.dead++;
+    } else if (status === 'cancelled') {
+      summary.cancelled++;
+    } else {
+      summary.retried++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Reschedule a failed job with backoff, or dead-letter it
+ */
+async function failJob(job: SyncJob, error: string): Promise<SyncJob['status']> {
+  if (job.attempts >= job.maxAttempts) {
+    await sql`
+      UPDATE sync_jobs SET
+        status = 'dead', last_error = ${error}, locked_at = NULL, updated_at = NOW()
+      WHERE id = ${job.id}
+    `;
+
+    if ('change' in job.payload) {
+      await logDeadLetter(
+        job.payload.change,
+        job.payload.ref,
+        job.commitSha,
+        error,
+        job.attempts
+      );
+    }
+    return 'dead';
+  }
+
+  const runAt = new Date(Date.now() + getRetryDelay(job.attempts)).toISOString();
+  await sql`
+    UPDATE sync_jobs SET
+      status = 'pending', run_at = ${runAt}, last_error = ${error},
+      locked_at = NULL, updated_at = NOW()
+    WHERE id = ${job.id}
+  `;
+  return 'pending';
+}
+
+/**
+ * Cancel pending file retries for the paths a change touches on a ref
+ */
+async function cancelPendingRetries(change: SyncFileChange, ref: string): Promise<void> {
+  const paths = change.from ? [change.path, change.from] : [change.path];
+
+  for (const path of paths) {
+    await sql`
+      UPDATE sync_jobs SET status = 'cancelled', updated_at = NOW()
+      WHERE kind = 'file'
+        AND status = 'pending'
+        AND payload->>'ref' = ${ref}
+        AND payload->'change'->>'path' = ${path}
+    `;
+  }
+}
+
+/**
+ * Record a dead-lettered file in the sync_logs of its environment
+ */
+async function logDeadLetter(
+  change: SyncFileChange,
+  ref: string,
+  commitSha: string,
+  error: string,
+  attempts: number
+): Promise<void> {
+  const resourceType = getResourceTypeFromPath(change.path);
+  const environment = getEnvironmentForRef(ref);
+  if (!resourceType || !environment) {
+    return;
+  }
+
+  // The row may never have existed, so there is no id to record
+  await runInEnvironment(environment, ref, () =>
+    logSync('sync', resourceType, null, commitSha, 'error', {
+      path: change.path,
+      slug: extractSlugFromPath(change.path),
+      error,
+      attempts,
+      deadLettered: true,
+    })
+  );
+}
+
+// ===========================================================================
+// Utility Functions
+// ===========================================================================
+
+/**
+ * Delay before the next attempt of a failed job
+ *
+ * Doubles with each attempt: 30s, 1m, 2m, 4m... capped at one hour.
+ *
+ * @param attempts - Attempts made so far
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Map database row to SyncJob type
+ */
+function mapRowToJob(row: any): SyncJob {
+  return {
+    id: row.id,
+    kind: row.kind,
+    status: row.status,
+    payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+    commitSha: row.commit_sha,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: new Date(row.run_at),
+    lastError: row.last_error || undefined,
+    parentId: row.parent_id || undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
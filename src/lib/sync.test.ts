@@ -5,29 +5,20 @@
  * file processing, and database upsert operations.
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import crypto from 'crypto';
 
 // Mock database adapter
-const { mockSql } = vi.hoisted(() => ({
+const { mockSql, mockTransaction } = vi.hoisted(() => ({
   mockSql: vi.fn(),
+  mockTransaction: vi.fn((callback: () => Promise<unknown>) => callback()),
 }));
 
 // Mock dependencies
-vi.mock('@octokit/rest', () => {
-  const mockGetContent = vi.fn();
-  return {
-    Octokit: class MockOctokit {
-      repos = {
-        getContent: mockGetContent,
-      };
-      constructor() {}
-    },
-  };
-});
-
 vi.mock('./db-adapter', () => ({
   sql: mockSql,
+  transaction: mockTransaction,
+  withDatabase: vi.fn((_target: unknown, callback: () => Promise<unknown>) => callback()),
   getCurrentDriver: vi.fn(() => 'neon'),
   closeDatabase: vi.fn(),
 }));
@@ -36,9 +27,13 @@ vi.mock('./markdown', () => ({
   parsePostFrontmatter: vi.fn(),
   parseAuthorFrontmatter: vi.fn(),
   parsePageFrontmatter: vi.fn(),
+  parseTagFrontmatter: vi.fn(),
+  parseCategoryFrontmatter: vi.fn(),
+  parseEntryFrontmatter: vi.fn(),
   markdownToHtml: vi.fn(),
   calculateReadingTime: vi.fn(),
   extractExcerpt: vi.fn(),
+  slugify: vi.fn(),
 }));
 
 vi.mock('./db', () => ({
@@ -47,7 +42,6 @@ vi.mock('./db', () => ({
 }));
 
 // Import mocked modules
-import { Octokit } from '@octokit/rest';
 import * as markdown from './markdown';
 import * as db from './db';
 import {
@@ -56,15 +50,32 @@ import {
   extractSlugFromPath,
   getResourceTypeFromPath,
   filterContentFiles,
-  fetchFileFromGitHub,
+  mergeCommitChanges,
+  getChangeSet,
+  getFileChanges,
+  getChangeStages,
+  detectRenames,
   processFile,
   processDeletedFile,
+  processRenamedFile,
   upsertPost,
   upsertAuthor,
   upsertPage,
+  upsertTag,
+  upsertCategory,
+  upsertEntry,
+  syncRelation,
   logSync,
+  runInEnvironment,
+  planReconciliation,
+  pruneOrphans,
+  collectGarbage,
+  computeContentHash,
+  mapWithConcurrency,
 } from './sync';
-import type { GitHubWebhookPayload } from '@/types';
+import type { RelationDefinition } from './sync';
+import { getContentType } from './content-types';
+import type { GitHubWebhookPayload, GitHubWebhookCommit, ContentSource } from '@/types';
 
 // ===========================================================================
 // Webhook Signature Verification Tests
@@ -126,6 +137,18 @@ describe('verifyWebhookSignature', () => {
 // Path Utility Tests
 // ===========================================================================
 
+describe('computeContentHash', () => {
+  it('should match the git blob SHA', () => {
+    // printf hello | git hash-object --stdin
+    expect(computeContentHash('hello')).toBe('b6fc4c620b67d95f953a5c1c1230aaab5db5a1b0');
+  });
+
+  it('should hash multi-byte content by byte length', () => {
+    expect(computeContentHash('héllo')).not.toBe(computeContentHash('hello'));
+    expect(computeContentHash('héllo')).toHaveLength(40);
+  });
+});
+
 describe('extractSlugFromPath', () => {
   it('should extract slug from post path', () => {
     expect(extractSlugFromPath('content/posts/2024-01-15-hello-world.md')).toBe('hello-world');
@@ -143,6 +166,17 @@ describe('extractSlugFromPath', () => {
     expect(extractSlugFromPath('content/pages/contact.md')).toBe('contact');
   });
 
+  it('should keep the directory path of nested pages', () => {
+    expect(extractSlugFromPath('content/pages/docs/install.md')).toBe('docs/install');
+    expect(extractSlugFromPath('content/pages/docs/guides/deploy.md')).toBe('docs/guides/deploy');
+  });
+
+  it('should use the directory as the slug of an index page', () => {
+    expect(extractSlugFromPath('content/pages/docs/index.md')).toBe('docs');
+    expect(extractSlugFromPath('content/pages/docs/guides/index.md')).toBe('docs/guides');
+    expect(extractSlugFromPath('content/pages/index.md')).toBe('index');
+  });
+
   it('should handle paths without date prefix', () => {
     expect(extractSlugFromPath('content/authors/jane-smith.md')).toBe('jane-smith');
   });
@@ -169,6 +203,18 @@ describe('getResourceTypeFromPath', () => {
     expect(getResourceTypeFromPath('content/pages/about.md')).toBe('page');
   });
 
+  it('should identify tag paths', () => {
+    expect(getResourceTypeFromPath('content/tags/machine-learning.md')).toBe('tag');
+  });
+
+  it('should identify category paths', () => {
+    expect(getResourceTypeFromPath('content/categories/frontend.md')).toBe('category');
+  });
+
+  it('should identify paths of content types in hexcms.config.ts', () => {
+    expect(getResourceTypeFromPath('content/case-studies/acme.md')).toBe('entry');
+  });
+
   it('should return null for non-content paths', () => {
     expect(getResourceTypeFromPath('src/lib/utils.ts')).toBeNull();
     expect(getResourceTypeFromPath('README.md')).toBeNull();
@@ -200,6 +246,16 @@ describe('filterContentFiles', () => {
     ]);
   });
 
+  it('should skip markdown outside known content directories', () => {
+    const files = [
+      'content/README.md',
+      'content/templates/post-template.md',
+      'content/posts/2024-01-15-test.md',
+    ];
+
+    expect(filterContentFiles(files)).toEqual(['content/posts/2024-01-15-test.md']);
+  });
+
   it('should return empty array when no content files', () => {
     const files = ['src/index.ts', 'package.json', 'README.md'];
     const result = filterContentFiles(files);
@@ -213,52 +269,324 @@ describe('filterContentFiles', () => {
 });
 
 // ===========================================================================
-// GitHub File Fetching Tests
+// Change Set Tests
 // ===========================================================================
 
-describe('fetchFileFromGitHub', () => {
+function makeCommit(
+  id: string,
+  changes: Partial<Pick<GitHubWebhookCommit, 'added' | 'modified' | 'removed'>>
+): GitHubWebhookCommit {
+  return {
+    id,
+    message: `Commit ${id}`,
+    timestamp: '2024-01-15T12:00:00Z',
+    author: { name: 'John Doe', email: 'john@example.com' },
+    added: changes.added || [],
+    modified: changes.modified || [],
+    removed: changes.removed || [],
+  };
+}
+
+function createMockSource(): ContentSource {
+  return {
+    type: 'local',
+    description: 'mock',
+    defaultRef: 'main',
+    resolveRef: vi.fn(),
+    listFiles: vi.fn(),
+    fetchFile: vi.fn(),
+    diff: vi.fn(),
+  };
+}
+
+describe('mergeCommitChanges', () => {
+  it('should keep files touched only by earlier commits', () => {
+    const result = mergeCommitChanges([
+      makeCommit('c1', { added: ['content/posts/a.md'] }),
+      makeCommit('c2', { modified: ['content/posts/b.md'] }),
+      makeCommit('c3', { modified: ['content/pages/about.md'] }),
+    ]);
+
+    expect(result.upserted).toEqual([
+      'content/posts/a.md',
+      'content/posts/b.md',
+      'content/pages/about.md',
+    ]);
+    expect(result.removed).toEqual([]);
+  });
+
+  it('should remove a file added then deleted within the push', () => {
+    const result = mergeCommitChanges([
+      makeCommit('c1', { added: ['content/posts/a.md'] }),
+      makeCommit('c2', { modified: ['content/posts/a.md'] }),
+      makeCommit('c3', { removed: ['content/posts/a.md'] }),
+    ]);
+
+    expect(result.upserted).toEqual([]);
+    expect(result.removed).toEqual(['content/posts/a.md']);
+  });
+
+  it('should upsert a file deleted then re-added within the push', () => {
+    const result = mergeCommitChanges([
+      makeCommit('c1', { removed: ['content/posts/a.md'] }),
+      makeCommit('c2', { added: ['content/posts/a.md'] }),
+    ]);
+
+    expect(result.upserted).toEqual(['content/posts/a.md']);
+    expect(result.removed).toEqual([]);
+  });
+
+  it('should list each file once', () => {
+    const result = mergeCommitChanges([
+      makeCommit('c1', { modified: ['content/posts/a.md'] }),
+      makeCommit('c2', { modified: ['content/posts/a.md'] }),
+    ]);
+
+    expect(result.upserted).toEqual(['content/posts/a.md']);
+  });
+});
+
+describe('getChangeSet', () => {
+  const basePayload: GitHubWebhookPayload = {
+    ref: 'refs/heads/main',
+    before: 'abc123',
+    after: 'c2',
+    repository: {
+      name: 'test-repo',
+      full_name: 'owner/test-repo',
+      owner: { name: 'owner', email: 'owner@example.com' },
+    },
+    head_commit: makeCommit('c2', { modified: ['content/posts/b.md'] }),
+  };
+
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
-  it('should fetch and decode file content', async () => {
-    const fileContent = 'Test content';
-    const base64Content = Buffer.from(fileContent).toString('base64');
+  it('should fall back to head_commit when commits are missing', async () => {
+    const result = await getChangeSet(basePayload);
 
-    const mockOctokit = new Octokit();
-    (mockOctokit.repos.getContent as any).mockResolvedValue({
-      data: {
-        type: 'file',
-        content: base64Content,
-      },
-    });
+    expect(result.upserted).toEqual(['content/posts/b.md']);
+  });
 
-    const result = await fetchFileFromGitHub('content/posts/test.md', 'abc123');
+  it('should merge all commits in the push', async () => {
+    const result = await getChangeSet({
+      ...basePayload,
+      commits: [
+        makeCommit('c1', { added: ['content/posts/a.md'] }),
+        basePayload.head_commit,
+      ],
+    });
 
-    expect(result).toBe(fileContent);
+    expect(result.upserted).toEqual(['content/posts/a.md', 'content/posts/b.md']);
   });
 
-  it('should throw error for directory paths', async () => {
-    const mockOctokit = new Octokit();
-    (mockOctokit.repos.getContent as any).mockResolvedValue({
-      data: [
-        { type: 'file', name: 'file1.md' },
-        { type: 'file', name: 'file2.md' },
-      ],
+  it('should diff through the content source when commits may be truncated', async () => {
+    const source = createMockSource();
+    (source.diff as any).mockResolvedValue({
+      upserted: ['content/posts/new.md'],
+      removed: ['content/posts/gone.md'],
+      renamed: [],
+    });
+
+    const commits = Array.from({ length: 20 }, (_, i) =>
+      makeCommit(`c${i}`, { modified: ['content/posts/b.md'] })
+    );
+
+    const result = await getChangeSet({ ...basePayload, commits, size: 35 }, source);
+
+    expect(source.diff).toHaveBeenCalledWith('abc123', 'c2');
+    expect(result).toEqual({
+      upserted: ['content/posts/new.md'],
+      removed: ['content/posts/gone.md'],
+      renamed: [],
     });
+  });
+
+  it('should merge a push of exactly 20 commits without diffing', async () => {
+    const source = createMockSource();
+    const commits = Array.from({ length: 20 }, (_, i) =>
+      makeCommit(`c${i}`, { added: [`content/posts/post-${i}.md`] })
+    );
+
+    const result = await getChangeSet({ ...basePayload, commits, size: 20 }, source);
+
+    expect(source.diff).not.toHaveBeenCalled();
+    expect(result.upserted).toHaveLength(20);
+    expect(result.upserted).toContain('content/posts/post-19.md');
+  });
+
+  it('should diff when GitHub\'s commit limit is reached and size is missing', async () => {
+    const source = createMockSource();
+    (source.diff as any).mockResolvedValue({ upserted: [], removed: [], renamed: [] });
+    const commits = Array.from({ length: 2048 }, (_, i) =>
+      makeCommit(`c${i}`, { modified: ['content/posts/b.md'] })
+    );
+
+    await getChangeSet({ ...basePayload, commits }, source);
+
+    expect(source.diff).toHaveBeenCalledWith('abc123', 'c2');
+  });
+
+  it('should not diff new branches', async () => {
+    const source = createMockSource();
+    const commits = Array.from({ length: 20 }, (_, i) =>
+      makeCommit(`c${i}`, { modified: ['content/posts/b.md'] })
+    );
+
+    const result = await getChangeSet(
+      {
+        ...basePayload,
+        before: '0000000000000000000000000000000000000000',
+        commits,
+        size: 35,
+      },
+      source
+    );
 
-    await expect(fetchFileFromGitHub('content/posts', 'abc123')).rejects.toThrow(
-      'Path is not a file'
+    expect(source.diff).not.toHaveBeenCalled();
+    expect(result.upserted).toEqual(['content/posts/b.md']);
+  });
+});
+
+describe('getFileChanges', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSql.mockResolvedValue([]);
+  });
+
+  it('should apply authors first and delete them last', async () => {
+    const source = createMockSource();
+    (source.fetchFile as any).mockImplementation(async (path: string) => path);
+
+    const changes = await getFileChanges(
+      {
+        ref: 'refs/heads/main',
+        before: 'abc123',
+        after: 'def456',
+        repository: {
+          name: 'test-repo',
+          full_name: 'owner/test-repo',
+          owner: { name: 'owner', email: 'owner@example.com' },
+        },
+        head_commit: makeCommit('def456', {
+          added: ['content/posts/new.md', 'content/authors/jane.md', 'content/pages/about.md'],
+          removed: ['content/authors/john.md', 'content/posts/old.md'],
+        }),
+      },
+      source
     );
+
+    expect(changes).toEqual([
+      { type: 'upsert', path: 'content/authors/jane.md' },
+      { type: 'upsert', path: 'content/posts/new.md' },
+      { type: 'upsert', path: 'content/pages/about.md' },
+      { type: 'delete', path: 'content/posts/old.md' },
+      { type: 'delete', path: 'content/authors/john.md' },
+    ]);
+  });
+});
+
+describe('getChangeStages', () => {
+  it('should group changes that can be applied together', () => {
+    const stages = getChangeStages([
+      { type: 'upsert', path: 'content/authors/jane.md' },
+      { type: 'upsert', path: 'content/authors/john.md' },
+      { type: 'rename', path: 'content/posts/b.md', from: 'content/posts/a.md' },
+      { type: 'rename', path: 'content/posts/c.md', from: 'content/posts/b.md' },
+      { type: 'upsert', path: 'content/posts/new.md' },
+      { type: 'upsert', path: 'content/pages/about.md' },
+      { type: 'delete', path: 'content/posts/old.md' },
+      { type: 'delete', path: 'content/authors/sam.md' },
+    ]);
+
+    expect(stages.map((stage) => stage.map(({ path }) => path))).toEqual([
+      ['content/authors/jane.md', 'content/authors/john.md'],
+      ['content/posts/b.md'],
+      ['content/posts/c.md'],
+      ['content/posts/new.md', 'content/pages/about.md'],
+      ['content/posts/old.md'],
+      ['content/authors/sam.md'],
+    ]);
+  });
+});
+
+describe('detectRenames', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
   });
 
-  it('should handle API errors', async () => {
-    const mockOctokit = new Octokit();
-    (mockOctokit.repos.getContent as any).mockRejectedValue(new Error('Not found'));
+  it('should pair removed and added files with the same content', async () => {
+    const source = createMockSource();
+    (source.fetchFile as any).mockImplementation(async (path: string) =>
+      path === 'content/posts/2024-02-01-hello.md' ? 'hello' : 'other'
+    );
+    mockSql.mockResolvedValue([
+      { source_path: 'content/posts/2024-01-15-hello.md', content_hash: computeContentHash('hello') },
+    ]);
 
-    await expect(fetchFileFromGitHub('invalid/path.md', 'abc123')).rejects.toThrow(
-      'Failed to fetch file from GitHub'
+    const result = await detectRenames(
+      {
+        upserted: ['content/posts/2024-02-01-hello.md', 'content/posts/other.md'],
+        removed: ['content/posts/2024-01-15-hello.md'],
+        renamed: [],
+      },
+      'abc123',
+      source
     );
+
+    expect(result).toEqual({
+      upserted: ['content/posts/other.md'],
+      removed: [],
+      renamed: [
+        { from: 'content/posts/2024-01-15-hello.md', to: 'content/posts/2024-02-01-hello.md' },
+      ],
+    });
+  });
+
+  it('should not fetch files when nothing was removed', async () => {
+    const source = createMockSource();
+    const changes = { upserted: ['content/posts/a.md'], removed: [], renamed: [] };
+
+    const result = await detectRenames(changes, 'abc123', source);
+
+    expect(result).toBe(changes);
+    expect(source.fetchFile).not.toHaveBeenCalled();
+    expect(mockSql).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================================================
+// Concurrency Tests
+// ===========================================================================
+
+describe('mapWithConcurrency', () => {
+  it('should keep at most the given number of calls in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5 - n));
+      inFlight--;
+      return n * 10;
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+  });
+
+  it('should stop starting calls after one rejects', async () => {
+    const fn = vi.fn(async (n: number) => {
+      if (n === 1) {
+        throw new Error('boom');
+      }
+      return n;
+    });
+
+    await expect(mapWithConcurrency([1, 2, 3], 1, fn)).rejects.toThrow('boom');
+    expect(fn).toHaveBeenCalledTimes(1);
   });
 });
 
@@ -301,6 +629,131 @@ describe('processWebhook', () => {
     expect(result.processed).toBe(0);
     expect(result.errors).toEqual([]);
   });
+
+  it('should ignore pushes to branches not mapped to an environment', async () => {
+    const source = createMockSource();
+    const payload: GitHubWebhookPayload = {
+      ref: 'refs/heads/feature/new-theme',
+      before: 'abc123',
+      after: 'def456',
+      repository: {
+        name: 'test-repo',
+        full_name: 'owner/test-repo',
+        owner: { name: 'owner', email: 'owner@example.com' },
+      },
+      head_commit: makeCommit('def456', { modified: ['content/posts/a.md'] }),
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await processWebhook(payload, { source });
+
+    expect(result.ignored).toBe(true);
+    expect(result.processed).toBe(0);
+    expect(source.fetchFile).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('refs/heads/feature/new-theme'));
+    warn.mockRestore();
+  });
+
+  describe('atomic mode', () => {
+    const payload: GitHubWebhookPayload = {
+      ref: 'refs/heads/main',
+      before: 'abc123',
+      after: 'def456',
+      repository: {
+        name: 'test-repo',
+        full_name: 'owner/test-repo',
+        owner: { name: 'owner', email: 'owner@example.com' },
+      },
+      head_commit: makeCommit('def456', {
+        removed: ['content/posts/a.md', 'content/posts/b.md'],
+      }),
+    };
+
+    it('should continue past failing files without atomic mode', async () => {
+      mockSql.mockRejectedValue(new Error('Database unavailable'));
+
+      const result = await processWebhook(payload);
+
+      expect(mockTransaction).not.toHaveBeenCalled();
+      expect(result.errors.map((e) => e.file)).toEqual([
+        'content/posts/a.md',
+        'content/posts/b.md',
+      ]);
+      expect(result.rollback).toBeUndefined();
+    });
+
+    it('should run the push in one transaction', async () => {
+      mockSql.mockResolvedValue([]);
+
+      const result = await processWebhook(payload, { atomic: true });
+
+      expect(mockTransaction).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(true);
+      expect(result.processed).toBe(2);
+    });
+
+    it('should stop at the first failure and report the file', async () => {
+      mockSql.mockRejectedValue(new Error('Database unavailable'));
+
+      const result = await processWebhook(payload, { atomic: true });
+
+      expect(result.success).toBe(false);
+      expect(result.processed).toBe(0);
+      expect(result.rollback).toEqual({
+        file: 'content/posts/a.md',
+        error: 'Database unavailable',
+      });
+      expect(result.errors).toEqual([result.rollback]);
+    });
+
+    it('should log the rollback without a resource id', async () => {
+      mockSql.mockRejectedValue(new Error('Database unavailable'));
+
+      await processWebhook(payload, { atomic: true });
+
+      // The rolled-back row may not exist, so the slug goes in the metadata
+      const log = mockSql.mock.calls.findLast(([strings]) =>
+        Array.isArray(strings) && strings.join('?').includes('INSERT INTO sync_logs')
+      );
+      expect(log?.slice(1, 4)).toEqual(['sync', 'post', null]);
+      expect(JSON.parse(log?.[7])).toMatchObject({
+        path: 'content/posts/a.md',
+        slug: 'a',
+        error: 'Database unavailable',
+        rolledBack: true,
+      });
+    });
+
+    it('should collect garbage after applying the push', async () => {
+      mockSql.mockResolvedValue([]);
+
+      await processWebhook(payload, { atomic: true });
+
+      const queries = mockSql.mock.calls.map(([query]) => String(query));
+      expect(queries.some((query) => query.startsWith('DELETE FROM tags WHERE'))).toBe(true);
+      expect(queries.some((query) => query.startsWith('DELETE FROM authors WHERE'))).toBe(true);
+    });
+
+    it('should not collect garbage after a rollback', async () => {
+      mockSql.mockRejectedValue(new Error('Database unavailable'));
+
+      await processWebhook(payload, { atomic: true });
+
+      const queries = mockSql.mock.calls.map(([query]) => String(query));
+      expect(queries.some((query) => query.startsWith('DELETE FROM tags WHERE'))).toBe(false);
+    });
+
+    it('should not collect garbage when disabled', async () => {
+      vi.stubEnv('SYNC_GARBAGE_COLLECT', 'false');
+      mockSql.mockResolvedValue([]);
+
+      await processWebhook(payload, { atomic: true });
+
+      const queries = mockSql.mock.calls.map(([query]) => String(query));
+      expect(queries.some((query) => query.startsWith('DELETE FROM tags WHERE'))).toBe(false);
+      vi.unstubAllEnvs();
+    });
+  });
 });
 
 // ===========================================================================
@@ -317,6 +770,115 @@ describe('processFile', () => {
       'Invalid content path'
     );
   });
+
+  it('should read the file from the given content source', async () => {
+    const source = createMockSource();
+    (source.fetchFile as any).mockResolvedValue('---\nname: John Doe\n---\n');
+    (markdown.parseAuthorFrontmatter as any).mockReturnValue({ name: 'John Doe' });
+    mockSql.mockResolvedValue([{ id: 'author-123' }]);
+
+    await processFile('content/authors/john-doe.md', 'abc123', source);
+
+    expect(source.fetchFile).toHaveBeenCalledWith('content/authors/john-doe.md', 'abc123');
+    expect(markdown.parseAuthorFrontmatter).toHaveBeenCalledWith('---\nname: John Doe\n---\n');
+  });
+
+  it('should sync a directory index page as the directory and nest its subpages', async () => {
+    const source = createMockSource();
+    (source.fetchFile as any).mockResolvedValue('---\ntitle: Docs\n---\nWelcome');
+    (markdown.parsePageFrontmatter as any).mockReturnValue({
+      data: { title: 'Docs', status: 'published' },
+      content: 'Welcome',
+    });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>Welcome</p>');
+    mockSql.mockResolvedValue([{ id: 'page-docs' }]);
+
+    await processFile('content/pages/docs/index.md', 'abc123', source);
+
+    const queries = mockSql.mock.calls.filter(([strings]) => Array.isArray(strings));
+    const upsert = queries.find(([strings]) => strings.join('?').includes('INSERT INTO pages'));
+    const link = queries.find(([strings]) => strings.join('?').includes('UPDATE pages child SET parent_id'));
+    expect(upsert).toContain('docs');
+    expect(upsert).toContain('content/pages/docs/index.md');
+    // docs/install and the rest of the section now nest under this page
+    expect(link!.slice(1)).toEqual(['docs', 'docs/']);
+  });
+
+  it('should skip files whose content hash and path are unchanged', async () => {
+    const source = createMockSource();
+    (source.fetchFile as any).mockResolvedValue('hello');
+    mockSql.mockResolvedValue([
+      {
+        id: 'author-123',
+        source_path: 'content/authors/john-doe.md',
+        content_hash: computeContentHash('hello'),
+      },
+    ]);
+
+    const outcome = await processFile('content/authors/john-doe.md', 'abc123', source);
+
+    expect(outcome).toBe('skipped');
+    expect(markdown.parseAuthorFrontmatter).not.toHaveBeenCalled();
+    // Lookup plus the skipped sync log entry
+    expect(mockSql).toHaveBeenCalledTimes(2);
+    expect(mockSql.mock.calls[1]).toContain('skipped');
+  });
+
+  it('should rewrite unchanged files when forced', async () => {
+    const source = createMockSource();
+    (source.fetchFile as any).mockResolvedValue('hello');
+    (markdown.parseAuthorFrontmatter as any).mockReturnValue({ name: 'John Doe' });
+    mockSql.mockResolvedValue([
+      {
+        id: 'author-123',
+        source_path: 'content/authors/john-doe.md',
+        content_hash: computeContentHash('hello'),
+      },
+    ]);
+
+    const outcome = await processFile('content/authors/john-doe.md', 'abc123', source, {
+      force: true,
+    });
+
+    expect(outcome).toBe('synced');
+    expect(markdown.parseAuthorFrontmatter).toHaveBeenCalled();
+  });
+
+  it('should sync entries with the slug from their content type', async () => {
+    const source = createMockSource();
+    (source.fetchFile as any).mockResolvedValue('---\nversion: 1.2.0\n---\n');
+    (markdown.parseEntryFrontmatter as any).mockReturnValue({
+      data: { title: 'Release', version: '1.2.0', releasedAt: '2024-01-15' },
+      content: 'Notes',
+    });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>Notes</p>');
+    mockSql.mockResolvedValue([{ id: 'entry-123' }]);
+
+    const outcome = await processFile('content/changelog/2024-01-15-release.md', 'abc123', source);
+
+    expect(outcome).toBe('synced');
+    expect(markdown.parseEntryFrontmatter).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'changelog' }),
+      '---\nversion: 1.2.0\n---\n'
+    );
+    const insert = mockSql.mock.calls.find(([strings]) =>
+      Array.isArray(strings) && strings.join('?').includes('INSERT INTO entries')
+    );
+    expect(insert!.slice(1, 3)).toEqual(['changelog', 'v1-2-0']);
+  });
+
+  it('should skip entries whose file is unchanged', async () => {
+    const source = createMockSource();
+    (source.fetchFile as any).mockResolvedValue('hello');
+    mockSql.mockResolvedValue([
+      { id: 'entry-123', slug: 'acme', content_hash: computeContentHash('hello') },
+    ]);
+
+    const outcome = await processFile('content/case-studies/acme.md', 'abc123', source);
+
+    expect(outcome).toBe('skipped');
+    expect(markdown.parseEntryFrontmatter).not.toHaveBeenCalled();
+  });
 });
 
 describe('processDeletedFile', () => {
@@ -324,55 +886,585 @@ describe('processDeletedFile', () => {
     vi.clearAllMocks();
   });
 
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
   it('should throw error for invalid paths', async () => {
     await expect(processDeletedFile('invalid/path.md', 'abc123')).rejects.toThrow(
       'Invalid content path'
     );
   });
-});
 
-// ===========================================================================
-// Upsert Operation Tests
-// ===========================================================================
+  it('should refuse to delete an author that still has posts', async () => {
+    mockSql.mockResolvedValueOnce([{ slug: 'hello-world' }]).mockResolvedValue([]);
 
-describe('upsertPost', () => {
-  beforeEach(() => {
-    vi.clearAllMocks();
+    await expect(
+      processDeletedFile('content/authors/john-doe.md', 'abc123')
+    ).rejects.toThrow('Cannot delete author john-doe: 1 post(s) still reference it (hello-world)');
   });
 
-  it('should call markdown and db functions correctly', async () => {
-    const frontmatter = {
-      title: 'Test Post',
-      author: 'john-doe',
-      publishedAt: '2024-01-15',
-      tags: ['javascript'],
-      status: 'published' as const,
-    };
+  it('should keep a tag that posts still use and clear its definition', async () => {
+    mockSql.mockResolvedValueOnce([{ id: 'tag-1' }]).mockResolvedValue([]);
 
-    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
-    (markdown.markdownToHtml as any).mockResolvedValue('<p>HTML content</p>');
-    (markdown.calculateReadingTime as any).mockReturnValue(5);
-    (markdown.extractExcerpt as any).mockReturnValue('Excerpt text');
-    (db.getTagBySlug as any).mockResolvedValue({ id: 'tag-1' });
+    await processDeletedFile('content/tags/machine-learning.md', 'abc123');
 
-    mockSql.mockResolvedValue([{ id: 'post-123' }]);
+    const queries = mockSql.mock.calls.map(([strings]) => strings.join('?'));
+    expect(queries[0]).toContain('UPDATE tags SET');
+    // Without its file the tag is collected like a placeholder once unused
+    expect(queries[0]).toContain('auto_created = true');
+    expect(queries.some((query) => query.includes('DELETE'))).toBe(false);
+    expect(mockSql.mock.calls[1]).toContain('update');
+  });
 
-    await upsertPost('test-post', frontmatter, 'Content', 'abc123');
+  it('should keep a category that posts or subcategories still use', async () => {
+    mockSql.mockResolvedValueOnce([{ id: 'cat-1' }]).mockResolvedValue([]);
 
-    expect(db.getAuthorBySlug).toHaveBeenCalledWith('john-doe');
-    expect(markdown.markdownToHtml).toHaveBeenCalledWith('Content');
-    expect(markdown.calculateReadingTime).toHaveBeenCalledWith('Content');
+    await processDeletedFile('content/categories/frontend.md', 'abc123');
+
+    const queries = mockSql.mock.calls.map(([strings]) => strings.join('?'));
+    expect(queries[0]).toContain('UPDATE categories SET');
+    expect(queries[0]).toContain('child.parent_id = categories.id');
+    expect(queries.some((query) => query.includes('DELETE'))).toBe(false);
+  });
+
+  it('should delete a tag no post uses', async () => {
+    mockSql.mockResolvedValueOnce([]).mockResolvedValueOnce([{ id: 'tag-1' }]).mockResolvedValue([]);
+
+    await processDeletedFile('content/tags/machine-learning.md', 'abc123');
+
+    expect(mockSql.mock.calls[1]).toEqual([
+      'DELETE FROM tags WHERE slug = $1 RETURNING id',
+      ['machine-learning'],
+    ]);
+  });
+
+  it('should move the subpages of a deleted page up to the next page above', async () => {
+    mockSql.mockResolvedValueOnce([{ id: 'page-1' }]).mockResolvedValue([]);
+
+    await processDeletedFile('content/pages/docs/guides.md', 'abc123');
+
+    expect(mockSql.mock.calls[0]).toEqual([
+      'DELETE FROM pages WHERE slug = $1 RETURNING id',
+      ['docs/guides'],
+    ]);
+    const [strings, ...values] = mockSql.mock.calls[1];
+    expect(strings.join('?')).toContain('UPDATE pages child SET parent_id');
+    expect(values).toEqual(['docs/guides', 'docs/guides/']);
+  });
+
+  it('should reassign posts when the policy is reassign', async () => {
+    vi.stubEnv('SYNC_AUTHOR_DELETE_POLICY', 'reassign');
+    vi.stubEnv('SYNC_AUTHOR_REASSIGN_TO', 'editorial-team');
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-2' });
+    mockSql
+      .mockResolvedValueOnce([{ slug: 'hello-world' }])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'author-1' }])
+      .mockResolvedValue([]);
+
+    await processDeletedFile('content/authors/john-doe.md', 'abc123');
+
+    expect(db.getAuthorBySlug).toHaveBeenCalledWith('editorial-team');
+    const [strings, ...values] = mockSql.mock.calls[1];
+    expect(strings.join('?')).toContain('UPDATE posts SET author_id');
+    expect(values).toEqual(['author-2', 'john-doe']);
+    expect(mockSql.mock.calls[2][0].join('?')).toContain('UPDATE post_authors SET author_id');
+    expect(mockSql.mock.calls[4]).toContain(
+      JSON.stringify({
+        path: 'content/authors/john-doe.md',
+        slug: 'john-doe',
+        reassignedPosts: 1,
+        reassignedTo: 'editorial-team',
+      })
+    );
   });
 });
 
-describe('upsertAuthor', () => {
+describe('processRenamedFile', () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
-  it('should upsert author with all fields', async () => {
-    const frontmatter = {
-      name: 'John Doe',
+  it('should move the row to the new slug and record a redirect', async () => {
+    const source = createMockSource();
+    (source.fetchFile as any).mockResolvedValue('---\nname: Jane Doe\n---\n');
+    (markdown.parseAuthorFrontmatter as any).mockReturnValue({ name: 'Jane Doe' });
+    mockSql.mockResolvedValue([{ id: 'author-123' }]);
+
+    await processRenamedFile(
+      'content/authors/jane.md',
+      'content/authors/jane-doe.md',
+      'abc123',
+      source
+    );
+
+    const [query, params] = mockSql.mock.calls[0];
+    expect(query).toContain('UPDATE authors SET slug');
+    expect(params).toEqual(['jane-doe', 'jane']);
+
+    const statements = mockSql.mock.calls.map(([strings]) =>
+      Array.isArray(strings) ? strings.join('?') : strings
+    );
+    expect(statements.some((q) => q.includes('INSERT INTO redirects'))).toBe(true);
+  });
+
+  it('should keep the row when only the date prefix changes', async () => {
+    const source = createMockSource();
+    (source.fetchFile as any).mockResolvedValue('content');
+    (markdown.parsePostFrontmatter as any).mockReturnValue({
+      data: { title: 'Hello', author: 'john-doe' },
+      content: 'content',
+    });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>content</p>');
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
+    mockSql.mockResolvedValue([{ id: 'post-123' }]);
+
+    await processRenamedFile(
+      'content/posts/2024-01-15-hello.md',
+      'content/posts/2024-02-01-hello.md',
+      'abc123',
+      source
+    );
+
+    const statements = mockSql.mock.calls.map(([strings]) =>
+      Array.isArray(strings) ? strings.join('?') : strings
+    );
+    expect(statements.some((q) => q.includes('UPDATE posts SET slug'))).toBe(false);
+    expect(statements.some((q) => q.includes('DELETE FROM posts'))).toBe(false);
+  });
+
+  it('should move entries with their file and resync them', async () => {
+    const source = createMockSource();
+    (source.fetchFile as any).mockResolvedValue('content');
+    (markdown.parseEntryFrontmatter as any).mockReturnValue({
+      data: { title: 'Acme', client: 'Acme Corp' },
+      content: 'content',
+    });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>content</p>');
+    mockSql.mockResolvedValue([{ id: 'entry-123' }]);
+
+    const outcome = await processRenamedFile(
+      'content/case-studies/acme.md',
+      'content/case-studies/acme-corp.md',
+      'abc123',
+      source
+    );
+
+    expect(outcome).toBe('synced');
+    expect(mockSql.mock.calls[0][0].join('?')).toContain('UPDATE entries SET source_path');
+    expect(mockSql.mock.calls[0].slice(1)).toEqual([
+      'content/case-studies/acme-corp.md',
+      'case-study',
+      'content/case-studies/acme.md',
+    ]);
+  });
+
+  it('should throw error for invalid paths', async () => {
+    await expect(
+      processRenamedFile('content/posts/a.md', 'invalid/path.md', 'abc123')
+    ).rejects.toThrow('Invalid content path');
+  });
+});
+
+// ===========================================================================
+// Upsert Operation Tests
+// ===========================================================================
+
+describe('upsertPost', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should call markdown and db functions correctly', async () => {
+    const frontmatter = {
+      title: 'Test Post',
+      author: 'john-doe',
+      publishedAt: '2024-01-15',
+      tags: ['javascript'],
+      status: 'published' as const,
+    };
+
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>HTML content</p>');
+    (markdown.calculateReadingTime as any).mockReturnValue(5);
+    (markdown.extractExcerpt as any).mockReturnValue('Excerpt text');
+    (db.getTagBySlug as any).mockResolvedValue({ id: 'tag-1' });
+
+    mockSql.mockResolvedValue([{ id: 'post-123' }]);
+
+    await upsertPost('test-post', frontmatter, 'Content', 'abc123');
+
+    expect(db.getAuthorBySlug).toHaveBeenCalledWith('john-doe');
+    expect(markdown.markdownToHtml).toHaveBeenCalledWith('Content');
+    expect(markdown.calculateReadingTime).toHaveBeenCalledWith('Content');
+  });
+
+  it('should sync co-authors in order with their roles, lead author first', async () => {
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>HTML content</p>');
+    (markdown.calculateReadingTime as any).mockReturnValue(5);
+    mockSql.mockImplementation(async (query: string | TemplateStringsArray) => {
+      if (typeof query !== 'string' && query.join('?').includes('SELECT a.slug FROM post_authors')) {
+        return [{ slug: 'john-doe' }, { slug: 'former-editor' }];
+      }
+      if (typeof query !== 'string' && query.join('?').includes('INSERT INTO post_authors')) {
+        return [{ slug: 'jane-doe' }, { slug: 'john-doe' }];
+      }
+      return [{ id: 'post-123' }];
+    });
+
+    await upsertPost(
+      'test-post',
+      {
+        title: 'Test Post',
+        author: 'john-doe',
+        authors: [{ slug: 'jane-doe', role: 'illustrator' }, 'john-doe'],
+        publishedAt: '2024-01-15',
+      },
+      'Content',
+      'abc123'
+    );
+
+    const calls = mockSql.mock.calls.filter(([strings]) => typeof strings !== 'string');
+    const removal = calls.find(([strings]) => strings.join('?').includes('DELETE FROM post_authors'));
+    expect(removal!.slice(1)).toEqual(['post-123', ['former-editor']]);
+
+    const insert = calls.find(([strings]) => strings.join('?').includes('INSERT INTO post_authors'));
+    expect(insert![0].join('?')).toContain('ON CONFLICT (post_id, author_id) DO UPDATE');
+    // Upserting placeholders returns authors created concurrently too
+    expect(insert![0].join('?')).toContain('ON CONFLICT (slug) DO UPDATE SET slug = EXCLUDED.slug');
+    expect(insert!.slice(1, 3)).toEqual([['jane-doe', 'john-doe'], ['illustrator', null]]);
+
+    const log = calls.find(([strings]) => strings.join('?').includes('INSERT INTO sync_logs'));
+    expect(JSON.parse(log!.at(-1))).toMatchObject({
+      authors: ['jane-doe', 'john-doe'],
+      relations: { authors: { added: ['jane-doe'], removed: ['former-editor'] } },
+    });
+  });
+
+  it('should only log authors that were actually credited as added', async () => {
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>HTML content</p>');
+    mockSql.mockImplementation(async (query: string | TemplateStringsArray) => {
+      if (typeof query !== 'string' && query.join('?').includes('SELECT a.slug FROM post_authors')) {
+        return [];
+      }
+      if (typeof query !== 'string' && query.join('?').includes('INSERT INTO post_authors')) {
+        return [{ slug: 'john-doe' }];
+      }
+      return [{ id: 'post-123' }];
+    });
+
+    await upsertPost(
+      'test-post',
+      { title: 'Test Post', author: 'john-doe', authors: ['jane-doe'], publishedAt: '2024-01-15' },
+      'Content',
+      'abc123'
+    );
+
+    const log = mockSql.mock.calls.find(
+      ([strings]) => typeof strings !== 'string' && strings.join('?').includes('INSERT INTO sync_logs')
+    );
+    expect(JSON.parse(log!.at(-1))).toMatchObject({
+      relations: { authors: { added: ['john-doe'], removed: [] } },
+    });
+  });
+
+  it('should list the lead author first when authors omits it', async () => {
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>HTML content</p>');
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
+    mockSql.mockResolvedValue([{ id: 'post-123' }]);
+
+    await upsertPost(
+      'test-post',
+      { title: 'Test Post', author: 'john-doe', authors: ['jane-doe'], publishedAt: '2024-01-15' },
+      'Content',
+      'abc123'
+    );
+
+    expect(db.getAuthorBySlug).toHaveBeenCalledWith('john-doe');
+    const insert = mockSql.mock.calls.find(([strings]) =>
+      typeof strings !== 'string' && strings.join('?').includes('INSERT INTO post_authors')
+    );
+    expect(insert![1]).toEqual(['john-doe', 'jane-doe']);
+  });
+
+  it('should clear tags when the post has none and log the change', async () => {
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>HTML content</p>');
+    (markdown.calculateReadingTime as any).mockReturnValue(5);
+    mockSql.mockImplementation(async (query: string | TemplateStringsArray) => {
+      if (typeof query === 'string' && query.includes('SELECT t.slug')) {
+        return [{ slug: 'javascript' }];
+      }
+      return [{ id: 'post-123' }];
+    });
+
+    await upsertPost(
+      'test-post',
+      { title: 'Test Post', author: 'john-doe', publishedAt: '2024-01-15' },
+      'Content',
+      'abc123'
+    );
+
+    const queries = mockSql.mock.calls.map(([query]) => String(query));
+    expect(queries.some((query) => query.includes('DELETE FROM post_tags'))).toBe(true);
+
+    const log = mockSql.mock.calls.find(([strings]) =>
+      typeof strings !== 'string' && strings.join('?').includes('INSERT INTO sync_logs')
+    );
+    expect(JSON.parse(log!.at(-1))).toMatchObject({
+      relations: { tags: { added: [], removed: ['javascript'] } },
+    });
+  });
+
+  it('should persist SEO fields and the full frontmatter', async () => {
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>HTML content</p>');
+    (markdown.calculateReadingTime as any).mockReturnValue(5);
+    mockSql.mockResolvedValue([{ id: 'post-123' }]);
+
+    const frontmatter = {
+      title: 'Test Post',
+      author: 'john-doe',
+      publishedAt: '2024-01-15',
+      updatedAt: '2024-02-01',
+      metaDescription: 'About testing',
+      metaKeywords: ['testing', 'vitest'],
+      difficulty: 'beginner',
+    };
+    await upsertPost('test-post', frontmatter, 'Content', 'abc123');
+
+    const upsert = mockSql.mock.calls.find(([strings]) =>
+      typeof strings !== 'string' && strings.join('?').includes('INSERT INTO posts')
+    )!;
+    expect(upsert[0].join('?')).toContain('meta_keywords = EXCLUDED.meta_keywords');
+    expect(upsert).toContain('2024-02-01');
+    expect(upsert).toContain('About testing');
+    expect(upsert).toContainEqual(['testing', 'vitest']);
+    expect(upsert).toContain(JSON.stringify(frontmatter));
+  });
+
+  it('should create the series from its name and store the part number', async () => {
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>HTML content</p>');
+    (markdown.slugify as any).mockReturnValue('building-a-cms');
+    mockSql.mockImplementation(async (query: string | TemplateStringsArray) => {
+      if (typeof query !== 'string' && query.join('?').includes('INSERT INTO series')) {
+        return [{ id: 'series-1' }];
+      }
+      return [{ id: 'post-123' }];
+    });
+
+    await upsertPost(
+      'test-post',
+      {
+        title: 'Part 2',
+        author: 'john-doe',
+        publishedAt: '2024-01-15',
+        series: 'Building a CMS',
+        seriesOrder: 2,
+      },
+      'Content',
+      'abc123'
+    );
+
+    const series = mockSql.mock.calls.find(([strings]) =>
+      typeof strings !== 'string' && strings.join('?').includes('INSERT INTO series')
+    )!;
+    expect(series.slice(1)).toEqual(['building-a-cms', 'Building a CMS']);
+
+    const upsert = mockSql.mock.calls.find(([strings]) =>
+      typeof strings !== 'string' && strings.join('?').includes('INSERT INTO posts')
+    )!;
+    expect(upsert[0].join('?')).toContain('series_order = EXCLUDED.series_order');
+    expect(upsert).toContain('series-1');
+    expect(upsert).toContain(2);
+  });
+
+  it('should create a missing category and link the post to it', async () => {
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>HTML content</p>');
+    mockSql.mockImplementation(async (query: string | TemplateStringsArray) => {
+      if (typeof query !== 'string' && query.join('?').includes('SELECT id FROM categories')) {
+        return [{ id: 'cat-fe' }];
+      }
+      return [{ id: 'post-123' }];
+    });
+
+    await upsertPost(
+      'test-post',
+      { title: 'Test Post', author: 'john-doe', publishedAt: '2024-01-15', category: 'frontend' },
+      'Content',
+      'abc123'
+    );
+
+    const placeholder = mockSql.mock.calls.find(([strings]) =>
+      typeof strings !== 'string' && strings.join('?').includes('INSERT INTO categories')
+    )!;
+    expect(placeholder.slice(1)).toEqual(['frontend', 'frontend']);
+
+    const upsert = mockSql.mock.calls.find(([strings]) =>
+      typeof strings !== 'string' && strings.join('?').includes('INSERT INTO posts')
+    )!;
+    expect(upsert[0].join('?')).toContain('category_id = EXCLUDED.category_id');
+    expect(upsert).toContain('cat-fe');
+  });
+
+  it('should record a revision for the commit', async () => {
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>HTML content</p>');
+    (markdown.calculateReadingTime as any).mockReturnValue(5);
+    mockSql.mockResolvedValue([{ id: 'post-123' }]);
+
+    const frontmatter = { title: 'Test Post', author: 'john-doe', publishedAt: '2024-01-15' };
+    await upsertPost('test-post', frontmatter, 'Content', 'abc123');
+
+    const revision = mockSql.mock.calls.find(([query]) =>
+      typeof query === 'string' && query.includes('INSERT INTO post_revisions')
+    );
+    expect(revision![1]).toEqual([
+      'post-123',
+      'abc123',
+      'Test Post',
+      'Content',
+      JSON.stringify(frontmatter),
+    ]);
+  });
+
+  it('should store published posts dated in the future as scheduled', async () => {
+    (db.getAuthorBySlug as any).mockResolvedValue({ id: 'author-123' });
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>HTML content</p>');
+    (markdown.calculateReadingTime as any).mockReturnValue(5);
+    mockSql.mockResolvedValue([{ id: 'post-123', status: 'scheduled' }]);
+
+    await upsertPost(
+      'test-post',
+      { title: 'Test Post', author: 'john-doe', publishedAt: '2099-01-15', status: 'published' },
+      'Content',
+      'abc123'
+    );
+
+    const upsert = mockSql.mock.calls.find(([strings]) =>
+      typeof strings !== 'string' && strings.join('?').includes('INSERT INTO posts')
+    );
+    expect(upsert![0].join('?')).toContain("THEN 'scheduled'");
+    expect(upsert).toContain('2099-01-15');
+
+    const log = mockSql.mock.calls.find(([strings]) =>
+      typeof strings !== 'string' && strings.join('?').includes('INSERT INTO sync_logs')
+    );
+    expect(JSON.parse(log!.at(-1))).toMatchObject({ status: 'scheduled' });
+  });
+});
+
+describe('syncRelation', () => {
+  const relation: RelationDefinition = {
+    name: 'tags',
+    joinTable: 'post_tags',
+    ownerColumn: 'post_id',
+    targetTable: 'tags',
+    targetColumn: 'tag_id',
+    createMissing: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  /**
+   * Make the current relation query return these slugs
+   */
+  function mockCurrent(slugs: string[]) {
+    mockSql.mockResolvedValueOnce(slugs.map((slug) => ({ slug }))).mockResolvedValue([]);
+  }
+
+  it('should add only the new slugs, creating missing rows in one statement', async () => {
+    mockCurrent(['javascript']);
+    mockSql.mockResolvedValueOnce([{ slug: 'testing' }, { slug: 'react' }]);
+
+    const changes = await syncRelation(relation, 'post-1', ['javascript', 'react', 'testing', 'react']);
+
+    expect(changes).toEqual({ added: ['react', 'testing'], removed: [] });
+    expect(mockSql).toHaveBeenCalledTimes(2);
+
+    const [query, params] = mockSql.mock.calls[1];
+    expect(query).toContain('INSERT INTO tags (slug, name, auto_created)');
+    expect(query).toContain('INSERT INTO post_tags (post_id, tag_id)');
+    expect(params).toEqual(['post-1', ['react', 'testing']]);
+  });
+
+  it('should upsert missing rows so rows created concurrently are attached too', async () => {
+    mockCurrent([]);
+
+    await syncRelation(relation, 'post-1', ['react']);
+
+    const [query] = mockSql.mock.calls[1];
+    expect(query).toContain('ON CONFLICT (slug) DO UPDATE SET slug = EXCLUDED.slug');
+  });
+
+  it('should only report slugs that were attached', async () => {
+    mockCurrent([]);
+    mockSql.mockResolvedValueOnce([{ slug: 'react' }]);
+
+    const changes = await syncRelation({ ...relation, createMissing: false }, 'post-1', [
+      'react',
+      'unknown',
+    ]);
+
+    expect(changes).toEqual({ added: ['react'], removed: [] });
+  });
+
+  it('should remove dropped slugs in one statement', async () => {
+    mockCurrent(['javascript', 'react', 'testing']);
+
+    const changes = await syncRelation(relation, 'post-1', ['react']);
+
+    expect(changes).toEqual({ added: [], removed: ['javascript', 'testing'] });
+    expect(mockSql).toHaveBeenCalledTimes(2);
+
+    const [query, params] = mockSql.mock.calls[1];
+    expect(query).toContain('DELETE FROM post_tags');
+    expect(params).toEqual(['post-1', ['javascript', 'testing']]);
+  });
+
+  it('should clear the relation for an empty list', async () => {
+    mockCurrent(['javascript', 'react']);
+
+    const changes = await syncRelation(relation, 'post-1', []);
+
+    expect(changes).toEqual({ added: [], removed: ['javascript', 'react'] });
+    expect(mockSql.mock.calls[1][0]).toContain('DELETE FROM post_tags');
+  });
+
+  it('should not write anything when nothing changed', async () => {
+    mockCurrent(['javascript', 'react']);
+
+    const changes = await syncRelation(relation, 'post-1', ['react', 'javascript']);
+
+    expect(changes).toEqual({ added: [], removed: [] });
+    expect(mockSql).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only link existing rows unless createMissing is set', async () => {
+    mockCurrent([]);
+
+    await syncRelation({ ...relation, createMissing: false }, 'post-1', ['react']);
+
+    expect(mockSql.mock.calls[1][0]).not.toContain('INSERT INTO tags');
+  });
+});
+
+describe('upsertAuthor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should upsert author with all fields', async () => {
+    const frontmatter = {
+      name: 'John Doe',
       email: 'john@example.com',
       bio: 'Developer',
       avatar: '/avatar.jpg',
@@ -391,6 +1483,99 @@ describe('upsertAuthor', () => {
   });
 });
 
+describe('upsertTag', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create a missing parent before linking to it', async () => {
+    mockSql
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'tag-ai', slug: 'ai' }])
+      .mockResolvedValue([{ id: 'tag-ml' }]);
+
+    await upsertTag(
+      'machine-learning',
+      { name: 'Machine Learning', color: '#3178c6', parent: 'ai' },
+      'abc123'
+    );
+
+    const [placeholder, , upsert] = mockSql.mock.calls;
+    expect(placeholder[0]).toContain('INSERT INTO tags (slug, name, auto_created)');
+    expect(placeholder[1]).toEqual(['ai']);
+    expect(upsert[0].join('?')).toContain('parent_id = EXCLUDED.parent_id');
+    // A definition file adopts a placeholder, which is then never collected
+    expect(upsert[0].join('?')).toContain('auto_created = false');
+    expect(upsert).toContain('tag-ai');
+    expect(upsert).toContain('Machine Learning');
+  });
+
+  it('should reject a tag as its own parent', async () => {
+    mockSql.mockResolvedValue([]);
+
+    await expect(
+      upsertTag('ai', { name: 'AI', parent: 'ai' }, 'abc123')
+    ).rejects.toThrow('Tag ai cannot be its own parent');
+  });
+
+  it('should reject a parent nested under the tag', async () => {
+    mockSql
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { id: 'tag-ml', slug: 'machine-learning' },
+        { id: 'tag-ai', slug: 'ai' },
+      ])
+      .mockResolvedValue([]);
+
+    await expect(
+      upsertTag('ai', { name: 'AI', parent: 'machine-learning' }, 'abc123')
+    ).rejects.toThrow('machine-learning is nested under ai');
+  });
+});
+
+describe('upsertCategory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create a missing parent before linking to it', async () => {
+    mockSql
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'cat-eng', slug: 'engineering' }])
+      .mockResolvedValue([{ id: 'cat-fe' }]);
+
+    await upsertCategory(
+      'frontend',
+      { name: 'Frontend', description: 'Building user interfaces', parent: 'engineering' },
+      'abc123',
+      { path: 'content/categories/frontend.md', hash: 'hash-1' }
+    );
+
+    const [placeholder, ancestors, upsert] = mockSql.mock.calls;
+    expect(placeholder[0]).toContain('INSERT INTO categories (slug, name, auto_created)');
+    expect(placeholder[1]).toEqual(['engineering']);
+    expect(ancestors[0]).toContain('FROM categories');
+    expect(upsert[0].join('?')).toContain('INSERT INTO categories');
+    expect(upsert).toContain('cat-eng');
+    expect(upsert).toContain('Frontend');
+    expect(upsert).toContain('content/categories/frontend.md');
+  });
+
+  it('should reject a parent nested under the category', async () => {
+    mockSql
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { id: 'cat-fe', slug: 'frontend' },
+        { id: 'cat-eng', slug: 'engineering' },
+      ])
+      .mockResolvedValue([]);
+
+    await expect(
+      upsertCategory('engineering', { name: 'Engineering', parent: 'frontend' }, 'abc123')
+    ).rejects.toThrow('Category engineering cannot have parent frontend: frontend is nested under engineering');
+  });
+});
+
 describe('upsertPage', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -413,6 +1598,342 @@ describe('upsertPage', () => {
     expect(markdown.markdownToHtml).toHaveBeenCalledWith('Content');
     expect(mockSql).toHaveBeenCalled();
   });
+
+  it('should store the sort order and link the page and its subpages to their parents', async () => {
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>Install</p>');
+    mockSql.mockResolvedValue([{ id: 'page-123' }]);
+
+    await upsertPage('docs/install', { title: 'Install', status: 'published', order: 2 }, 'Content', 'abc123');
+
+    const [upsert, link] = mockSql.mock.calls;
+    expect(upsert[0].join('?')).toContain('sort_order = EXCLUDED.sort_order');
+    expect(upsert).toContain(2);
+    expect(link[0].join('?')).toContain('UPDATE pages child SET parent_id');
+    expect(link.slice(1)).toEqual(['docs/install', 'docs/install/']);
+  });
+
+  it('should record a revision for the commit', async () => {
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>About content</p>');
+    mockSql.mockResolvedValue([{ id: 'page-123' }]);
+
+    await upsertPage('about', { title: 'About Us', status: 'published' }, 'Content', 'abc123');
+
+    const revision = mockSql.mock.calls.find(([query]) =>
+      typeof query === 'string' && query.includes('INSERT INTO page_revisions')
+    );
+    expect(revision![0]).toContain('ON CONFLICT (page_id, commit_sha) DO UPDATE');
+    expect(revision![1]).toEqual([
+      'page-123',
+      'abc123',
+      'About Us',
+      'Content',
+      JSON.stringify({ title: 'About Us', status: 'published' }),
+    ]);
+  });
+});
+
+describe('upsertEntry', () => {
+  const caseStudy = getContentType('case-study')!;
+  const file = { path: 'content/case-studies/acme.md', hash: 'hash-1' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (markdown.markdownToHtml as any).mockResolvedValue('<p>Content</p>');
+  });
+
+  it('should store the frontmatter as data and sync relations by diff', async () => {
+    mockSql.mockImplementation(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const query = strings.join('?');
+      if (query.includes('RETURNING id')) return [{ id: 'entry-123' }];
+      if (query.includes('SELECT target_slug') && values[1] === 'tags') {
+        return [{ target_slug: 'legacy' }, { target_slug: 'nextjs' }];
+      }
+      return [];
+    });
+
+    const data = { title: 'Acme', client: 'Acme Corp', authors: ['jane'], tags: ['nextjs', 'postgres'] };
+    await upsertEntry(caseStudy, 'acme', data, 'Content', 'abc123', file);
+
+    const insert = mockSql.mock.calls.find(([strings]) => strings.join('?').includes('INSERT INTO entries'));
+    expect(insert!.slice(1, 6)).toEqual([
+      'case-study',
+      'acme',
+      JSON.stringify(data),
+      'Content',
+      '<p>Content</p>',
+    ]);
+
+    const log = mockSql.mock.calls.find(([strings]) => strings.join('?').includes('INSERT INTO sync_logs'));
+    expect(JSON.parse(log!.at(-1)).relations).toEqual({
+      authors: { added: ['jane'], removed: [] },
+      tags: { added: ['postgres'], removed: ['legacy'] },
+    });
+  });
+
+  it('should reject relation fields that are not slugs', async () => {
+    mockSql.mockResolvedValue([]);
+
+    await expect(
+      upsertEntry(caseStudy, 'acme', { title: 'Acme', tags: [1] }, 'Content', 'abc123', file)
+    ).rejects.toThrow('must be a slug or a list of slugs');
+  });
+});
+
+// ===========================================================================
+// Reconciliation Tests
+// ===========================================================================
+
+describe('planReconciliation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should classify files as create or update and find orphans', async () => {
+    const source = createMockSource();
+    (source.listFiles as any).mockResolvedValue([
+      'content/posts/2024-01-15-hello-world.md',
+      'content/posts/2024-02-01-new-post.md',
+      'content/authors/john-doe.md',
+      'content/README.md',
+    ]);
+
+    const rowsByTable: Record<string, Array<{ slug: string; source_path: string | null }>> = {
+      posts: [
+        { slug: 'hello-world', source_path: 'content/posts/2024-01-15-hello-world.md' },
+        { slug: 'deleted-post', source_path: 'content/posts/2023-12-01-deleted-post.md' },
+      ],
+      authors: [
+        { slug: 'john-doe', source_path: 'content/authors/john-doe.md' },
+        { slug: 'jane-roe', source_path: 'content/authors/jane-roe.md' },
+        { slug: 'placeholder', source_path: null }, // Created by a post
+      ],
+      pages: [{ slug: 'about', source_path: 'content/pages/about.md' }],
+      tags: [
+        { slug: 'retired-tag', source_path: 'content/tags/retired-tag.md' },
+        { slug: 'post-tag', source_path: null },
+      ],
+      categories: [],
+    };
+    mockSql.mockImplementation(async (query: string | TemplateStringsArray) => {
+      if (typeof query !== 'string') {
+        return []; // No entries
+      }
+      const table = query.match(/FROM (\w+)/)![1];
+      return rowsByTable[table].filter(
+        (row) => row.source_path || !query.includes('WHERE source_path IS NOT NULL')
+      );
+    });
+
+    const plan = await planReconciliation(source, 'abc123');
+
+    expect(source.listFiles).toHaveBeenCalledWith('abc123', 'content');
+    expect(plan.create.map((f) => f.path)).toEqual(['content/posts/2024-02-01-new-post.md']);
+    expect(plan.update.map((f) => f.slug)).toEqual(['hello-world', 'john-doe']);
+    expect(plan.prune).toEqual([
+      { resourceType: 'post', slug: 'deleted-post' },
+      { resourceType: 'author', slug: 'jane-roe' },
+      { resourceType: 'page', slug: 'about' },
+      { resourceType: 'tag', slug: 'retired-tag' },
+    ]);
+  });
+
+  it('should not prune placeholder authors, tags or categories created by posts', async () => {
+    const source = createMockSource();
+    (source.listFiles as any).mockResolvedValue(['content/posts/2024-01-15-hello-world.md']);
+    mockSql.mockResolvedValue([]);
+
+    await planReconciliation(source, 'abc123');
+
+    for (const table of ['authors', 'tags', 'categories']) {
+      const [query] = mockSql.mock.calls.find(
+        ([query]) => typeof query === 'string' && query.includes(`FROM ${table}`)
+      )!;
+      expect(query).toContain('WHERE source_path IS NOT NULL');
+    }
+  });
+
+  it('should match entries of custom content types by path', async () => {
+    const source = createMockSource();
+    (source.listFiles as any).mockResolvedValue([
+      'content/case-studies/acme.md',
+      'content/case-studies/globex.md',
+    ]);
+    mockSql.mockImplementation(async (query: string | TemplateStringsArray, type?: string) => {
+      if (typeof query === 'string' || type !== 'case-study') {
+        return [];
+      }
+      return [
+        { slug: 'acme', source_path: 'content/case-studies/acme.md' },
+        { slug: 'initech', source_path: 'content/case-studies/initech.md' },
+      ];
+    });
+
+    const plan = await planReconciliation(source, 'abc123');
+
+    expect(plan.update).toEqual([
+      { path: 'content/case-studies/acme.md', resourceType: 'entry', slug: 'acme', entryType: 'case-study' },
+    ]);
+    expect(plan.create.map((f) => f.path)).toEqual(['content/case-studies/globex.md']);
+    expect(plan.prune).toEqual([
+      { resourceType: 'entry', slug: 'initech', entryType: 'case-study' },
+    ]);
+  });
+});
+
+describe('pruneOrphans', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should delete orphaned rows', async () => {
+    mockSql.mockResolvedValue([{ id: 'row-1' }]);
+
+    const result = await pruneOrphans(
+      [{ resourceType: 'post', slug: 'deleted-post' }],
+      'abc123'
+    );
+
+    expect(result).toEqual({ pruned: 1, errors: [] });
+    expect(mockSql.mock.calls[0][0]).toContain('DELETE FROM posts');
+    expect(mockSql.mock.calls[0][1]).toEqual(['deleted-post']);
+  });
+
+  it('should archive posts and pages but leave authors in archive mode', async () => {
+    mockSql.mockResolvedValue([{ id: 'row-1' }]);
+
+    const result = await pruneOrphans(
+      [
+        { resourceType: 'page', slug: 'old-page' },
+        { resourceType: 'author', slug: 'placeholder' },
+      ],
+      'abc123',
+      'archive'
+    );
+
+    expect(result.pruned).toBe(1);
+    expect(mockSql.mock.calls[0][0]).toContain("UPDATE pages SET status = 'archived'");
+    expect(mockSql.mock.calls.some(([query]) => String(query).includes('authors'))).toBe(false);
+  });
+
+  it.each(['delete', 'archive'] as const)(
+    'should leave placeholder authors still credited on posts alone (%s mode)',
+    async (mode) => {
+      const source = createMockSource();
+      (source.listFiles as any).mockResolvedValue(['content/posts/2024-01-15-hello-world.md']);
+      mockSql.mockImplementation(async (query: string | TemplateStringsArray) => {
+        if (typeof query !== 'string') return [];
+        if (query.startsWith('SELECT slug FROM authors')) {
+          // The placeholder has no source_path, so the filtered query skips it
+          return query.includes('WHERE source_path IS NOT NULL') ? [] : [{ slug: 'jdoe' }];
+        }
+        if (query.startsWith('SELECT slug FROM posts')) return [{ slug: 'hello-world' }];
+        return [];
+      });
+
+      const plan = await planReconciliation(source, 'abc123');
+      mockSql.mockClear();
+      const result = await pruneOrphans(plan.prune, 'abc123', mode);
+
+      expect(plan.prune).toEqual([]);
+      expect(result).toEqual({ pruned: 0, errors: [] });
+      expect(mockSql.mock.calls.some(([query]) => String(query).includes('authors'))).toBe(false);
+    }
+  );
+
+  it('should delete orphaned entries by type and slug', async () => {
+    mockSql.mockResolvedValue([{ id: 'entry-1', slug: 'initech' }]);
+
+    const result = await pruneOrphans(
+      [{ resourceType: 'entry', slug: 'initech', entryType: 'case-study' }],
+      'abc123'
+    );
+
+    expect(result).toEqual({ pruned: 1, errors: [] });
+    expect(mockSql.mock.calls[0][0].join('')).toContain('DELETE FROM entries');
+    expect(mockSql.mock.calls[0].slice(1)).toEqual(['case-study', 'initech']);
+  });
+
+  it('should collect errors and keep going', async () => {
+    mockSql.mockRejectedValue(new Error('Database unavailable'));
+
+    const result = await pruneOrphans(
+      [
+        { resourceType: 'post', slug: 'a' },
+        { resourceType: 'post', slug: 'b' },
+      ],
+      'abc123'
+    );
+
+    expect(result.pruned).toBe(0);
+    expect(result.errors.map((e) => e.file)).toEqual(['post:a', 'post:b']);
+  });
+});
+
+// ===========================================================================
+// Garbage Collection Tests
+// ===========================================================================
+
+describe('collectGarbage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should delete unused tags and placeholder authors and log each', async () => {
+    mockSql.mockImplementation(async (query: string | TemplateStringsArray) => {
+      if (typeof query !== 'string') return [];
+      if (query.startsWith('DELETE FROM tags')) {
+        return [{ id: 'tag-1', slug: 'old-tag' }, { id: 'tag-2', slug: 'typo-tag' }];
+      }
+      if (query.startsWith('DELETE FROM authors')) {
+        return [{ id: 'author-1', slug: 'jdoe' }];
+      }
+      return [];
+    });
+
+    const result = await collectGarbage('abc123');
+
+    expect(result).toEqual({
+      tags: ['old-tag', 'typo-tag'],
+      categories: [],
+      authors: ['jdoe'],
+      series: [],
+    });
+
+    // Only auto-created rows: seeded rows also have no source_path
+    const [tagQuery] = mockSql.mock.calls[0];
+    expect(tagQuery).toMatch(/WHERE\s+auto_created\s+AND/);
+    expect(tagQuery).not.toContain('source_path');
+    expect(tagQuery).toContain('post_tags');
+    expect(tagQuery).toContain('child.parent_id');
+
+    const [categoryQuery] = mockSql.mock.calls.find(
+      ([query]) => typeof query === 'string' && query.includes('FROM categories')
+    )!;
+    expect(categoryQuery).toContain('DELETE FROM categories WHERE');
+    expect(categoryQuery).toMatch(/WHERE\s+auto_created\s+AND/);
+    expect(categoryQuery).toContain('p.category_id = categories.id');
+
+    const [seriesQuery] = mockSql.mock.calls.at(-1)!;
+    expect(seriesQuery).toContain('DELETE FROM series WHERE');
+    expect(seriesQuery).toContain('p.series_id = series.id');
+
+    const logs = mockSql.mock.calls.filter(([strings]) =>
+      typeof strings !== 'string' && strings.join('?').includes('INSERT INTO sync_logs')
+    );
+    expect(logs).toHaveLength(3);
+    expect(logs[2]).toContain('author');
+    expect(logs[2]).toContain(JSON.stringify({ slug: 'jdoe', reason: 'unused' }));
+  });
+
+  it('should only report candidates in dry-run mode', async () => {
+    mockSql.mockResolvedValue([{ id: 'tag-1', slug: 'old-tag' }]);
+
+    const result = await collectGarbage('abc123', { dryRun: true });
+
+    expect(result.tags).toEqual(['old-tag']);
+    expect(mockSql).toHaveBeenCalledTimes(4);
+    expect(mockSql.mock.calls.every(([query]) => String(query).startsWith('SELECT'))).toBe(true);
+  });
 });
 
 // ===========================================================================
@@ -446,6 +1967,20 @@ describe('logSync', () => {
     expect(mockSql).toHaveBeenCalledTimes(1);
   });
 
+  it('should record the environment and ref being synced', async () => {
+    mockSql.mockResolvedValue([]);
+
+    await runInEnvironment(
+      { name: 'staging', branch: 'staging' },
+      'refs/heads/staging',
+      () => logSync('sync', 'post', 'post-123', 'abc123', 'success', { slug: 'hello' })
+    );
+
+    expect(mockSql.mock.calls[0]).toContain(
+      JSON.stringify({ slug: 'hello', environment: 'staging', ref: 'refs/heads/staging' })
+    );
+  });
+
   it('should not throw on logging errors', async () => {
     mockSql.mockRejectedValue(new Error('Logging failed'));
 
@@ -4,43 +4,154 @@
  * This module handles syncing content from Git repositories to the database.
  *
  * Features:
- * - GitHub webhook processing
- * - File fetching from GitHub API
- * - Content parsing and rendering
+ * - GitHub webhook processing (all commits in a push)
+ * - File fetching from a pluggable content source (GitHub, GitLab, Gitea, local)
+ * - Content parsing and rendering (skipped for unchanged content hashes)
  * - Database upsert operations
  * - Sync logging and error tracking
+ * - Optional all-or-nothing (transactional) push processing
+ * - Full reconciliation that prunes rows without backing files
+ * - Rename detection that keeps rows (and redirects retired slugs)
+ * - Branch filtering, syncing each mapped branch into its own environment
+ * - Dependency ordering (authors, tags and categories before the posts that
+ *   reference them)
+ * - Tag definitions (content/tags/*.md) with display names, colors and parents
+ * - Category definitions (content/categories/*.md) forming a category tree
+ * - Nested pages: content/pages/docs/install.md syncs as docs/install, under
+ *   its nearest ancestor page
+ * - Garbage collection of unused tags, categories, placeholder authors and
+ *   empty series after each sync
+ * - Bounded concurrency: independent files are fetched and rendered in parallel
+ * - Custom content types (hexcms.config.ts) synced as generic entries
  */
 
-import { Octokit } from '@octokit/rest';
 import crypto from 'crypto';
-import { sql } from './db-adapter';
+import { AsyncLocalStorage } from 'async_hooks';
+import { sql, transaction, withDatabase } from './db-adapter';
+import { getContentSource } from './sources';
+import { getEnvironmentForRef } from './environments';
 import {
   parsePostFrontmatter,
   parseAuthorFrontmatter,
   parsePageFrontmatter,
+  parseTagFrontmatter,
+  parseCategoryFrontmatter,
+  parseEntryFrontmatter,
   markdownToHtml,
   calculateReadingTime,
   extractExcerpt,
+  slugify,
 } from './markdown';
-import { getTagBySlug, getAuthorBySlug } from './db';
+import { getAuthorBySlug } from './db';
+import {
+  getContentTypeForPath,
+  getEntrySlug,
+  getEntryRelations,
+  getContentTypes,
+  getContentTypeDir,
+  type ContentType,
+  type RelationTarget,
+} from './content-types';
 import type {
   GitHubWebhookPayload,
+  GitHubWebhookCommit,
+  ChangeSet,
+  ContentSource,
+  ReconciliationPlan,
+  SyncEnvironment,
+  SyncFileChange,
   SyncResult,
   PostFrontmatter,
+  PostAuthorRef,
   AuthorFrontmatter,
   PageFrontmatter,
+  TagFrontmatter,
+  CategoryFrontmatter,
 } from '@/types';
 
 // ===========================================================================
-// GitHub Configuration
+// Configuration
 // ===========================================================================
 
-const octokit = new Octokit({
-  auth: process.env.GITHUB_TOKEN,
-});
+// GitHub includes at most this many commits in a push webhook payload
+const WEBHOOK_COMMIT_LIMIT = 2048;
+
+type ContentResourceType = 'post' | 'author' | 'page' | 'tag' | 'category' | 'entry';
+
+// Database table backing each content resource type. Entry slugs are only
+// unique per content type, so entries are looked up by type and path.
+const RESOURCE_TABLES: Record<ContentResourceType, string> = {
+  post: 'posts',
+  author: 'authors',
+  page: 'pages',
+  tag: 'tags',
+  category: 'categories',
+  entry: 'entries',
+};
+
+// Order in which additions are applied: definitions that other content
+// references come first. Deletions run in reverse order.
+const RESOURCE_SYNC_ORDER: Record<ContentResourceType, number> = {
+  author: 0,
+  tag: 0,
+  category: 0,
+  post: 1,
+  page: 1,
+  entry: 1,
+};
+
+// Files applied at once by non-atomic syncs
+const DEFAULT_SYNC_CONCURRENCY = 4;
+
+// Post tags, from the `tags` frontmatter list
+const POST_TAGS_RELATION: RelationDefinition = {
+  name: 'tags',
+  joinTable: 'post_tags',
+  ownerColumn: 'post_id',
+  targetTable: 'tags',
+  targetColumn: 'tag_id',
+  createMissing: true,
+};
+
+/**
+ * Files applied at once by non-atomic syncs (SYNC_CONCURRENCY, default 4)
+ */
+export function getSyncConcurrency(): number {
+  const value = parseInt(process.env.SYNC_CONCURRENCY || '', 10);
+  return value > 0 ? value : DEFAULT_SYNC_CONCURRENCY;
+}
+
+/**
+ * What to do when deleting an author that still has posts
+ *
+ * SYNC_AUTHOR_DELETE_POLICY is `fail` (default) or `reassign`, which moves
+ * the posts to the author named by SYNC_AUTHOR_REASSIGN_TO.
+ */
+function getAuthorDeletePolicy(): { mode: 'fail' } | { mode: 'reassign'; to: string } {
+  const mode = process.env.SYNC_AUTHOR_DELETE_POLICY || 'fail';
+
+  if (mode === 'fail') {
+    return { mode };
+  }
+  if (mode !== 'reassign') {
+    throw new Error(
+      `Invalid SYNC_AUTHOR_DELETE_POLICY: ${mode}. Must be fail or reassign.`
+    );
+  }
+
+  const to = process.env.SYNC_AUTHOR_REASSIGN_TO;
+  if (!to) {
+    throw new Error('SYNC_AUTHOR_REASSIGN_TO is required when SYNC_AUTHOR_DELETE_POLICY is reassign');
+  }
+  return { mode, to };
+}
 
-const owner = process.env.GITHUB_REPO_OWNER!;
-const repo = process.env.GITHUB_REPO_NAME!;
+/**
+ * Environment and ref being synced in the current async context
+ *
+ * Recorded in sync_logs metadata by logSync.
+ */
+const environmentStorage = new AsyncLocalStorage<{ environment: string; ref: string }>();
 
 // ===========================================================================
 // Webhook Processing
@@ -49,46 +160,133 @@ const repo = process.env.GITHUB_REPO_NAME!;
 /**
  * Process GitHub webhook payload
  *
- * Extracts changed files, processes additions/modifications/deletions,
- * and returns comprehensive sync results.
+ * Extracts the net changed files across all commits in the push, processes
+ * additions/modifications/deletions, and returns comprehensive sync results.
+ *
+ * By default each file is applied independently and failures are collected;
+ * up to `concurrency` files are fetched, rendered and written at once, in
+ * dependency-ordered stages (see getChangeStages). With `atomic`, the whole
+ * push runs in one transaction: the first failure rolls everything back and
+ * is reported in `rollback`.
+ *
+ * Pushes to branches not mapped to a sync environment are ignored.
+ * Unused tags and placeholder authors are collected once the push is applied.
  *
  * @param payload - GitHub webhook payload
+ * @param options - Processing options
  * @returns Sync result with success status, count, errors, and duration
  */
 export async function processWebhook(
-  payload: GitHubWebhookPayload
+  payload: GitHubWebhookPayload,
+  options: ProcessWebhookOptions = {}
 ): Promise<SyncResult> {
   const startTime = Date.now();
-  const errors: Array<{ file: string; error: string }> = [];
-  let processed = 0;
+  const { source } = options;
 
   try {
-    // Extract changed files
-    const { added, modified, removed } = payload.head_commit;
+    const environment = options.environment || getEnvironmentForRef(payload.ref);
+    if (!environment) {
+      console.warn(`Ignoring push to ${payload.ref}: branch is not mapped to a sync environment`);
+      return {
+        success: true,
+        processed: 0,
+        errors: [],
+        duration: Date.now() - startTime,
+        ignored: true,
+      };
+    }
+
     const commitSha = payload.head_commit.id;
 
-    // Filter to content files only
-    const addedContent = filterContentFiles(added);
-    const modifiedContent = filterContentFiles(modified);
-    const removedContent = filterContentFiles(removed);
+    const result = await runInEnvironment(environment, payload.ref, async () => {
+      const changes = await getFileChanges(payload, source);
 
-    // Process added and modified files
-    for (const file of [...addedContent, ...modifiedContent]) {
-      try {
-        await processFile(file, commitSha);
-        processed++;
-      } catch (error) {
-        errors.push({
-          file,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
+      const toOperation = (change: SyncFileChange): FileOperation => ({
+        file: change.path,
+        apply: () => applyFileChange(change, commitSha, source),
+      });
+
+      const applied = options.atomic
+        ? await applyOperationsAtomically(changes.map(toOperation), commitSha)
+        : await applyOperations(
+            getChangeStages(changes).map((stage) => stage.map(toOperation)),
+            options.concurrency || getSyncConcurrency()
+          );
+
+      if (changes.length > 0 && !applied.rollback) {
+        await collectGarbageAfterSync(commitSha);
       }
-    }
+      return applied;
+    });
+
+    return {
+      ...result,
+      duration: Date.now() - startTime,
+    };
+  } catch (error) {
+    throw new Error(
+      `Webhook processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Options for webhook processing
+ */
+export interface ProcessWebhookOptions {
+  atomic?: boolean; // Apply the whole push in a single transaction
+  source?: ContentSource; // Default: configured by CONTENT_SOURCE
+  environment?: SyncEnvironment; // Default: mapped from payload.ref
+  concurrency?: number; // Files applied at once when not atomic (default: SYNC_CONCURRENCY)
+}
+
+/**
+ * Run sync work against an environment's database
+ *
+ * Queries inside the callback use the environment's database or schema, and
+ * sync logs record the environment and ref.
+ *
+ * @param environment - Environment to sync into
+ * @param ref - Git ref being synced (e.g. refs/heads/main)
+ * @param callback - Sync work
+ * @returns The callback's result
+ */
+export async function runInEnvironment<T>(
+  environment: SyncEnvironment,
+  ref: string,
+  callback: () => Promise<T>
+): Promise<T> {
+  return withDatabase(
+    { url: environment.databaseUrl, schema: environment.schema },
+    () => environmentStorage.run({ environment: environment.name, ref }, callback)
+  );
+}
+
+/**
+ * A single file change to apply to the database
+ */
+interface FileOperation {
+  file: string;
+  apply: () => Promise<unknown>;
+}
+
+/**
+ * Apply file operations independently
+ *
+ * Stages run in order; the operations within a stage run concurrently. A
+ * failing file is recorded and does not stop the remaining files.
+ */
+async function applyOperations(
+  stages: FileOperation[][],
+  concurrency: number
+): Promise<Omit<SyncResult, 'duration'>> {
+  const errors: Array<{ file: string; error: string }> = [];
+  let processed = 0;
 
-    // Process deleted files
-    for (const file of removedContent) {
+  for (const stage of stages) {
+    await mapWithConcurrency(stage, concurrency, async ({ file, apply }) => {
       try {
-        await processDeletedFile(file, commitSha);
+        await apply();
         processed++;
       } catch (error) {
         errors.push({
@@ -96,21 +294,306 @@ export async function processWebhook(
           error: error instanceof Error ? error.message : 'Unknown error',
         });
       }
-    }
+    });
+  }
+
+  return {
+    success: errors.length === 0,
+    processed,
+    errors,
+  };
+}
+
+/**
+ * Apply file operations in a single transaction
+ *
+ * Stops at the first failure and rolls back every change from the push.
+ * Sync logs written inside the transaction are rolled back too, so the
+ * failing file is logged again afterwards.
+ */
+async function applyOperationsAtomically(
+  operations: FileOperation[],
+  commitSha: string
+): Promise<Omit<SyncResult, 'duration'>> {
+  let failed: { file: string; error: string } | null = null;
+
+  try {
+    await transaction(async () => {
+      for (const { file, apply } of operations) {
+        try {
+          await apply();
+        } catch (error) {
+          failed = {
+            file,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          };
+          throw error;
+        }
+      }
+    });
+  } catch (error) {
+    // Failures outside a file operation (BEGIN/COMMIT) are not attributable
+    const rollback = failed || {
+      file: '',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
 
-    const duration = Date.now() - startTime;
+    const resourceType = getResourceTypeFromPath(rollback.file);
+    if (resourceType) {
+      await logSync('sync', resourceType, null, commitSha, 'error', {
+        path: rollback.file,
+        slug: extractSlugFromPath(rollback.file),
+        error: rollback.error,
+        rolledBack: true,
+      });
+    }
 
     return {
-      success: errors.length === 0,
-      processed,
-      errors,
-      duration,
+      success: false,
+      processed: 0,
+      errors: [rollback],
+      rollback,
     };
-  } catch (error) {
-    throw new Error(
-      `Webhook processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+  }
+
+  return {
+    success: true,
+    processed: operations.length,
+    errors: [],
+  };
+}
+
+/**
+ * Get the content file changes to apply for a push
+ *
+ * Filters to content files only. Renames and added/modified files come
+ * first, in dependency order (authors before posts and pages, renames before
+ * other changes of the same type); deletions follow in reverse dependency
+ * order. Files moved out of the content directories become deletions.
+ *
+ * @param payload - GitHub webhook payload
+ * @param source - Content source to read from (default: configured source)
+ * @returns Ordered file changes
+ */
+export async function getFileChanges(
+  payload: GitHubWebhookPayload,
+  source?: ContentSource
+): Promise<SyncFileChange[]> {
+  const { upserted, removed, renamed } = await detectRenames(
+    await getChangeSet(payload, source),
+    payload.head_commit.id,
+    source
+  );
+
+  const changes: SyncFileChange[] = [
+    ...renamed.flatMap(({ from, to }): SyncFileChange[] => {
+      if (filterContentFiles([to]).length > 0) {
+        return [{ type: 'rename', path: to, from }];
+      }
+      return filterContentFiles([from]).map((path) => ({ type: 'delete', path }));
+    }),
+    ...filterContentFiles(upserted).map((path): SyncFileChange => ({ type: 'upsert', path })),
+    ...filterContentFiles(removed).map((path): SyncFileChange => ({ type: 'delete', path })),
+  ];
+
+  // Array sort is stable, so renames stay ahead of upserts of the same type
+  const writes = changes
+    .filter((change) => change.type !== 'delete')
+    .sort((a, b) => compareDependencyOrder(a.path, b.path));
+  const deletes = changes
+    .filter((change) => change.type === 'delete')
+    .sort((a, b) => compareDependencyOrder(b.path, a.path));
+
+  return [...writes, ...deletes];
+}
+
+/**
+ * Split ordered file changes into stages that can be applied concurrently
+ *
+ * A stage is a run of consecutive upserts (or deletions) at the same
+ * dependency level, so nothing in a stage depends on anything else in it.
+ * Renames get a stage each, since one rename can vacate the slug another
+ * takes over. Stages must be applied in order.
+ *
+ * @param changes - File changes in getFileChanges order
+ * @returns Stages, in the order they must be applied
+ */
+export function getChangeStages(changes: SyncFileChange[]): SyncFileChange[][] {
+  const stages: SyncFileChange[][] = [];
+  let previousKey: string | null = null;
+
+  for (const change of changes) {
+    const resourceType = getResourceTypeFromPath(change.path);
+    const key = change.type === 'rename'
+      ? null
+      : `${change.type}:${resourceType ? RESOURCE_SYNC_ORDER[resourceType] : ''}`;
+
+    if (key !== null && key === previousKey) {
+      stages[stages.length - 1].push(change);
+    } else {
+      stages.push([change]);
+    }
+    previousKey = key;
+  }
+
+  return stages;
+}
+
+/**
+ * Apply a single file change to the database
+ *
+ * @param change - File change to apply
+ * @param commitSha - Commit SHA
+ * @param source - Content source to read from (default: configured source)
+ * @throws {Error} If processing fails
+ */
+export async function applyFileChange(
+  change: SyncFileChange,
+  commitSha: string,
+  source?: ContentSource
+): Promise<void> {
+  if (change.type === 'rename' && change.from) {
+    await processRenamedFile(change.from, change.path, commitSha, source);
+  } else if (change.type === 'delete') {
+    await processDeletedFile(change.path, commitSha);
+  } else {
+    await processFile(change.path, commitSha, source);
+  }
+}
+
+/**
+ * Get net file changes for a push
+ *
+ * Folds every commit in the push into a single change set, so files touched
+ * only by earlier commits are not lost. When `commits` may be truncated
+ * (fewer entries than `size`, or GitHub's limit of 2048 reached), the push
+ * is diffed through the content source instead.
+ *
+ * @param payload - GitHub webhook payload
+ * @param source - Content source to diff with (default: configured source)
+ * @returns Files to upsert and files to delete
+ */
+export async function getChangeSet(
+  payload: GitHubWebhookPayload,
+  source?: ContentSource
+): Promise<ChangeSet> {
+  const commits = payload.commits?.length
+    ? payload.commits
+    : [payload.head_commit];
+
+  // New branches have an all-zero `before`, which the compare API rejects
+  const canCompare = !/^0+$/.test(payload.before);
+
+  const truncated = payload.size !== undefined
+    ? payload.size > commits.length
+    : commits.length >= WEBHOOK_COMMIT_LIMIT;
+
+  if (truncated && canCompare) {
+    return (source || getContentSource()).diff(payload.before, payload.after);
+  }
+
+  return mergeCommitChanges(commits);
+}
+
+/**
+ * Merge per-commit file changes into a net change set
+ *
+ * Commits are applied oldest first; the last change to a path wins. A file
+ * added in one commit and removed in a later one ends up removed, and a file
+ * removed then re-added ends up upserted.
+ *
+ * @param commits - Push commits, oldest first
+ * @returns Files to upsert and files to delete
+ */
+export function mergeCommitChanges(commits: GitHubWebhookCommit[]): ChangeSet {
+  const state = new Map<string, 'upsert' | 'remove'>();
+
+  for (const commit of commits) {
+    for (const file of [...(commit.added || []), ...(commit.modified || [])]) {
+      state.set(file, 'upsert');
+    }
+    for (const file of commit.removed || []) {
+      state.set(file, 'remove');
+    }
+  }
+
+  const changes: ChangeSet = { upserted: [], removed: [], renamed: [] };
+
+  for (const [file, change] of state) {
+    if (change === 'upsert') {
+      changes.upserted.push(file);
+    } else {
+      changes.removed.push(file);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Pair removed and added content files that have the same content
+ *
+ * Push payloads report a moved file as a removal plus an addition. When an
+ * upserted file's content hash matches the stored hash of a removed file of
+ * the same resource type, the pair is treated as a rename instead.
+ *
+ * @param changes - Change set to inspect
+ * @param commitSha - Commit SHA to fetch upserted files at
+ * @param source - Content source to read from (default: configured source)
+ * @returns Change set with detected renames moved into `renamed`
+ */
+export async function detectRenames(
+  changes: ChangeSet,
+  commitSha: string,
+  source?: ContentSource
+): Promise<ChangeSet> {
+  const removed = filterContentFiles(changes.removed);
+  const resourceTypes = new Set(removed.map((path) => getResourceTypeFromPath(path)!));
+  const candidates = filterContentFiles(changes.upserted).filter((path) =>
+    resourceTypes.has(getResourceTypeFromPath(path)!)
+  );
+  if (candidates.length === 0) {
+    return changes;
+  }
+
+  // Stored hashes of the removed files
+  const removedByHash = new Map<string, string>();
+  for (const resourceType of resourceTypes) {
+    const rows = await (sql as any)(
+      `SELECT source_path, content_hash FROM ${RESOURCE_TABLES[resourceType]}
+       WHERE source_path = ANY($1) AND content_hash IS NOT NULL`,
+      [removed]
+    );
+    for (const row of rows) {
+      removedByHash.set(row.content_hash, row.source_path);
+    }
+  }
+
+  if (removedByHash.size === 0) {
+    return changes;
+  }
+
+  const renamed = [...changes.renamed];
+  const matched = new Set<string>();
+
+  for (const path of candidates) {
+    const hash = computeContentHash(
+      await (source || getContentSource()).fetchFile(path, commitSha)
     );
+    const from = removedByHash.get(hash);
+
+    if (from && getResourceTypeFromPath(from) === getResourceTypeFromPath(path)) {
+      renamed.push({ from, to: path });
+      matched.add(from).add(path);
+      removedByHash.delete(hash);
+    }
   }
+
+  return {
+    upserted: changes.upserted.filter((path) => !matched.has(path)),
+    removed: changes.removed.filter((path) => !matched.has(path)),
+    renamed,
+  };
 }
 
 /**
@@ -149,77 +632,134 @@ export function verifyWebhookSignature(
 // File Processing
 // ===========================================================================
 
-/**
- * Fetch file content from GitHub
- *
- * Uses GitHub API to fetch file content at a specific commit.
- *
- * @param path - File path in repository
- * @param commitSha - Commit SHA to fetch from
- * @returns File content as UTF-8 string
- * @throws {Error} If file not found or API request fails
- */
-export async function fetchFileFromGitHub(
-  path: string,
-  commitSha: string
-): Promise<string> {
-  try {
-    const { data } = await octokit.repos.getContent({
-      owner,
-      repo,
-      path,
-      ref: commitSha,
-    });
-
-    // Data should be a file, not a directory
-    if (Array.isArray(data) || data.type !== 'file') {
-      throw new Error(`Path is not a file: ${path}`);
-    }
-
-    // Decode base64 content
-    const content = Buffer.from(data.content, 'base64').toString('utf-8');
-    return content;
-  } catch (error) {
-    throw new Error(
-      `Failed to fetch file from GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`
-    );
-  }
-}
-
 /**
  * Process added or modified file
  *
  * Fetches file content, parses frontmatter, renders content,
  * and upserts to database based on resource type.
  *
+ * Files whose content hash and path match the stored row are skipped
+ * without rendering or writing, and logged as `skipped`.
+ *
  * @param path - File path in repository
  * @param commitSha - Commit SHA
+ * @param source - Content source to read from (default: configured source)
+ * @param options - Processing options
+ * @returns Whether the file was written or skipped as unchanged
  * @throws {Error} If processing fails
  */
-export async function processFile(path: string, commitSha: string): Promise<void> {
+export async function processFile(
+  path: string,
+  commitSha: string,
+  source?: ContentSource,
+  options: ProcessFileOptions = {}
+): Promise<'synced' | 'skipped'> {
   // Determine resource type
   const resourceType = getResourceTypeFromPath(path);
   if (!resourceType) {
     throw new Error(`Invalid content path: ${path}`);
   }
 
+  if (resourceType === 'entry') {
+    return processEntryFile(path, commitSha, source, options);
+  }
+
   // Extract slug from path
   const slug = extractSlugFromPath(path);
 
   // Fetch file content
-  const fileContent = await fetchFileFromGitHub(path, commitSha);
+  const fileContent = await (source || getContentSource()).fetchFile(path, commitSha);
+
+  // Skip unchanged files
+  const file: SourceFile = { path, hash: computeContentHash(fileContent) };
+  if (!options.force) {
+    const rows = await (sql as any)(
+      `SELECT id, source_path, content_hash FROM ${RESOURCE_TABLES[resourceType]} WHERE slug = $1`,
+      [slug]
+    );
+    if (rows[0]?.content_hash === file.hash && rows[0]?.source_path === path) {
+      await logSync('sync', resourceType, rows[0].id, commitSha, 'skipped', {
+        path,
+        slug,
+        reason: 'unchanged',
+      });
+      return 'skipped';
+    }
+  }
 
   // Process based on resource type
   if (resourceType === 'post') {
     const { data: frontmatter, content } = parsePostFrontmatter(fileContent);
-    await upsertPost(slug, frontmatter, content, commitSha);
+    await upsertPost(slug, frontmatter, content, commitSha, file);
   } else if (resourceType === 'author') {
     const frontmatter = parseAuthorFrontmatter(fileContent);
-    await upsertAuthor(slug, frontmatter, commitSha);
+    await upsertAuthor(slug, frontmatter, commitSha, file);
   } else if (resourceType === 'page') {
     const { data: frontmatter, content } = parsePageFrontmatter(fileContent);
-    await upsertPage(slug, frontmatter, content, commitSha);
+    await upsertPage(slug, frontmatter, content, commitSha, file);
+  } else if (resourceType === 'tag') {
+    const frontmatter = parseTagFrontmatter(fileContent);
+    await upsertTag(slug, frontmatter, commitSha, file);
+  } else if (resourceType === 'category') {
+    const frontmatter = parseCategoryFrontmatter(fileContent);
+    await upsertCategory(slug, frontmatter, commitSha, file);
+  }
+
+  return 'synced';
+}
+
+/**
+ * Process an added or modified entry of a custom content type
+ *
+ * Like processFile, but the entry is found by its file path: the slug comes
+ * from the content type's slug rule, which may need the frontmatter.
+ */
+async function processEntryFile(
+  path: string,
+  commitSha: string,
+  source: ContentSource | undefined,
+  options: ProcessFileOptions
+): Promise<'synced' | 'skipped'> {
+  const type = getContentTypeForPath(path)!;
+  const fileContent = await (source || getContentSource()).fetchFile(path, commitSha);
+
+  // Skip unchanged files
+  const file: SourceFile = { path, hash: computeContentHash(fileContent) };
+  if (!options.force) {
+    const rows = await sql`
+      SELECT id, slug, content_hash FROM entries
+      WHERE type = ${type.name} AND source_path = ${path}
+    `;
+    if (rows[0]?.content_hash === file.hash) {
+      await logSync('sync', 'entry', rows[0].id, commitSha, 'skipped', {
+        path,
+        type: type.name,
+        slug: rows[0].slug,
+        reason: 'unchanged',
+      });
+      return 'skipped';
+    }
   }
+
+  const { data, content } = parseEntryFrontmatter(type, fileContent);
+  await upsertEntry(type, getEntrySlug(type, path, data), data, content, commitSha, file);
+
+  return 'synced';
+}
+
+/**
+ * Options for processing a single file
+ */
+export interface ProcessFileOptions {
+  force?: boolean; // Rewrite even when the content hash is unchanged
+}
+
+/**
+ * Source file a row was synced from
+ */
+export interface SourceFile {
+  path: string;
+  hash: string; // Git blob SHA of the content
 }
 
 /**
@@ -241,95 +781,416 @@ export async function processDeletedFile(
     throw new Error(`Invalid content path: ${path}`);
   }
 
+  if (resourceType === 'entry') {
+    await deleteEntry(getContentTypeForPath(path)!.name, { path }, commitSha, { path });
+    return;
+  }
+
   // Extract slug from path
   const slug = extractSlugFromPath(path);
 
-  try {
-    // Delete based on resource type
-    if (resourceType === 'post') {
-      const rows = await sql`
-        DELETE FROM posts WHERE slug = ${slug} RETURNING id
-      `;
-      if (rows.length > 0) {
-        await logSync(
-          'delete',
-          resourceType,
-          rows[0].id,
-          commitSha,
-          'success',
-          { path, slug }
-        );
-      }
-    } else if (resourceType === 'author') {
-      const rows = await sql`
-        DELETE FROM authors WHERE slug = ${slug} RETURNING id
-      `;
-      if (rows.length > 0) {
-        await logSync(
-          'delete',
-          resourceType,
-          rows[0].id,
-          commitSha,
-          'success',
-          { path, slug }
-        );
-      }
-    } else if (resourceType === 'page') {
-      const rows = await sql`
-        DELETE FROM pages WHERE slug = ${slug} RETURNING id
-      `;
-      if (rows.length > 0) {
-        await logSync(
-          'delete',
-          resourceType,
-          rows[0].id,
-          commitSha,
-          'success',
-          { path, slug }
-        );
-      }
-    }
-  } catch (error) {
-    await logSync('delete', resourceType, slug, commitSha, 'error', {
-      path,
-      slug,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-    throw error;
-  }
+  await deleteResource(resourceType, slug, commitSha, { path, slug });
 }
 
-// ===========================================================================
-// Upsert Operations
-// ===========================================================================
-
 /**
- * Upsert post to database
+ * Process renamed file
  *
- * Finds or creates author, renders markdown, calculates reading time,
- * upserts post, and syncs tags.
+ * Moves the existing row to the new slug (keeping its id, views, featured
+ * flag and tags) before syncing the file's content onto it. A changed slug
+ * leaves a redirect behind. Moves between resource types are handled as a
+ * deletion plus an addition.
  *
- * @param slug - Post slug
- * @param frontmatter - Validated post frontmatter
- * @param content - Markdown content
+ * @param from - Previous file path in repository
+ * @param to - New file path in repository
  * @param commitSha - Commit SHA
- * @throws {Error} If upsert fails
+ * @param source - Content source to read from (default: configured source)
+ * @returns Whether the file was written or skipped as unchanged
+ * @throws {Error} If processing fails
  */
-export async function upsertPost(
-  slug: string,
-  frontmatter: PostFrontmatter,
-  content: string,
-  commitSha: string
-): Promise<void> {
-  try {
-    // Find or create author
-    let author = await getAuthorBySlug(frontmatter.author);
-
+export async function processRenamedFile(
+  from: string,
+  to: string,
+  commitSha: string,
+  source?: ContentSource
+): Promise<'synced' | 'skipped'> {
+  const resourceType = getResourceTypeFromPath(to);
+  if (!resourceType) {
+    throw new Error(`Invalid content path: ${to}`);
+  }
+
+  // Entries move with their file; the slug rule may then give a new slug
+  const entryType = getContentTypeForPath(to);
+  if (entryType && getContentTypeForPath(from)?.name === entryType.name) {
+    await sql`
+      UPDATE entries SET source_path = ${to}
+      WHERE type = ${entryType.name} AND source_path = ${from}
+    `;
+    return processFile(to, commitSha, source, { force: true });
+  }
+
+  if (getResourceTypeFromPath(from) !== resourceType || entryType) {
+    if (getResourceTypeFromPath(from)) {
+      await processDeletedFile(from, commitSha);
+    }
+    return processFile(to, commitSha, source);
+  }
+
+  const previousSlug = extractSlugFromPath(from);
+  const slug = extractSlugFromPath(to);
+
+  if (previousSlug !== slug) {
+    await moveResource(resourceType, previousSlug, slug, commitSha, {
+      path: to,
+      previousPath: from,
+    });
+  }
+
+  return processFile(to, commitSha, source);
+}
+
+/**
+ * Move a post, author or page to a new slug
+ *
+ * Records a redirect from the old slug. If the new slug is already taken,
+ * the old row is deleted instead and the file syncs onto the existing row.
+ *
+ * @param resourceType - Type of resource
+ * @param previousSlug - Current slug of the row
+ * @param slug - Slug to move the row to
+ * @param commitSha - Commit SHA
+ * @param metadata - Additional sync log metadata
+ * @throws {Error} If the move fails
+ */
+async function moveResource(
+  resourceType: ContentResourceType,
+  previousSlug: string,
+  slug: string,
+  commitSha: string,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  const table = RESOURCE_TABLES[resourceType];
+
+  try {
+    const rows = await (sql as any)(
+      `UPDATE ${table} SET slug = $1
+       WHERE slug = $2 AND NOT EXISTS (SELECT 1 FROM ${table} WHERE slug = $1)
+       RETURNING id`,
+      [slug, previousSlug]
+    );
+
+    if (rows.length === 0) {
+      await deleteResource(resourceType, previousSlug, commitSha, {
+        ...metadata,
+        slug: previousSlug,
+      });
+      return;
+    }
+
+    await recordRedirect(resourceType, previousSlug, slug);
+    if (resourceType === 'page') {
+      await linkPageParents(previousSlug);
+      await linkPageParents(slug);
+    }
+    await logSync('update', resourceType, rows[0].id, commitSha, 'success', {
+      ...metadata,
+      slug,
+      previousSlug,
+    });
+  } catch (error) {
+    await logSync('update', resourceType, null, commitSha, 'error', {
+      ...metadata,
+      slug,
+      previousSlug,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Redirect a retired slug to its replacement
+ *
+ * Existing redirects to the retired slug are repointed so every redirect
+ * resolves in one hop, and any redirect away from the new slug is removed
+ * because that slug is live again.
+ */
+async function recordRedirect(
+  resourceType: ContentResourceType,
+  fromSlug: string,
+  toSlug: string
+): Promise<void> {
+  await sql`
+    UPDATE redirects SET to_slug = ${toSlug}
+    WHERE resource_type = ${resourceType} AND to_slug = ${fromSlug}
+  `;
+  await sql`
+    INSERT INTO redirects (resource_type, from_slug, to_slug)
+    VALUES (${resourceType}, ${fromSlug}, ${toSlug})
+    ON CONFLICT (resource_type, from_slug) DO UPDATE SET
+      to_slug = EXCLUDED.to_slug,
+      created_at = NOW()
+  `;
+  await sql`
+    DELETE FROM redirects
+    WHERE resource_type = ${resourceType} AND from_slug = ${toSlug}
+  `;
+}
+
+/**
+ * Delete a post, author, page, tag or category by slug
+ *
+ * Logs the deletion when a row was removed, and the error on failure.
+ * Authors that still have posts are handled by the author deletion policy.
+ * Tags that posts still use, and categories that posts or subcategories
+ * still use, lose their definition but are kept.
+ *
+ * @param resourceType - Type of resource
+ * @param slug - Resource slug
+ * @param commitSha - Commit SHA
+ * @param metadata - Additional sync log metadata
+ * @throws {Error} If deletion fails
+ */
+async function deleteResource(
+  resourceType: ContentResourceType,
+  slug: string,
+  commitSha: string,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  try {
+    if (resourceType === 'tag' || resourceType === 'category') {
+      const released = resourceType === 'tag'
+        ? await releaseTag(slug)
+        : await releaseCategory(slug);
+      if (released) {
+        await logSync('update', resourceType, released.id, commitSha, 'success', {
+          ...metadata,
+          definitionRemoved: true,
+        });
+        return;
+      }
+    }
+
+    const reassigned = resourceType === 'author'
+      ? await releaseAuthorPosts(slug)
+      : null;
+
+    const rows = await (sql as any)(
+      `DELETE FROM ${RESOURCE_TABLES[resourceType]} WHERE slug = $1 RETURNING id`,
+      [slug]
+    );
+    if (rows.length > 0) {
+      // Subpages move up to the next page above the deleted one
+      if (resourceType === 'page') {
+        await linkPageParents(slug);
+      }
+      await logSync('delete', resourceType, rows[0].id, commitSha, 'success', {
+        ...metadata,
+        ...reassigned,
+      });
+    }
+  } catch (error) {
+    await logSync('delete', resourceType, null, commitSha, 'error', {
+      ...metadata,
+      slug,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Delete an entry of a custom content type
+ *
+ * @param type - Content type name
+ * @param key - Source file path (file deleted) or slug (orphan pruned)
+ * @param commitSha - Commit SHA
+ * @param metadata - Additional sync log metadata
+ * @throws {Error} If deletion fails
+ */
+async function deleteEntry(
+  type: string,
+  key: { path: string } | { slug: string },
+  commitSha: string,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  try {
+    const rows = 'path' in key
+      ? await sql`
+          DELETE FROM entries WHERE type = ${type} AND source_path = ${key.path}
+          RETURNING id, slug
+        `
+      : await sql`
+          DELETE FROM entries WHERE type = ${type} AND slug = ${key.slug}
+          RETURNING id, slug
+        `;
+    if (rows.length > 0) {
+      await logSync('delete', 'entry', rows[0].id, commitSha, 'success', {
+        ...metadata,
+        type,
+        slug: rows[0].slug,
+      });
+    }
+  } catch (error) {
+    await logSync('delete', 'entry', null, commitSha, 'error', {
+      ...metadata,
+      ...key,
+      type,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Clear the definition of a tag that posts still use
+ *
+ * The tag reverts to the state auto-created tags have: named after its slug,
+ * without description, color, parent or source file.
+ *
+ * @param slug - Slug of the tag whose definition file was deleted
+ * @returns The kept tag, or null if no post uses it (so it can be deleted)
+ */
+async function releaseTag(slug: string): Promise<{ id: string } | null> {
+  const rows = await sql`
+    UPDATE tags SET
+      name = slug,
+      description = NULL,
+      color = NULL,
+      parent_id = NULL,
+      source_path = NULL,
+      content_hash = NULL,
+      auto_created = true,
+      updated_at = NOW()
+    WHERE slug = ${slug}
+      AND EXISTS (SELECT 1 FROM post_tags pt WHERE pt.tag_id = tags.id)
+    RETURNING id
+  `;
+
+  return rows.length > 0 ? { id: rows[0].id } : null;
+}
+
+/**
+ * Clear the definition of a category that posts or subcategories still use
+ *
+ * The category keeps its place in the tree for its subcategories, but
+ * reverts to the state auto-created categories have: named after its slug,
+ * without description or parent.
+ *
+ * @param slug - Slug of the category whose definition file was deleted
+ * @returns The kept category, or null if nothing uses it (so it can be deleted)
+ */
+async function releaseCategory(slug: string): Promise<{ id: string } | null> {
+  const rows = await sql`
+    UPDATE categories SET
+      name = slug,
+      description = NULL,
+      parent_id = NULL,
+      source_path = NULL,
+      content_hash = NULL,
+      auto_created = true,
+      updated_at = NOW()
+    WHERE slug = ${slug}
+      AND (
+        EXISTS (SELECT 1 FROM posts p WHERE p.category_id = categories.id)
+        OR EXISTS (SELECT 1 FROM categories child WHERE child.parent_id = categories.id)
+      )
+    RETURNING id
+  `;
+
+  return rows.length > 0 ? { id: rows[0].id } : null;
+}
+
+/**
+ * Apply the author deletion policy to an author's remaining posts
+ *
+ * @param slug - Slug of the author being deleted
+ * @returns Reassignment details, or null if the author has no posts
+ * @throws {Error} If the policy is `fail` and posts remain, or the
+ * reassignment target does not exist
+ */
+async function releaseAuthorPosts(
+  slug: string
+): Promise<{ reassignedPosts: number; reassignedTo: string } | null> {
+  const posts = await sql`
+    SELECT p.slug FROM posts p
+    JOIN authors a ON a.id = p.author_id
+    WHERE a.slug = ${slug}
+    UNION
+    SELECT p.slug FROM posts p
+    JOIN post_authors pa ON pa.post_id = p.id
+    JOIN authors a ON a.id = pa.author_id
+    WHERE a.slug = ${slug}
+  `;
+  if (posts.length === 0) {
+    return null;
+  }
+
+  const policy = getAuthorDeletePolicy();
+  if (policy.mode === 'fail') {
+    const examples = posts.slice(0, 5).map((post: { slug: string }) => post.slug).join(', ');
+    throw new Error(
+      `Cannot delete author ${slug}: ${posts.length} post(s) still reference it (${examples}). ` +
+      'Move the posts to another author first, or set SYNC_AUTHOR_DELETE_POLICY=reassign.'
+    );
+  }
+
+  const target = policy.to === slug ? null : await getAuthorBySlug(policy.to);
+  if (!target) {
+    throw new Error(`Cannot reassign posts of author ${slug}: author ${policy.to} not found`);
+  }
+
+  await sql`
+    UPDATE posts SET author_id = ${target.id}
+    WHERE author_id = (SELECT id FROM authors WHERE slug = ${slug})
+  `;
+
+  // Posts the target already co-authored keep its existing credit
+  await sql`
+    UPDATE post_authors SET author_id = ${target.id}
+    WHERE author_id = (SELECT id FROM authors WHERE slug = ${slug})
+      AND post_id NOT IN (SELECT post_id FROM post_authors WHERE author_id = ${target.id})
+  `;
+
+  return { reassignedPosts: posts.length, reassignedTo: policy.to };
+}
+
+// ===========================================================================
+// Upsert Operations
+// ===========================================================================
+
+/**
+ * Upsert post to database
+ *
+ * Finds or creates the lead author, renders markdown, calculates reading
+ * time, upserts post, and syncs tags and co-authors. The sync log records
+ * which tags and authors were added and removed.
+ *
+ * @param slug - Post slug
+ * @param frontmatter - Validated post frontmatter
+ * @param content - Markdown content
+ * @param commitSha - Commit SHA
+ * @param file - Source file path and content hash
+ * @throws {Error} If upsert fails
+ */
+export async function upsertPost(
+  slug: string,
+  frontmatter: PostFrontmatter,
+  content: string,
+  commitSha: string,
+  file?: SourceFile
+): Promise<void> {
+  try {
+    const authors = getPostAuthors(frontmatter);
+    const leadAuthor = authors[0].slug;
+
+    // Find or create the lead author (posts.author_id)
+    let author = await getAuthorBySlug(leadAuthor);
+
     if (!author) {
       // Create placeholder author if not found
       const rows = await sql`
-        INSERT INTO authors (slug, name)
-        VALUES (${frontmatter.author}, ${frontmatter.author})
+        INSERT INTO authors (slug, name, auto_created)
+        VALUES (${leadAuthor}, ${leadAuthor}, true)
         ON CONFLICT (slug) DO NOTHING
         RETURNING id
       `;
@@ -337,9 +1198,9 @@ export async function upsertPost(
         author = { id: rows[0].id } as any;
       } else {
         // If conflict occurred, fetch the existing author
-        author = await getAuthorBySlug(frontmatter.author);
+        author = await getAuthorBySlug(leadAuthor);
         if (!author) {
-          throw new Error(`Failed to find or create author: ${frontmatter.author}`);
+          throw new Error(`Failed to find or create author: ${leadAuthor}`);
         }
       }
     }
@@ -362,14 +1223,29 @@ export async function upsertPost(
     // At this point, author is guaranteed to be non-null
     const authorId = author!.id;
 
-    // Upsert post
+    const categoryId = frontmatter.category ? await resolveCategory(frontmatter.category) : null;
+    const seriesId = frontmatter.series ? await resolveSeries(frontmatter.series) : null;
+
+    // Upsert post (published posts dated in the future wait as scheduled
+    // until publishScheduledPosts flips them live)
     const rows = await sql`
       INSERT INTO posts (
         slug, title, excerpt, content, content_html, author_id,
-        status, featured_image, reading_time, published_at
+        status, featured_image, reading_time, published_at, expires_at,
+        content_updated_at, meta_description, meta_keywords, frontmatter,
+        category_id, series_id, series_order, source_path, content_hash
       ) VALUES (
         ${slug}, ${frontmatter.title}, ${excerpt}, ${content}, ${contentHtml}, ${authorId},
-        ${status}, ${frontmatter.featuredImage || null}, ${readingTime}, ${publishedAt}
+        CASE
+          WHEN ${status} = 'published' AND ${publishedAt}::timestamptz > NOW() THEN 'scheduled'
+          ELSE ${status}
+        END,
+        ${frontmatter.featuredImage || null}, ${readingTime}, ${publishedAt},
+        ${frontmatter.expiresAt || null},
+        ${frontmatter.updatedAt || null}, ${frontmatter.metaDescription || null},
+        ${frontmatter.metaKeywords || null}::text[], ${JSON.stringify(frontmatter)}::jsonb,
+        ${categoryId}, ${seriesId}, ${frontmatter.seriesOrder ?? null},
+        ${file?.path || null}, ${file?.hash || null}
       )
       ON CONFLICT (slug) DO UPDATE SET
         title = EXCLUDED.title,
@@ -381,62 +1257,337 @@ export async function upsertPost(
         featured_image = EXCLUDED.featured_image,
         reading_time = EXCLUDED.reading_time,
         published_at = EXCLUDED.published_at,
+        expires_at = EXCLUDED.expires_at,
+        content_updated_at = EXCLUDED.content_updated_at,
+        meta_description = EXCLUDED.meta_description,
+        meta_keywords = EXCLUDED.meta_keywords,
+        frontmatter = EXCLUDED.frontmatter,
+        category_id = EXCLUDED.category_id,
+        series_id = EXCLUDED.series_id,
+        series_order = EXCLUDED.series_order,
+        source_path = EXCLUDED.source_path,
+        content_hash = EXCLUDED.content_hash,
         updated_at = NOW()
-      RETURNING id
+      RETURNING id, status
     `;
 
     const postId = rows[0].id;
 
-    // Sync tags
-    if (frontmatter.tags && frontmatter.tags.length > 0) {
-      // Delete old tags
-      await sql`
-        DELETE FROM post_tags WHERE post_id = ${postId}
-      `;
+    // Sync tags (also clears them when the list is empty or missing)
+    const tagChanges = await syncRelation(POST_TAGS_RELATION, postId, frontmatter.tags || []);
 
-      // Insert new tags
-      for (const tagSlug of frontmatter.tags) {
-        // Find or create tag
-        let tag = await getTagBySlug(tagSlug);
-
-        if (!tag) {
-          const tagRows = await sql`
-            INSERT INTO tags (slug, name)
-            VALUES (${tagSlug}, ${tagSlug})
-            ON CONFLICT (slug) DO NOTHING
-            RETURNING id
-          `;
-          if (tagRows.length > 0) {
-            tag = { id: tagRows[0].id } as any;
-          } else {
-            // If conflict occurred, fetch the existing tag
-            tag = await getTagBySlug(tagSlug);
-            if (!tag) {
-              throw new Error(`Failed to find or create tag: ${tagSlug}`);
-            }
-          }
-        }
+    const authorChanges = await syncPostAuthors(postId, authors);
 
-        // At this point, tag is guaranteed to be non-null
-        const tagId = tag!.id;
+    await recordRevision('post', postId, commitSha, frontmatter, content);
 
-        // Create post-tag relationship
-        await sql`
-          INSERT INTO post_tags (post_id, tag_id)
-          VALUES (${postId}, ${tagId})
-          ON CONFLICT DO NOTHING
-        `;
-      }
-    }
+    // Log successful sync
+    await logSync('sync', 'post', postId, commitSha, 'success', {
+      slug,
+      title: frontmatter.title,
+      status: rows[0].status ?? status,
+      category: frontmatter.category || null,
+      tags: frontmatter.tags || [],
+      authors: authors.map((postAuthor) => postAuthor.slug),
+      relations: { [POST_TAGS_RELATION.name]: tagChanges, authors: authorChanges },
+    });
+  } catch (error) {
+    await logSync('sync', 'post', null, commitSha, 'error', {
+      slug,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Find or create a post's category
+ *
+ * Categories that have no definition file yet are created as placeholders
+ * named after their slug, the same way posts create the tags they use.
+ *
+ * @param slug - Category slug from frontmatter
+ * @returns Category id
+ * @throws {Error} If the category can't be found or created
+ */
+async function resolveCategory(slug: string): Promise<string> {
+  await sql`
+    INSERT INTO categories (slug, name, auto_created)
+    VALUES (${slug}, ${slug}, true)
+    ON CONFLICT (slug) DO NOTHING
+  `;
+
+  const rows = await sql`SELECT id FROM categories WHERE slug = ${slug}`;
+  if (rows.length === 0) {
+    throw new Error(`Failed to find or create category: ${slug}`);
+  }
+  return rows[0].id;
+}
+
+/**
+ * Find or create the series a post belongs to
+ *
+ * The series is keyed by the slug of the frontmatter value, so
+ * `series: "Building a CMS"` and `series: building-a-cms` name the same
+ * series. The display name follows the value most recently synced.
+ *
+ * @param name - Series name or slug from frontmatter
+ * @returns Series id
+ * @throws {Error} If the name has no slug-safe characters
+ */
+async function resolveSeries(name: string): Promise<string> {
+  const slug = slugify(name);
+  if (!slug) {
+    throw new Error(`Invalid series name: ${name}`);
+  }
+
+  const rows = await sql`
+    INSERT INTO series (slug, name)
+    VALUES (${slug}, ${name})
+    ON CONFLICT (slug) DO UPDATE SET name = EXCLUDED.name
+    RETURNING id
+  `;
+  return rows[0].id;
+}
+
+/**
+ * Resolve a post's ordered author list from its frontmatter
+ *
+ * `author` is the lead author and comes first, unless `authors` already
+ * lists it; posts with only `author` have a single author.
+ *
+ * @param frontmatter - Validated post frontmatter
+ * @returns Authors in order, without duplicates
+ */
+function getPostAuthors(frontmatter: PostFrontmatter): PostAuthorRef[] {
+  const listed = (frontmatter.authors || []).map((postAuthor) =>
+    typeof postAuthor === 'string' ? { slug: postAuthor } : postAuthor
+  );
+  const authors = frontmatter.author && !listed.some(({ slug }) => slug === frontmatter.author)
+    ? [{ slug: frontmatter.author }, ...listed]
+    : listed;
+
+  return authors.filter(
+    (postAuthor, index) => authors.findIndex(({ slug }) => slug === postAuthor.slug) === index
+  );
+}
+
+/**
+ * Upsert author to database
+ *
+ * Inserts or updates author with frontmatter data.
+ *
+ * @param slug - Author slug
+ * @param frontmatter - Validated author frontmatter
+ * @param commitSha - Commit SHA
+ * @param file - Source file path and content hash
+ * @throws {Error} If upsert fails
+ */
+export async function upsertAuthor(
+  slug: string,
+  frontmatter: AuthorFrontmatter,
+  commitSha: string,
+  file?: SourceFile
+): Promise<void> {
+  try {
+    // Prepare social JSONB
+    const social = frontmatter.social ? JSON.stringify(frontmatter.social) : '{}';
+
+    // Upsert author
+    const rows = await sql`
+      INSERT INTO authors (
+        slug, name, email, bio, avatar_url, website, social,
+        source_path, content_hash
+      ) VALUES (
+        ${slug}, ${frontmatter.name}, ${frontmatter.email || null},
+        ${frontmatter.bio || null}, ${frontmatter.avatar || null},
+        ${frontmatter.social?.website || null}, ${social}::jsonb,
+        ${file?.path || null}, ${file?.hash || null}
+      )
+      ON CONFLICT (slug) DO UPDATE SET
+        name = EXCLUDED.name,
+        email = EXCLUDED.email,
+        bio = EXCLUDED.bio,
+        avatar_url = EXCLUDED.avatar_url,
+        website = EXCLUDED.website,
+        social = EXCLUDED.social,
+        source_path = EXCLUDED.source_path,
+        content_hash = EXCLUDED.content_hash,
+        auto_created = false,
+        updated_at = NOW()
+      RETURNING id
+    `;
+
+    const authorId = rows[0].id;
+
+    // Log successful sync
+    await logSync('sync', 'author', authorId, commitSha, 'success', {
+      slug,
+      name: frontmatter.name,
+    });
+  } catch (error) {
+    await logSync('sync', 'author', null, commitSha, 'error', {
+      slug,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Upsert page to database
+ *
+ * Renders markdown and inserts or updates page.
+ *
+ * @param slug - Page slug
+ * @param frontmatter - Validated page frontmatter
+ * @param content - Markdown content
+ * @param commitSha - Commit SHA
+ * @param file - Source file path and content hash
+ * @throws {Error} If upsert fails
+ */
+export async function upsertPage(
+  slug: string,
+  frontmatter: PageFrontmatter,
+  content: string,
+  commitSha: string,
+  file?: SourceFile
+): Promise<void> {
+  try {
+    // Render markdown to HTML
+    const contentHtml = await markdownToHtml(content);
+
+    // Parse published date
+    const publishedAt = frontmatter.publishedAt || null;
+
+    // Default status
+    const status = frontmatter.status || 'draft';
+
+    // Upsert page
+    const rows = await sql`
+      INSERT INTO pages (
+        slug, title, content, content_html, status, template, sort_order,
+        meta_description, published_at, expires_at, content_updated_at,
+        frontmatter, source_path, content_hash
+      ) VALUES (
+        ${slug}, ${frontmatter.title}, ${content}, ${contentHtml},
+        ${status}, ${frontmatter.template || null}, ${frontmatter.order ?? null},
+        ${frontmatter.metaDescription || null}, ${publishedAt},
+        ${frontmatter.expiresAt || null}, ${frontmatter.updatedAt || null},
+        ${JSON.stringify(frontmatter)}::jsonb,
+        ${file?.path || null}, ${file?.hash || null}
+      )
+      ON CONFLICT (slug) DO UPDATE SET
+        title = EXCLUDED.title,
+        content = EXCLUDED.content,
+        content_html = EXCLUDED.content_html,
+        status = EXCLUDED.status,
+        template = EXCLUDED.template,
+        sort_order = EXCLUDED.sort_order,
+        meta_description = EXCLUDED.meta_description,
+        published_at = EXCLUDED.published_at,
+        expires_at = EXCLUDED.expires_at,
+        content_updated_at = EXCLUDED.content_updated_at,
+        frontmatter = EXCLUDED.frontmatter,
+        source_path = EXCLUDED.source_path,
+        content_hash = EXCLUDED.content_hash,
+        updated_at = NOW()
+      RETURNING id
+    `;
+
+    const pageId = rows[0].id;
+
+    await linkPageParents(slug);
+    await recordRevision('page', pageId, commitSha, frontmatter, content);
+
+    // Log successful sync
+    await logSync('sync', 'page', pageId, commitSha, 'success', {
+      slug,
+      title: frontmatter.title,
+    });
+  } catch (error) {
+    await logSync('sync', 'page', null, commitSha, 'error', {
+      slug,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Point a page and the pages below it at their nearest ancestor page
+ *
+ * `docs/guides/setup` nests under `docs/guides`, or under `docs` while
+ * there is no `docs/guides` page. Pages sync in any order, so this runs
+ * whenever a page is written, moved or deleted.
+ *
+ * @param slug - Slug of the page that changed
+ */
+async function linkPageParents(slug: string): Promise<void> {
+  await sql`
+    UPDATE pages child SET parent_id = (
+      SELECT ancestor.id FROM pages ancestor
+      WHERE starts_with(child.slug, ancestor.slug || '/')
+      ORDER BY length(ancestor.slug) DESC
+      LIMIT 1
+    )
+    WHERE child.slug = ${slug} OR starts_with(child.slug, ${`${slug}/`})
+  `;
+}
+
+/**
+ * Upsert tag to database
+ *
+ * Applies a tag definition file: display name, description, color and
+ * parent. A parent that has no row yet is created as a placeholder, the
+ * same way posts create the tags they use.
+ *
+ * @param slug - Tag slug
+ * @param frontmatter - Validated tag frontmatter
+ * @param commitSha - Commit SHA
+ * @param file - Source file path and content hash
+ * @throws {Error} If upsert fails or the parent would create a cycle
+ */
+export async function upsertTag(
+  slug: string,
+  frontmatter: TagFrontmatter,
+  commitSha: string,
+  file?: SourceFile
+): Promise<void> {
+  try {
+    const parentId = frontmatter.parent
+      ? await resolveParent('tag', slug, frontmatter.parent)
+      : null;
+
+    // Upsert tag
+    const rows = await sql`
+      INSERT INTO tags (
+        slug, name, description, color, parent_id,
+        source_path, content_hash
+      ) VALUES (
+        ${slug}, ${frontmatter.name}, ${frontmatter.description || null},
+        ${frontmatter.color || null}, ${parentId},
+        ${file?.path || null}, ${file?.hash || null}
+      )
+      ON CONFLICT (slug) DO UPDATE SET
+        name = EXCLUDED.name,
+        description = EXCLUDED.description,
+        color = EXCLUDED.color,
+        parent_id = EXCLUDED.parent_id,
+        source_path = EXCLUDED.source_path,
+        content_hash = EXCLUDED.content_hash,
+        auto_created = false,
+        updated_at = NOW()
+      RETURNING id
+    `;
 
     // Log successful sync
-    await logSync('sync', 'post', postId, commitSha, 'success', {
+    await logSync('sync', 'tag', rows[0].id, commitSha, 'success', {
       slug,
-      title: frontmatter.title,
-      tags: frontmatter.tags || [],
+      name: frontmatter.name,
+      parent: frontmatter.parent || null,
     });
   } catch (error) {
-    await logSync('sync', 'post', slug, commitSha, 'error', {
+    await logSync('sync', 'tag', null, commitSha, 'error', {
       slug,
       error: error instanceof Error ? error.message : 'Unknown error',
     });
@@ -445,53 +1596,57 @@ export async function upsertPost(
 }
 
 /**
- * Upsert author to database
+ * Upsert category to database
  *
- * Inserts or updates author with frontmatter data.
+ * Applies a category definition file: display name, description and
+ * parent. A parent that has no row yet is created as a placeholder, the
+ * same way posts create the categories they use.
  *
- * @param slug - Author slug
- * @param frontmatter - Validated author frontmatter
+ * @param slug - Category slug
+ * @param frontmatter - Validated category frontmatter
  * @param commitSha - Commit SHA
- * @throws {Error} If upsert fails
+ * @param file - Source file path and content hash
+ * @throws {Error} If upsert fails or the parent would create a cycle
  */
-export async function upsertAuthor(
+export async function upsertCategory(
   slug: string,
-  frontmatter: AuthorFrontmatter,
-  commitSha: string
+  frontmatter: CategoryFrontmatter,
+  commitSha: string,
+  file?: SourceFile
 ): Promise<void> {
   try {
-    // Prepare social JSONB
-    const social = frontmatter.social ? JSON.stringify(frontmatter.social) : '{}';
+    const parentId = frontmatter.parent
+      ? await resolveParent('category', slug, frontmatter.parent)
+      : null;
 
-    // Upsert author
+    // Upsert category
     const rows = await sql`
-      INSERT INTO authors (
-        slug, name, email, bio, avatar_url, website, social
+      INSERT INTO categories (
+        slug, name, description, parent_id,
+        source_path, content_hash
       ) VALUES (
-        ${slug}, ${frontmatter.name}, ${frontmatter.email || null},
-        ${frontmatter.bio || null}, ${frontmatter.avatar || null},
-        ${frontmatter.social?.website || null}, ${social}::jsonb
+        ${slug}, ${frontmatter.name}, ${frontmatter.description || null}, ${parentId},
+        ${file?.path || null}, ${file?.hash || null}
       )
       ON CONFLICT (slug) DO UPDATE SET
         name = EXCLUDED.name,
-        email = EXCLUDED.email,
-        bio = EXCLUDED.bio,
-        avatar_url = EXCLUDED.avatar_url,
-        website = EXCLUDED.website,
-        social = EXCLUDED.social,
+        description = EXCLUDED.description,
+        parent_id = EXCLUDED.parent_id,
+        source_path = EXCLUDED.source_path,
+        content_hash = EXCLUDED.content_hash,
+        auto_created = false,
         updated_at = NOW()
       RETURNING id
     `;
 
-    const authorId = rows[0].id;
-
     // Log successful sync
-    await logSync('sync', 'author', authorId, commitSha, 'success', {
+    await logSync('sync', 'category', rows[0].id, commitSha, 'success', {
       slug,
       name: frontmatter.name,
+      parent: frontmatter.parent || null,
     });
   } catch (error) {
-    await logSync('sync', 'author', slug, commitSha, 'error', {
+    await logSync('sync', 'category', null, commitSha, 'error', {
       slug,
       error: error instanceof Error ? error.message : 'Unknown error',
     });
@@ -500,63 +1655,130 @@ export async function upsertAuthor(
 }
 
 /**
- * Upsert page to database
+ * Find or create the parent of a tag or category, rejecting cycles
  *
- * Renders markdown and inserts or updates page.
+ * @returns Parent id
+ * @throws {Error} If the parent is the tag or category itself or one of its descendants
+ */
+async function resolveParent(
+  resourceType: 'tag' | 'category',
+  slug: string,
+  parentSlug: string
+): Promise<string> {
+  const table = RESOURCE_TABLES[resourceType];
+  const label = resourceType === 'tag' ? 'Tag' : 'Category';
+
+  if (parentSlug === slug) {
+    throw new Error(`${label} ${slug} cannot be its own parent`);
+  }
+
+  await (sql as any)(
+    `INSERT INTO ${table} (slug, name, auto_created)
+     VALUES ($1, $1, true)
+     ON CONFLICT (slug) DO NOTHING`,
+    [parentSlug]
+  );
+
+  // Walk up from the parent; meeting this row on the way would close a cycle
+  const ancestors = await (sql as any)(
+    `WITH RECURSIVE ancestors AS (
+       SELECT id, slug, parent_id FROM ${table} WHERE slug = $1
+       UNION
+       SELECT t.id, t.slug, t.parent_id FROM ${table} t
+       INNER JOIN ancestors a ON t.id = a.parent_id
+     )
+     SELECT id, slug FROM ancestors`,
+    [parentSlug]
+  );
+
+  if (ancestors.some((row: { slug: string }) => row.slug === slug)) {
+    throw new Error(`${label} ${slug} cannot have parent ${parentSlug}: ${parentSlug} is nested under ${slug}`);
+  }
+
+  const parent = ancestors.find((row: { slug: string }) => row.slug === parentSlug);
+  if (!parent) {
+    throw new Error(`Failed to find or create ${resourceType}: ${parentSlug}`);
+  }
+  return parent.id;
+}
+
+/**
+ * Upsert an entry of a custom content type
  *
- * @param slug - Page slug
- * @param frontmatter - Validated page frontmatter
+ * Renders markdown, upserts the entry by type and slug, and syncs its
+ * relations. When the slug rule gives the entry's file a new slug, the
+ * existing row is moved to it so the entry keeps its id.
+ *
+ * @param type - Content type
+ * @param slug - Entry slug (from the type's slug rule)
+ * @param data - Validated frontmatter
  * @param content - Markdown content
  * @param commitSha - Commit SHA
+ * @param file - Source file path and content hash
  * @throws {Error} If upsert fails
  */
-export async function upsertPage(
+export async function upsertEntry(
+  type: ContentType,
   slug: string,
-  frontmatter: PageFrontmatter,
+  data: Record<string, unknown>,
   content: string,
-  commitSha: string
+  commitSha: string,
+  file?: SourceFile
 ): Promise<void> {
   try {
-    // Render markdown to HTML
+    const relations = getEntryRelations(type, data);
     const contentHtml = await markdownToHtml(content);
 
-    // Parse published date
-    const publishedAt = frontmatter.publishedAt || null;
-
-    // Default status
-    const status = frontmatter.status || 'draft';
+    if (file) {
+      // Follow a slug change, unless another file already has the new slug
+      await sql`
+        UPDATE entries SET slug = ${slug}
+        WHERE type = ${type.name} AND source_path = ${file.path} AND slug <> ${slug}
+          AND NOT EXISTS (
+            SELECT 1 FROM entries taken WHERE taken.type = ${type.name} AND taken.slug = ${slug}
+          )
+      `;
+    }
 
-    // Upsert page
     const rows = await sql`
-      INSERT INTO pages (
-        slug, title, content, content_html, status, template,
-        meta_description, published_at
-      ) VALUES (
-        ${slug}, ${frontmatter.title}, ${content}, ${contentHtml},
-        ${status}, ${frontmatter.template || null},
-        ${frontmatter.metaDescription || null}, ${publishedAt}
+      INSERT INTO entries (type, slug, data, content, content_html, source_path, content_hash)
+      VALUES (
+        ${type.name}, ${slug}, ${JSON.stringify(data)}::jsonb, ${content}, ${contentHtml},
+        ${file?.path || null}, ${file?.hash || null}
       )
-      ON CONFLICT (slug) DO UPDATE SET
-        title = EXCLUDED.title,
+      ON CONFLICT (type, slug) DO UPDATE SET
+        data = EXCLUDED.data,
         content = EXCLUDED.content,
         content_html = EXCLUDED.content_html,
-        status = EXCLUDED.status,
-        template = EXCLUDED.template,
-        meta_description = EXCLUDED.meta_description,
-        published_at = EXCLUDED.published_at,
+        source_path = EXCLUDED.source_path,
+        content_hash = EXCLUDED.content_hash,
         updated_at = NOW()
       RETURNING id
     `;
 
-    const pageId = rows[0].id;
+    const entryId = rows[0].id;
 
-    // Log successful sync
-    await logSync('sync', 'page', pageId, commitSha, 'success', {
+    if (file) {
+      // The file's row under its previous slug, if the new slug was taken
+      await sql`
+        DELETE FROM entries
+        WHERE type = ${type.name} AND source_path = ${file.path} AND id <> ${entryId}
+      `;
+    }
+
+    const relationChanges: Record<string, RelationChanges> = {};
+    for (const [relation, { target, slugs }] of Object.entries(relations)) {
+      relationChanges[relation] = await syncEntryRelation(entryId, relation, target, slugs);
+    }
+
+    await logSync('sync', 'entry', entryId, commitSha, 'success', {
+      type: type.name,
       slug,
-      title: frontmatter.title,
+      relations: relationChanges,
     });
   } catch (error) {
-    await logSync('sync', 'page', slug, commitSha, 'error', {
+    await logSync('sync', 'entry', null, commitSha, 'error', {
+      type: type.name,
       slug,
       error: error instanceof Error ? error.message : 'Unknown error',
     });
@@ -564,6 +1786,519 @@ export async function upsertPage(
   }
 }
 
+// ===========================================================================
+// Relation Sync
+// ===========================================================================
+
+/**
+ * Many-to-many relation between a synced row and rows referenced by slug
+ */
+export interface RelationDefinition {
+  name: string; // Key in sync log metadata, e.g. tags
+  joinTable: string;
+  ownerColumn: string; // Join table column referencing the synced row
+  targetTable: string; // Table of the related rows (must have id and slug)
+  targetColumn: string; // Join table column referencing the related row
+  createMissing?: boolean; // Create related rows missing from targetTable (name = slug, auto_created)
+}
+
+/**
+ * Relations added and removed by syncRelation, by slug
+ */
+export interface RelationChanges {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Sync a many-to-many relation to a list of slugs
+ *
+ * Diffs the slugs against the current relation and applies only the
+ * difference: one statement for all removals and one for all additions,
+ * however many slugs there are. An empty list clears the relation.
+ *
+ * @param relation - Relation to sync
+ * @param ownerId - Id of the row that owns the relation (e.g. a post)
+ * @param slugs - Slugs the row should be related to
+ * @returns Slugs added (only those actually attached) and removed
+ * @throws {Error} If a query fails
+ */
+export async function syncRelation(
+  relation: RelationDefinition,
+  ownerId: string,
+  slugs: string[]
+): Promise<RelationChanges> {
+  const { joinTable, ownerColumn, targetTable, targetColumn } = relation;
+
+  const rows = await (sql as any)(
+    `SELECT t.slug FROM ${joinTable} j
+     INNER JOIN ${targetTable} t ON t.id = j.${targetColumn}
+     WHERE j.${ownerColumn} = $1`,
+    [ownerId]
+  );
+  const current = new Set<string>(rows.map((row: { slug: string }) => row.slug));
+  const desired = new Set(slugs);
+
+  const missing = [...desired].filter((slug) => !current.has(slug));
+  const removed = [...current].filter((slug) => !desired.has(slug));
+  let added: string[] = [];
+
+  if (removed.length > 0) {
+    await (sql as any)(
+      `DELETE FROM ${joinTable} j USING ${targetTable} t
+       WHERE j.${ownerColumn} = $1 AND j.${targetColumn} = t.id AND t.slug = ANY($2::text[])`,
+      [ownerId, removed]
+    );
+  }
+
+  if (missing.length > 0) {
+    // Creating and attaching in one statement means garbage collection
+    // can't remove a new row before it is attached. The no-op update makes
+    // the insert return rows another sync created concurrently, which a
+    // select in the same statement could not see.
+    const linked = await (sql as any)(
+      relation.createMissing
+        ? `WITH target AS (
+             INSERT INTO ${targetTable} (slug, name, auto_created)
+             SELECT new_slug, new_slug, true FROM unnest($2::text[]) AS new_slug
+             ON CONFLICT (slug) DO UPDATE SET slug = EXCLUDED.slug
+             RETURNING id, slug
+           ),
+           linked AS (
+             INSERT INTO ${joinTable} (${ownerColumn}, ${targetColumn})
+             SELECT $1::uuid, id FROM target
+             ON CONFLICT DO NOTHING
+             RETURNING ${targetColumn} AS id
+           )
+           SELECT target.slug FROM target INNER JOIN linked ON linked.id = target.id`
+        : `WITH linked AS (
+             INSERT INTO ${joinTable} (${ownerColumn}, ${targetColumn})
+             SELECT $1::uuid, id FROM ${targetTable} WHERE slug = ANY($2::text[])
+             ON CONFLICT DO NOTHING
+             RETURNING ${targetColumn} AS id
+           )
+           SELECT t.slug FROM ${targetTable} t INNER JOIN linked ON linked.id = t.id`,
+      [ownerId, missing]
+    );
+
+    // Only report what was attached, e.g. not slugs without a row
+    const linkedSlugs = new Set<string>(linked.map((row: { slug: string }) => row.slug));
+    added = missing.filter((slug) => linkedSlugs.has(slug));
+  }
+
+  return { added, removed };
+}
+
+/**
+ * Sync a post's authors to an ordered list
+ *
+ * Removes authors no longer listed, and writes the position and role of
+ * every listed author, since either can change while the list stays the
+ * same. Authors without a row are created as placeholders, as the lead
+ * author is.
+ *
+ * @param postId - Post ID
+ * @param authors - Authors in order
+ * @returns Author slugs added (only those actually credited) and removed
+ * @throws {Error} If a query fails
+ */
+async function syncPostAuthors(
+  postId: string,
+  authors: PostAuthorRef[]
+): Promise<RelationChanges> {
+  const rows = await sql`
+    SELECT a.slug FROM post_authors pa
+    INNER JOIN authors a ON a.id = pa.author_id
+    WHERE pa.post_id = ${postId}
+  `;
+  const current = new Set<string>(rows.map((row: { slug: string }) => row.slug));
+  const slugs = authors.map(({ slug }) => slug);
+
+  const removed = [...current].filter((slug) => !slugs.includes(slug));
+
+  if (removed.length > 0) {
+    await sql`
+      DELETE FROM post_authors pa USING authors a
+      WHERE pa.post_id = ${postId} AND pa.author_id = a.id AND a.slug = ANY(${removed}::text[])
+    `;
+  }
+
+  // As in syncRelation, the no-op update returns placeholders another sync
+  // created concurrently
+  const linked = await sql`
+    WITH listed AS (
+      SELECT * FROM unnest(${slugs}::text[], ${authors.map(({ role }) => role || null)}::text[])
+        WITH ORDINALITY AS listed(slug, role, position)
+    ),
+    target AS (
+      INSERT INTO authors (slug, name, auto_created)
+      SELECT slug, slug, true FROM listed
+      ON CONFLICT (slug) DO UPDATE SET slug = EXCLUDED.slug
+      RETURNING id, slug
+    ),
+    linked AS (
+      INSERT INTO post_authors (post_id, author_id, position, role)
+      SELECT ${postId}::uuid, target.id, listed.position - 1, listed.role
+      FROM listed
+      INNER JOIN target ON target.slug = listed.slug
+      ON CONFLICT (post_id, author_id) DO UPDATE SET
+        position = EXCLUDED.position,
+        role = EXCLUDED.role
+      RETURNING author_id
+    )
+    SELECT target.slug FROM target INNER JOIN linked ON linked.author_id = target.id
+  `;
+  const linkedSlugs = new Set<string>(linked.map((row: { slug: string }) => row.slug));
+  const added = slugs.filter((slug) => !current.has(slug) && linkedSlugs.has(slug));
+
+  return { added, removed };
+}
+
+/**
+ * Sync one relation of an entry to a list of slugs
+ *
+ * Entry relations reference content by type and slug rather than by id, so
+ * a target doesn't need to exist (yet) to be referenced. Like syncRelation,
+ * only the difference is written.
+ *
+ * @param entryId - Entry ID
+ * @param relation - Relation (frontmatter field) name
+ * @param target - Type of the referenced content
+ * @param slugs - Slugs the entry should reference
+ * @returns Slugs added and removed
+ * @throws {Error} If a query fails
+ */
+async function syncEntryRelation(
+  entryId: string,
+  relation: string,
+  target: RelationTarget,
+  slugs: string[]
+): Promise<RelationChanges> {
+  const rows = await sql`
+    SELECT target_slug FROM entry_relations
+    WHERE entry_id = ${entryId} AND relation = ${relation}
+  `;
+  const current = new Set<string>(rows.map((row: { target_slug: string }) => row.target_slug));
+  const desired = new Set(slugs);
+
+  const added = [...desired].filter((slug) => !current.has(slug));
+  const removed = [...current].filter((slug) => !desired.has(slug));
+
+  if (removed.length > 0) {
+    await sql`
+      DELETE FROM entry_relations
+      WHERE entry_id = ${entryId} AND relation = ${relation}
+        AND target_slug = ANY(${removed}::text[])
+    `;
+  }
+
+  if (added.length > 0) {
+    await sql`
+      INSERT INTO entry_relations (entry_id, relation, target_type, target_slug)
+      SELECT ${entryId}::uuid, ${relation}, ${target}, new_slug
+      FROM unnest(${added}::text[]) AS new_slug
+      ON CONFLICT (entry_id, relation, target_slug) DO UPDATE SET
+        target_type = EXCLUDED.target_type
+    `;
+  }
+
+  return { added, removed };
+}
+
+// ===========================================================================
+// Revisions
+// ===========================================================================
+
+// Revision table and owner column per content type with history
+const REVISION_TABLES = {
+  post: { table: 'post_revisions', ownerColumn: 'post_id' },
+  page: { table: 'page_revisions', ownerColumn: 'page_id' },
+} as const;
+
+/**
+ * Record the content a post or page was synced with at a commit
+ *
+ * Syncing the same commit again replaces that commit's revision.
+ *
+ * @param resourceType - Type of resource
+ * @param resourceId - Post or page ID
+ * @param commitSha - Commit SHA the content was synced from
+ * @param frontmatter - Validated frontmatter (includes the title)
+ * @param content - Markdown content
+ */
+async function recordRevision(
+  resourceType: keyof typeof REVISION_TABLES,
+  resourceId: string,
+  commitSha: string,
+  frontmatter: PostFrontmatter | PageFrontmatter,
+  content: string
+): Promise<void> {
+  const { table, ownerColumn } = REVISION_TABLES[resourceType];
+
+  await (sql as any)(
+    `INSERT INTO ${table} (${ownerColumn}, commit_sha, title, content, frontmatter)
+     VALUES ($1::uuid, $2, $3, $4, $5::jsonb)
+     ON CONFLICT (${ownerColumn}, commit_sha) DO UPDATE SET
+       title = EXCLUDED.title,
+       content = EXCLUDED.content,
+       frontmatter = EXCLUDED.frontmatter`,
+    [resourceId, commitSha, frontmatter.title, content, JSON.stringify(frontmatter)]
+  );
+}
+
+// ===========================================================================
+// Reconciliation
+// ===========================================================================
+
+/**
+ * Plan a full reconciliation between a ref and the database
+ *
+ * Every content file at the ref is either a create (no row yet) or an
+ * update; every row without a backing file is an orphan to prune. Authors,
+ * tags and categories that were only ever created by posts (placeholders)
+ * have no file and are never orphans.
+ *
+ * @param source - Content source to list files from
+ * @param ref - Ref to reconcile against
+ * @returns Reconciliation plan
+ */
+export async function planReconciliation(
+  source: ContentSource,
+  ref: string
+): Promise<ReconciliationPlan> {
+  const files = filterContentFiles(await source.listFiles(ref, 'content'));
+
+  const plan: ReconciliationPlan = {
+    ref,
+    create: [],
+    update: [],
+    prune: [],
+  };
+
+  for (const resourceType of Object.keys(RESOURCE_TABLES) as ContentResourceType[]) {
+    if (resourceType === 'entry') {
+      continue;
+    }
+
+    const rows = await (sql as any)(
+      `SELECT slug FROM ${RESOURCE_TABLES[resourceType]}` +
+        (resourceType === 'author' || resourceType === 'tag' || resourceType === 'category'
+          ? ' WHERE source_path IS NOT NULL'
+          : '')
+    );
+    const existing = new Set<string>(rows.map((row: { slug: string }) => row.slug));
+    const backed = new Set<string>();
+
+    for (const path of files) {
+      if (getResourceTypeFromPath(path) !== resourceType) {
+        continue;
+      }
+
+      const slug = extractSlugFromPath(path);
+      backed.add(slug);
+      (existing.has(slug) ? plan.update : plan.create).push({ path, resourceType, slug });
+    }
+
+    for (const slug of existing) {
+      if (!backed.has(slug)) {
+        plan.prune.push({ resourceType, slug });
+      }
+    }
+  }
+
+  // Entry slugs can depend on frontmatter, so entries are matched by path
+  for (const type of getContentTypes()) {
+    const rows = await sql`
+      SELECT slug, source_path FROM entries WHERE type = ${type.name}
+    `;
+    const existing = new Set<string | null>(
+      rows.map((row: { source_path: string | null }) => row.source_path)
+    );
+    const backed = new Set<string>();
+
+    for (const path of files) {
+      if (!path.startsWith(`${getContentTypeDir(type)}/`)) {
+        continue;
+      }
+
+      backed.add(path);
+      (existing.has(path) ? plan.update : plan.create).push({
+        path,
+        resourceType: 'entry',
+        slug: extractSlugFromPath(path),
+        entryType: type.name,
+      });
+    }
+
+    for (const row of rows as Array<{ slug: string; source_path: string | null }>) {
+      if (!row.source_path || !backed.has(row.source_path)) {
+        plan.prune.push({ resourceType: 'entry', slug: row.slug, entryType: type.name });
+      }
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Remove or archive rows that have no backing content file
+ *
+ * In `archive` mode posts and pages are set to `archived`; authors, tags,
+ * categories and entries have no status and are left in place.
+ *
+ * @param orphans - Rows to prune (from planReconciliation)
+ * @param commitSha - Commit SHA the reconciliation ran against
+ * @param mode - Delete rows or archive them
+ * @returns Number of rows pruned and per-row errors
+ */
+export async function pruneOrphans(
+  orphans: ReconciliationPlan['prune'],
+  commitSha: string,
+  mode: 'delete' | 'archive' = 'delete'
+): Promise<{ pruned: number; errors: Array<{ file: string; error: string }> }> {
+  const errors: Array<{ file: string; error: string }> = [];
+  let pruned = 0;
+
+  for (const { resourceType, slug, entryType } of orphans) {
+    try {
+      if (mode === 'delete' && resourceType === 'entry') {
+        await deleteEntry(entryType!, { slug }, commitSha, { reason: 'orphaned' });
+        pruned++;
+      } else if (mode === 'delete') {
+        await deleteResource(resourceType, slug, commitSha, { slug, reason: 'orphaned' });
+        pruned++;
+      } else if (resourceType === 'post' || resourceType === 'page') {
+        const rows = await (sql as any)(
+          `UPDATE ${RESOURCE_TABLES[resourceType]} SET status = 'archived'
+           WHERE slug = $1 AND status <> 'archived' RETURNING id`,
+          [slug]
+        );
+        if (rows.length > 0) {
+          await logSync('update', resourceType, rows[0].id, commitSha, 'success', {
+            slug,
+            status: 'archived',
+            reason: 'orphaned',
+          });
+          pruned++;
+        }
+      }
+    } catch (error) {
+      errors.push({
+        file: `${entryType || resourceType}:${slug}`,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { pruned, errors };
+}
+
+// ===========================================================================
+// Garbage Collection
+// ===========================================================================
+
+// Only rows the sync created on its own (auto_created) are ever collected;
+// seeded rows and rows that predate the flag are left alone
+
+// Auto-created tags nothing refers to: no posts, no child tags
+const UNUSED_TAG_CONDITION = `
+  auto_created
+  AND NOT EXISTS (SELECT 1 FROM post_tags pt WHERE pt.tag_id = tags.id)
+  AND NOT EXISTS (SELECT 1 FROM tags child WHERE child.parent_id = tags.id)
+`;
+
+// Placeholder authors (created for posts) that no post references
+const UNUSED_AUTHOR_CONDITION = `
+  auto_created
+  AND NOT EXISTS (SELECT 1 FROM posts p WHERE p.author_id = authors.id)
+  AND NOT EXISTS (SELECT 1 FROM post_authors pa WHERE pa.author_id = authors.id)
+`;
+
+// Auto-created categories nothing refers to: no posts, no subcategories
+const UNUSED_CATEGORY_CONDITION = `
+  auto_created
+  AND NOT EXISTS (SELECT 1 FROM posts p WHERE p.category_id = categories.id)
+  AND NOT EXISTS (SELECT 1 FROM categories child WHERE child.parent_id = categories.id)
+`;
+
+// Series whose last post left them
+const UNUSED_SERIES_CONDITION = `
+  NOT EXISTS (SELECT 1 FROM posts p WHERE p.series_id = series.id)
+`;
+
+/**
+ * Remove tags, categories and placeholder authors that nothing uses any more
+ *
+ * Tags and categories left behind when the last post drops them,
+ * placeholder authors whose posts are gone, and series without posts are
+ * deleted. Only tags, categories and authors the sync created itself (as
+ * placeholders, or by removing their definition file) are collected; rows
+ * with a content file or created any other way are kept. Each removal is
+ * logged.
+ *
+ * @param commitSha - Commit SHA the sync ran against
+ * @param options - With `dryRun`, only report what would be removed
+ * @returns Slugs of the removed (or removable) tags, categories, authors and series
+ * @throws {Error} If a query fails
+ */
+export async function collectGarbage(
+  commitSha: string,
+  options: { dryRun?: boolean } = {}
+): Promise<{ tags: string[]; categories: string[]; authors: string[]; series: string[] }> {
+  const collect = async (
+    resourceType: 'tag' | 'category' | 'author' | 'series',
+    condition: string
+  ) => {
+    const table = resourceType === 'series' ? 'series' : RESOURCE_TABLES[resourceType];
+    const rows: Array<{ id: string; slug: string }> = await (sql as any)(
+      options.dryRun
+        ? `SELECT id, slug FROM ${table} WHERE ${condition}`
+        : `DELETE FROM ${table} WHERE ${condition} RETURNING id, slug`
+    );
+
+    if (!options.dryRun) {
+      for (const row of rows) {
+        await logSync('delete', resourceType, row.id, commitSha, 'success', {
+          slug: row.slug,
+          reason: 'unused',
+        });
+      }
+    }
+
+    return rows.map((row) => row.slug);
+  };
+
+  return {
+    tags: await collect('tag', UNUSED_TAG_CONDITION),
+    categories: await collect('category', UNUSED_CATEGORY_CONDITION),
+    authors: await collect('author', UNUSED_AUTHOR_CONDITION),
+    series: await collect('series', UNUSED_SERIES_CONDITION),
+  };
+}
+
+/**
+ * Collect garbage at the end of a sync, unless disabled
+ *
+ * Runs collectGarbage unless SYNC_GARBAGE_COLLECT is `false`. Failures are
+ * reported but never fail the sync that triggered them.
+ *
+ * @param commitSha - Commit SHA the sync ran against
+ */
+export async function collectGarbageAfterSync(commitSha: string): Promise<void> {
+  if (process.env.SYNC_GARBAGE_COLLECT === 'false') {
+    return;
+  }
+
+  try {
+    await collectGarbage(commitSha);
+  } catch (error) {
+    console.error(
+      'Garbage collection failed:',
+      error instanceof Error ? error.message : error
+    );
+  }
+}
+
 // ===========================================================================
 // Sync Logging
 // ===========================================================================
@@ -571,21 +2306,24 @@ export async function upsertPage(
 /**
  * Log sync operation
  *
- * Inserts sync event into sync_logs table with metadata.
+ * Inserts sync event into sync_logs table with metadata. Inside
+ * runInEnvironment, the environment and ref are added to the metadata.
  *
  * @param eventType - Type of sync event
  * @param resourceType - Type of resource being synced
- * @param resourceId - Resource ID or slug
- * @param commitSha - Git commit SHA
+ * @param resourceId - Resource UUID, or null when there is no row to point
+ *   at (record the slug or path in the metadata instead)
+ * @param commitSha - Git commit SHA (null for events not caused by a commit,
+ *   such as scheduled publishing)
  * @param status - Sync status
  * @param metadata - Additional metadata
  * @throws {Error} If logging fails
  */
 export async function logSync(
   eventType: 'sync' | 'create' | 'update' | 'delete',
-  resourceType: 'post' | 'author' | 'page' | 'tag',
-  resourceId: string,
-  commitSha: string,
+  resourceType: 'post' | 'author' | 'page' | 'tag' | 'category' | 'entry' | 'series',
+  resourceId: string | null,
+  commitSha: string | null,
   status: 'success' | 'error' | 'skipped',
   metadata?: Record<string, unknown>
 ): Promise<void> {
@@ -594,7 +2332,11 @@ export async function logSync(
       ? String(metadata.error)
       : null;
 
-    const metadataJson = metadata ? JSON.stringify(metadata) : '{}';
+    // Record which environment and ref the event belongs to
+    const context = environmentStorage.getStore();
+    const metadataJson = metadata || context
+      ? JSON.stringify({ ...metadata, ...context })
+      : '{}';
 
     await sql`
       INSERT INTO sync_logs (
@@ -615,10 +2357,74 @@ export async function logSync(
 // Utility Functions
 // ===========================================================================
 
+/**
+ * Run an async function over items with a bounded number of calls in flight
+ *
+ * Stops starting new calls once one rejects, then rejects with that error
+ * after the calls already running settle.
+ *
+ * @param items - Items to process
+ * @param concurrency - Maximum calls running at once
+ * @param fn - Called with each item and its index
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.min(Math.max(concurrency, 1), items.length);
+  const settled = await Promise.allSettled(Array.from({ length: workerCount }, worker));
+
+  const rejected = settled.find((result) => result.status === 'rejected');
+  if (rejected) {
+    throw (rejected as PromiseRejectedResult).reason;
+  }
+
+  return results;
+}
+
+/**
+ * Compute the content hash of a file
+ *
+ * Uses the git blob SHA-1, so hashes match the blob SHAs reported by
+ * GitHub, GitLab and Gitea for the same content.
+ *
+ * @param content - File content
+ * @returns 40-character hex blob SHA
+ */
+export function computeContentHash(content: string): string {
+  const buffer = Buffer.from(content, 'utf-8');
+  return crypto
+    .createHash('sha1')
+    .update(`blob ${buffer.length}\0`)
+    .update(buffer)
+    .digest('hex');
+}
+
 /**
  * Extract slug from file path
  *
  * Removes directory prefix, date prefix (for posts), and .md extension.
+ * Pages keep their path below content/pages, so pages in different
+ * sections don't collide, and a directory's index.md is the page for the
+ * directory itself.
  *
  * @param path - File path in repository
  * @returns Extracted slug
@@ -627,8 +2433,17 @@ export async function logSync(
  * extractSlugFromPath('content/posts/2024-01-15-hello-world.md') // 'hello-world'
  * extractSlugFromPath('content/authors/john-doe.md') // 'john-doe'
  * extractSlugFromPath('content/pages/about.md') // 'about'
+ * extractSlugFromPath('content/pages/docs/install.md') // 'docs/install'
+ * extractSlugFromPath('content/pages/docs/index.md') // 'docs'
  */
 export function extractSlugFromPath(path: string): string {
+  if (path.startsWith('content/pages/')) {
+    return path
+      .slice('content/pages/'.length)
+      .replace(/\.md$/, '')
+      .replace(/(.)\/index$/, '$1');
+  }
+
   // Remove directory prefix
   let filename = path.split('/').pop() || '';
 
@@ -646,30 +2461,55 @@ export function extractSlugFromPath(path: string): string {
 /**
  * Determine resource type from path
  *
- * Detects whether a file path is a post, author, or page.
+ * Detects whether a file path is a post, author, page, tag, category, or
+ * custom content type entry.
  *
  * @param path - File path in repository
  * @returns Resource type or null if not a content file
  */
 export function getResourceTypeFromPath(
   path: string
-): 'post' | 'author' | 'page' | null {
+): ContentResourceType | null {
   if (path.startsWith('content/posts/')) return 'post';
   if (path.startsWith('content/authors/')) return 'author';
   if (path.startsWith('content/pages/')) return 'page';
+  if (path.startsWith('content/tags/')) return 'tag';
+  if (path.startsWith('content/categories/')) return 'category';
+  if (getContentTypeForPath(path)) return 'entry';
   return null;
 }
 
+/**
+ * Compare content file paths by dependency order
+ *
+ * Sorting with this comparator puts files that other content references
+ * (authors, tags, categories) before the files that reference them (posts, pages).
+ *
+ * @param a - Content file path
+ * @param b - Content file path
+ * @returns Negative if `a` syncs first, positive if `b` does, 0 if either
+ */
+export function compareDependencyOrder(a: string, b: string): number {
+  const typeA = getResourceTypeFromPath(a);
+  const typeB = getResourceTypeFromPath(b);
+  if (!typeA || !typeB) {
+    return 0;
+  }
+  return RESOURCE_SYNC_ORDER[typeA] - RESOURCE_SYNC_ORDER[typeB];
+}
+
 /**
  * Filter content files from changed files list
  *
- * Returns only .md files in content/ directory.
+ * Returns only .md files in a known content directory (posts, authors,
+ * pages, tags, categories, or a content type declared in hexcms.config.ts), skipping
+ * files such as content/README.md and templates.
  *
  * @param files - Array of file paths
  * @returns Filtered array of content files
  */
 export function filterContentFiles(files: string[]): string[] {
   return files.filter(
-    (file) => file.startsWith('content/') && file.endsWith('.md')
+    (file) => file.endsWith('.md') && getResourceTypeFromPath(file) !== null
   );
 }
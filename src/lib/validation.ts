@@ -15,22 +15,54 @@ import { z } from 'zod';
 // Frontmatter Schemas
 // ===========================================================================
 
+/**
+ * Expiry date: a day (expires at midnight) or an exact ISO 8601 date-time
+ */
+const expiryDateSchema = z
+  .string()
+  .regex(
+    /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/,
+    'Expiry must be a date (YYYY-MM-DD) or ISO 8601 date-time'
+  );
+
+/**
+ * Post author: a slug, or a slug with the author's role on the post
+ */
+const postAuthorSchema = z.union([
+  z.string().min(1),
+  z.object({
+    slug: z.string().min(1),
+    role: z.string().max(100).optional(),
+  }),
+]);
+
 /**
  * Post frontmatter schema
  *
+ * Unknown fields are kept as custom fields rather than stripped. A post
+ * needs a lead `author`, an `authors` list, or both.
+ *
  * TODO: Implement full validation with custom error messages
  */
-export const postFrontmatterSchema = z.object({
+export const postFrontmatterSchema = z.looseObject({
   title: z.string().min(1).max(500),
   excerpt: z.string().max(500).optional(),
-  author: z.string(),
+  author: z.string().min(1).optional(),
+  authors: z.array(postAuthorSchema).min(1).optional(),
   publishedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   updatedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  expiresAt: expiryDateSchema.optional(),
   featuredImage: z.string().optional(),
   tags: z.array(z.string()).default([]),
   status: z.enum(['draft', 'published', 'archived']).default('draft'),
   metaDescription: z.string().max(160).optional(),
   metaKeywords: z.array(z.string()).optional(),
+  category: z.string().min(1).optional(),
+  series: z.string().min(1).max(255).optional(),
+  seriesOrder: z.number().int().positive().optional(),
+}).refine((data) => data.author || data.authors, {
+  message: 'Either author or authors is required',
+  path: ['author'],
 });
 
 /**
@@ -55,19 +87,45 @@ export const authorFrontmatterSchema = z.object({
     .optional(),
 });
 
+/**
+ * Tag frontmatter schema
+ */
+export const tagFrontmatterSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+  color: z
+    .string()
+    .regex(/^#(?:[0-9a-fA-F]{3}){1,2}$/, 'Color must be a hex color such as #3178c6')
+    .optional(),
+  parent: z.string().min(1).optional(),
+});
+
+/**
+ * Category frontmatter schema
+ */
+export const categoryFrontmatterSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+  parent: z.string().min(1).optional(),
+});
+
 /**
  * Page frontmatter schema
  *
+ * Unknown fields are kept as custom fields rather than stripped.
+ *
  * TODO: Implement
  */
-export const pageFrontmatterSchema = z.object({
+export const pageFrontmatterSchema = z.looseObject({
   title: z.string().min(1).max(500),
   slug: z.string().optional(),
   status: z.enum(['draft', 'published']).default('draft'),
   publishedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   updatedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  expiresAt: expiryDateSchema.optional(),
   metaDescription: z.string().max(160).optional(),
   template: z.string().optional(),
+  order: z.number().int().optional(),
 });
 
 // ===========================================================================
@@ -80,9 +138,10 @@ export const pageFrontmatterSchema = z.object({
  * TODO: Implement
  */
 export const postFiltersSchema = z.object({
-  status: z.enum(['draft', 'published', 'archived']).optional(),
+  status: z.enum(['draft', 'scheduled', 'published', 'archived']).optional(),
   authorId: z.string().uuid().optional(),
   tag: z.string().optional(),
+  category: z.string().optional(),
   featured: z.boolean().optional(),
   search: z.string().optional(),
   limit: z.number().int().min(1).max(100).default(20),
@@ -98,4 +157,6 @@ export const postFiltersSchema = z.object({
 export type PostFrontmatter = z.infer<typeof postFrontmatterSchema>;
 export type AuthorFrontmatter = z.infer<typeof authorFrontmatterSchema>;
 export type PageFrontmatter = z.infer<typeof pageFrontmatterSchema>;
+export type TagFrontmatter = z.infer<typeof tagFrontmatterSchema>;
+export type CategoryFrontmatter = z.infer<typeof categoryFrontmatterSchema>;
 export type PostFilters = z.infer<typeof postFiltersSchema>;
@@ -18,17 +18,37 @@ export interface Post {
   excerpt?: string;
   content: string;
   contentHtml?: string;
-  authorId?: string;
-  status: 'draft' | 'published' | 'archived';
+  authorId?: string; // Lead author
+  authors?: PostAuthor[]; // All authors in order, lead author first (single-post and per-author queries)
+  status: 'draft' | 'scheduled' | 'published' | 'archived'; // scheduled: published, publishedAt in the future
   featuredImage?: string;
   featured: boolean;
   readingTime?: number;
   views: number;
   publishedAt?: Date;
+  expiresAt?: Date; // Hidden from public queries from then on
+  contentUpdatedAt?: Date; // Frontmatter updatedAt (updatedAt is when the row last changed)
+  metaDescription?: string;
+  metaKeywords: string[];
+  frontmatter: Record<string, unknown>; // Full frontmatter, including custom fields
+  categoryId?: string; // Primary category
+  seriesId?: string;
+  seriesOrder?: number; // Part number within the series
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Author credited on a post
+ */
+export interface PostAuthor {
+  id: string;
+  slug: string;
+  name: string;
+  avatarUrl?: string;
+  role?: string; // e.g. editor, illustrator
+}
+
 /**
  * Author entity from database
  */
@@ -60,7 +80,71 @@ export interface Tag {
   slug: string;
   name: string;
   description?: string;
+  color?: string; // Hex color, e.g. #3178c6
+  parentId?: string;
+  createdAt: Date;
+}
+
+/**
+ * Category entity from database (primary post category, hierarchical)
+ */
+export interface Category {
+  id: string;
+  slug: string;
+  name: string;
+  description?: string;
+  parentId?: string;
+  createdAt: Date;
+}
+
+/**
+ * Category with its subcategories and published post counts
+ */
+export interface CategoryTreeNode extends Category {
+  postCount: number; // Posts in this category
+  totalPostCount: number; // Posts in this category and its descendants
+  children: CategoryTreeNode[];
+}
+
+/**
+ * Series of posts (multi-part tutorials)
+ */
+export interface Series {
+  id: string;
+  slug: string;
+  name: string;
   createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Post listed as a part of a series
+ */
+export interface SeriesPart {
+  id: string;
+  slug: string;
+  title: string;
+  excerpt?: string;
+  publishedAt?: Date;
+  seriesOrder?: number;
+}
+
+/**
+ * Series with its published parts in order
+ */
+export interface SeriesWithParts extends Series {
+  parts: SeriesPart[];
+}
+
+/**
+ * Position of a post within its series, for series navigation
+ */
+export interface SeriesNavigation {
+  series: Series;
+  parts: SeriesPart[]; // All published parts in order
+  index: number; // Index of the post in parts
+  previous: SeriesPart | null;
+  next: SeriesPart | null;
 }
 
 /**
@@ -68,25 +152,103 @@ export interface Tag {
  */
 export interface Page {
   id: string;
-  slug: string;
+  slug: string; // Path under content/pages, e.g. docs/install
+  parentId?: string; // Nearest ancestor page
+  sortOrder?: number; // Position among sibling pages
   title: string;
   content: string;
   contentHtml?: string;
-  status: 'draft' | 'published';
+  status: 'draft' | 'published' | 'archived';
   template?: string;
   metaDescription?: string;
   publishedAt?: Date;
+  expiresAt?: Date; // Hidden from public queries from then on
+  contentUpdatedAt?: Date; // Frontmatter updatedAt (updatedAt is when the row last changed)
+  frontmatter: Record<string, unknown>; // Full frontmatter, including custom fields
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Link to a page (breadcrumbs and navigation)
+ */
+export interface PageLink {
+  id: string;
+  slug: string;
+  title: string;
+}
+
+/**
+ * Page with the pages above it in the hierarchy
+ */
+export interface PageWithAncestors extends Page {
+  ancestors: PageLink[]; // Root first, for breadcrumbs
+}
+
+/**
+ * Page with its child pages, for sidebar navigation
+ */
+export interface PageTreeNode extends PageLink {
+  sortOrder?: number;
+  children: PageTreeNode[];
+}
+
+/**
+ * Entry of a custom content type (declared in hexcms.config.ts)
+ */
+export interface Entry<T = Record<string, unknown>> {
+  id: string;
+  type: string; // Content type name
+  slug: string; // Unique per content type
+  data: T; // Validated frontmatter
+  content: string;
+  contentHtml?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Post or page content as synced at one commit
+ */
+export interface Revision {
+  id: string;
+  resourceType: 'post' | 'page';
+  resourceId: string; // Post or page ID
+  commitSha: string;
+  title: string;
+  content: string;
+  frontmatter: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * Changes between two revisions of the same post or page
+ */
+export interface RevisionDiff {
+  from: Pick<Revision, 'id' | 'commitSha' | 'createdAt'>;
+  to: Pick<Revision, 'id' | 'commitSha' | 'createdAt'>;
+  frontmatter: Record<string, { from?: unknown; to?: unknown }>; // Changed fields only
+  diff: string; // Unified diff of the content, empty if unchanged
+}
+
+/**
+ * Redirect from a retired slug to the current one
+ */
+export interface Redirect {
+  id: string;
+  resourceType: 'post' | 'author' | 'page' | 'tag' | 'category';
+  fromSlug: string;
+  toSlug: string;
+  createdAt: Date;
+}
+
 /**
  * Sync log entry
  */
 export interface SyncLog {
   id: string;
   eventType: 'sync' | 'create' | 'update' | 'delete';
-  resourceType: 'post' | 'author' | 'page' | 'tag';
+  resourceType: 'post' | 'author' | 'page' | 'tag' | 'category' | 'entry' | 'series';
   resourceId?: string;
   filePath?: string;
   commitSha?: string;
@@ -102,18 +264,33 @@ export interface SyncLog {
 
 /**
  * Post frontmatter structure (from Markdown files)
+ *
+ * Fields not listed here are kept as custom fields (Post.frontmatter).
  */
 export interface PostFrontmatter {
   title: string;
   excerpt?: string;
-  author: string; // Author slug
+  author?: string; // Lead author slug
+  authors?: Array<string | PostAuthorRef>; // Co-authors in order (at least one of author/authors)
   publishedAt: string; // YYYY-MM-DD
   updatedAt?: string;
+  expiresAt?: string; // YYYY-MM-DD or ISO 8601 date-time
   featuredImage?: string;
   tags?: string[];
   status?: 'draft' | 'published' | 'archived';
   metaDescription?: string;
   metaKeywords?: string[];
+  category?: string; // Primary category slug
+  series?: string; // Series name or slug
+  seriesOrder?: number; // Part number within the series
+}
+
+/**
+ * Post author reference in frontmatter, with an optional role
+ */
+export interface PostAuthorRef {
+  slug: string;
+  role?: string;
 }
 
 /**
@@ -134,8 +311,29 @@ export interface AuthorFrontmatter {
   };
 }
 
+/**
+ * Tag frontmatter structure (content/tags/*.md)
+ */
+export interface TagFrontmatter {
+  name: string;
+  description?: string;
+  color?: string; // Hex color, e.g. #3178c6
+  parent?: string; // Parent tag slug
+}
+
+/**
+ * Category frontmatter structure (content/categories/*.md)
+ */
+export interface CategoryFrontmatter {
+  name: string;
+  description?: string;
+  parent?: string; // Parent category slug
+}
+
 /**
  * Page frontmatter structure
+ *
+ * Fields not listed here are kept as custom fields (Page.frontmatter).
  */
 export interface PageFrontmatter {
   title: string;
@@ -143,14 +341,32 @@ export interface PageFrontmatter {
   status?: 'draft' | 'published';
   publishedAt?: string;
   updatedAt?: string;
+  expiresAt?: string; // YYYY-MM-DD or ISO 8601 date-time
   metaDescription?: string;
   template?: string;
+  order?: number; // Position among sibling pages
 }
 
 // ===========================================================================
 // API Types
 // ===========================================================================
 
+/**
+ * Commit entry in a GitHub push webhook
+ */
+export interface GitHubWebhookCommit {
+  id: string;
+  message: string;
+  timestamp: string;
+  author: {
+    name: string;
+    email: string;
+  };
+  added: string[];
+  modified: string[];
+  removed: string[];
+}
+
 /**
  * GitHub webhook payload
  */
@@ -166,23 +382,94 @@ export interface GitHubWebhookPayload {
       email: string;
     };
   };
-  head_commit: {
-    id: string;
-    message: string;
-    timestamp: string;
-    author: {
-      name: string;
-      email: string;
-    };
-    added: string[];
-    modified: string[];
-    removed: string[];
-  };
+  commits?: GitHubWebhookCommit[]; // Oldest first, truncated by GitHub at 2048
+  size?: number; // Total commits in the push, when the sender includes it
+  head_commit: GitHubWebhookCommit;
+  forced?: boolean; // Force push (may move the branch to an older commit)
+}
+
+/**
+ * Received webhook delivery (webhook_deliveries table)
+ *
+ * Keyed by the x-github-delivery header so redeliveries and replays of the
+ * same push are recognised.
+ */
+export interface WebhookDelivery {
+  id: string; // x-github-delivery
+  event: string;
+  ref: string;
+  beforeSha?: string; // Commit the push started from
+  commitSha: string;
+  commitTimestamp?: Date;
+  status: 'received' | 'queued' | 'ignored' | 'rejected' | 'failed';
+  response: Record<string, unknown>; // Response returned for the delivery
+  jobId?: string;
+  attempts: number;
+  replayedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Net file changes across all commits in a push
+ */
+export interface ChangeSet {
+  upserted: string[]; // Added or modified, exists at the head commit
+  removed: string[]; // Deleted by the end of the push
+  renamed: Array<{
+    from: string; // Path before the move
+    to: string; // Path at the head commit
+  }>;
 }
 
 /**
  * Sync operation result
  */
+/**
+ * Environment a branch's pushes sync into
+ */
+export interface SyncEnvironment {
+  name: string; // e.g. production, staging
+  branch: string;
+  databaseUrl?: string; // Default: DATABASE_URL
+  schema?: string; // Default: public
+}
+
+/**
+ * A single content file change to apply, serializable for the job queue
+ */
+export interface SyncFileChange {
+  type: 'upsert' | 'delete' | 'rename';
+  path: string;
+  from?: string; // Previous path (renames only)
+}
+
+/**
+ * Durable sync job (sync_jobs table)
+ *
+ * A `push` job carries a webhook payload; files that fail while it runs are
+ * retried as individual `file` jobs with exponential backoff, and are
+ * dead-lettered once they run out of attempts.
+ */
+export interface SyncJob {
+  id: string;
+  kind: 'push' | 'file';
+  status: 'pending' | 'running' | 'completed' | 'cancelled' | 'dead';
+  payload: SyncJobPayload;
+  commitSha: string;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lastError?: string;
+  parentId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SyncJobPayload =
+  | { webhook: GitHubWebhookPayload; atomic?: boolean }
+  | { change: SyncFileChange; ref: string };
+
 export interface SyncResult {
   success: boolean;
   processed: number;
@@ -191,19 +478,90 @@ export interface SyncResult {
     error: string;
   }>;
   duration: number;
+  rollback?: {
+    file: string; // File that caused an atomic sync to roll back
+    error: string;
+  };
+  ignored?: boolean; // Push to a branch not mapped to a sync environment
+}
+
+/**
+ * Full reconciliation plan (content files at a ref vs. database rows)
+ */
+export interface ReconciliationPlan {
+  ref: string;
+  create: ReconciliationFile[]; // Files with no row yet
+  update: ReconciliationFile[]; // Files with an existing row
+  prune: Array<{
+    resourceType: 'post' | 'author' | 'page' | 'tag' | 'category' | 'entry';
+    slug: string; // Row with no backing file
+    entryType?: string; // Content type name (entries only)
+  }>;
+}
+
+export interface ReconciliationFile {
+  path: string;
+  resourceType: 'post' | 'author' | 'page' | 'tag' | 'category' | 'entry';
+  slug: string; // Filename slug (an entry's slug rule may differ)
+  entryType?: string; // Content type name (entries only)
+}
+
+// ===========================================================================
+// Content Source Types
+// ===========================================================================
+
+/**
+ * Supported content source providers
+ */
+export type ContentSourceType = 'github' | 'gitlab' | 'gitea' | 'local';
+
+/**
+ * Repository that content is read from
+ *
+ * Paths are always repository-relative (e.g. `content/posts/hello.md`),
+ * whichever provider backs the source.
+ */
+export interface ContentSource {
+  type: ContentSourceType;
+  /** Human-readable location, for logs (e.g. `owner/repo`) */
+  description: string;
+  /** Ref synced when none is given (tracked branch, or the local working tree) */
+  defaultRef: string;
+  /** Resolve a branch, tag or SHA to the commit SHA it points at */
+  resolveRef(ref: string): Promise<string>;
+  /** List every file path under a directory at a ref */
+  listFiles(ref: string, dir?: string): Promise<string[]>;
+  /** Fetch a file's content at a ref as UTF-8 */
+  fetchFile(path: string, ref: string): Promise<string>;
+  /** Fetch every file under a directory at a ref in one request, by path (bulk-capable sources only) */
+  fetchTree?(ref: string, dir?: string): Promise<Map<string, string>>;
+  /** Net file changes between two refs */
+  diff(base: string, head: string): Promise<ChangeSet>;
 }
 
 // ===========================================================================
 // Query Types
 // ===========================================================================
 
+/**
+ * Entry query filters
+ */
+export interface EntryFilters<T = Record<string, unknown>> {
+  where?: Partial<T>; // Frontmatter fields the entries must match
+  limit?: number;
+  offset?: number;
+  orderBy?: 'createdAt' | 'updatedAt' | 'slug' | (keyof T & string); // Frontmatter fields sort as text
+  orderDirection?: 'asc' | 'desc';
+}
+
 /**
  * Post query filters
  */
 export interface PostFilters {
-  status?: 'draft' | 'published' | 'archived';
+  status?: Post['status'];
   authorId?: string;
   tag?: string;
+  category?: string; // Category slug; includes posts in its subcategories
   featured?: boolean;
   search?: string;
   limit?: number;